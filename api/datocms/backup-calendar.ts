@@ -0,0 +1,150 @@
+import type { VercelRequest, VercelResponse } from "../../types/vercel";
+import {
+  getBackupCalendar,
+  MAX_PREVIEW_HORIZON_DAYS,
+  type BackupCalendarEvent,
+  type BackupCalendarResult,
+} from "../../services/backupService";
+import {
+  handleOptionsRequest,
+  sendError,
+  sendProjectError,
+  setCorsHeaders,
+  toProjectRequestOptions,
+} from "../../utils/httpHandlers";
+import { renderICalendar } from "../../utils/icalendar";
+import { validateBackupsCalendarToken } from "../../utils/requestAuth";
+
+const CALENDAR_NAME = "DatoCMS backups";
+const EVENT_DURATION_MINUTES = 15;
+const INTEGER_PATTERN = /^\d+$/;
+
+type BackupCalendarLoader = (options: {
+  horizonDays?: number;
+  apiToken?: string;
+  projectId?: string;
+  projectRegistry?: string;
+}) => Promise<BackupCalendarResult>;
+
+const toQueryString = (value: unknown): string | undefined => {
+  if (Array.isArray(value)) {
+    return toQueryString(value[0]);
+  }
+
+  return typeof value === "string" ? value : undefined;
+};
+
+const isValidHorizonDays = (value: string) =>
+  INTEGER_PATTERN.test(value) &&
+  Number(value) >= 1 &&
+  Number(value) <= MAX_PREVIEW_HORIZON_DAYS;
+
+const toCalendarEvent = (projectId: string) => (event: BackupCalendarEvent) => {
+  const cadenceLabel = event.slot ?? event.scope.replace(/_/g, " ");
+  const descriptionLines = [`Environment: ${event.environmentId}`];
+  if (event.replacesEnvironmentIds.length > 0) {
+    descriptionLines.push(`Rotates out: ${event.replacesEnvironmentIds.join(", ")}`);
+  }
+
+  return {
+    // Environment IDs repeat across projects, so the UID is scoped to the project.
+    uid: `${event.kind}-${projectId}-${event.environmentId}@datocms-backups`,
+    start: event.at,
+    durationMinutes: EVENT_DURATION_MINUTES,
+    summary:
+      event.kind === "scheduled"
+        ? `Scheduled ${cadenceLabel} backup`
+        : `${cadenceLabel.charAt(0).toUpperCase()}${cadenceLabel.slice(1)} backup`,
+    description: descriptionLines.join("\n"),
+  };
+};
+
+export const createBackupCalendarHandler = (
+  loadCalendar: BackupCalendarLoader = (options) => getBackupCalendar(options),
+) => {
+  return async (req: VercelRequest, res: VercelResponse) => {
+    setCorsHeaders(res, "GET,OPTIONS");
+
+    if (handleOptionsRequest(req, res, 204)) {
+      return;
+    }
+
+    if (req.method !== "GET") {
+      sendError(res, 405, {
+        code: "METHOD_NOT_ALLOWED",
+        message: "Only GET and OPTIONS are supported",
+        details: {
+          received: req.method ?? null,
+        },
+      });
+      return;
+    }
+
+    try {
+      const authResult = validateBackupsCalendarToken({
+        headers: req.headers as Record<string, unknown> | undefined,
+        sharedSecret:
+          typeof req.internalBackupsSharedSecret === "string"
+            ? req.internalBackupsSharedSecret
+            : undefined,
+        calendarToken:
+          typeof req.internalBackupsCalendarToken === "string"
+            ? req.internalBackupsCalendarToken
+            : undefined,
+        query: req.query,
+      });
+      if (!authResult.ok) {
+        sendError(res, authResult.failure.statusCode, {
+          code: authResult.failure.code,
+          message: authResult.failure.message,
+          details: {},
+        });
+        return;
+      }
+
+      const rawDays = toQueryString(req.query?.days);
+      if (typeof rawDays === "string" && !isValidHorizonDays(rawDays)) {
+        sendError(res, 400, {
+          code: "INVALID_CALENDAR_HORIZON",
+          message: `days must be an integer between 1 and ${MAX_PREVIEW_HORIZON_DAYS}`,
+          details: {
+            received: rawDays,
+          },
+        });
+        return;
+      }
+
+      const calendar = await loadCalendar({
+        horizonDays: typeof rawDays === "string" ? Number(rawDays) : undefined,
+        ...toProjectRequestOptions(req, toQueryString(req.query?.project)),
+      });
+
+      res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+      res.setHeader("Content-Disposition", 'inline; filename="datocms-backups.ics"');
+      res.status(200).send(
+        renderICalendar({
+          name: CALENDAR_NAME,
+          events: calendar.events.map(toCalendarEvent(calendar.projectId)),
+          now: new Date(calendar.checkedAt),
+        }),
+      );
+      return;
+    } catch (error) {
+      if (sendProjectError(res, error)) {
+        return;
+      }
+
+      sendError(res, 500, {
+        code: "INTERNAL_SERVER_ERROR",
+        message:
+          error instanceof Error
+            ? error.message
+            : "An unexpected internal error occurred",
+        details: {},
+      });
+      return;
+    }
+  };
+};
+
+export default createBackupCalendarHandler();
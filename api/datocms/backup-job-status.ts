@@ -0,0 +1,257 @@
+import type { VercelRequest, VercelResponse } from "../../types/vercel";
+import {
+  BackupJobNotFoundError,
+  getBackupJobStatus,
+  type BackupJobStatusResult,
+} from "../../services/backupService";
+import {
+  BACKUPS_BACKUP_JOB_STATUS_EVENT_TYPE,
+  BACKUPS_MPI_BACKUP_JOB_STATUS_REQUEST_MESSAGE,
+  BACKUPS_MPI_BACKUP_JOB_STATUS_RESPONSE_MESSAGE,
+  BACKUPS_MPI_VERSION,
+  BACKUPS_PLUGIN_NAME,
+  BACKUPS_SERVICE_NAME,
+  BACKUPS_SERVICE_STATUS,
+} from "../../utils/healthContract";
+import {
+  handleOptionsRequest,
+  parseJsonObjectBody,
+  sendError,
+  sendProjectError,
+  setCorsHeaders,
+  type ValidationError,
+  toProjectRequestOptions,
+  validatePluginProjectId,
+} from "../../utils/httpHandlers";
+import { validateBackupsSharedSecret } from "../../utils/requestAuth";
+
+type BackupJobStatusRequestPayload = {
+  event_type?: unknown;
+  mpi?: {
+    message?: unknown;
+    version?: unknown;
+  };
+  plugin?: {
+    name?: unknown;
+    environment?: unknown;
+    // Registry ID of the project the plugin runs in.
+    projectId?: unknown;
+  };
+  job?: {
+    id?: unknown;
+  };
+};
+
+const toJobId = (value: unknown): string | undefined =>
+  typeof value === "string" && value.trim() ? value.trim() : undefined;
+
+const validatePayload = (
+  payload: BackupJobStatusRequestPayload,
+): ValidationError | null => {
+  if (payload.event_type !== BACKUPS_BACKUP_JOB_STATUS_EVENT_TYPE) {
+    return {
+      code: "INVALID_EVENT_TYPE",
+      message: `event_type must be ${BACKUPS_BACKUP_JOB_STATUS_EVENT_TYPE}`,
+      details: {
+        expected: BACKUPS_BACKUP_JOB_STATUS_EVENT_TYPE,
+        received: payload.event_type,
+      },
+    };
+  }
+
+  if (payload.mpi?.message !== BACKUPS_MPI_BACKUP_JOB_STATUS_REQUEST_MESSAGE) {
+    return {
+      code: "INVALID_MPI_MESSAGE",
+      message: `mpi.message must be ${BACKUPS_MPI_BACKUP_JOB_STATUS_REQUEST_MESSAGE}`,
+      details: {
+        expected: BACKUPS_MPI_BACKUP_JOB_STATUS_REQUEST_MESSAGE,
+        received: payload.mpi?.message,
+      },
+    };
+  }
+
+  if (payload.mpi?.version !== BACKUPS_MPI_VERSION) {
+    return {
+      code: "INVALID_MPI_VERSION",
+      message: `mpi.version must be ${BACKUPS_MPI_VERSION}`,
+      details: {
+        expected: BACKUPS_MPI_VERSION,
+        received: payload.mpi?.version,
+      },
+    };
+  }
+
+  if (payload.plugin?.name !== BACKUPS_PLUGIN_NAME) {
+    return {
+      code: "INVALID_PLUGIN_NAME",
+      message: `plugin.name must be ${BACKUPS_PLUGIN_NAME}`,
+      details: {
+        expected: BACKUPS_PLUGIN_NAME,
+        received: payload.plugin?.name,
+      },
+    };
+  }
+
+  const pluginEnvironment =
+    typeof payload.plugin?.environment === "string"
+      ? payload.plugin.environment.trim()
+      : "";
+
+  if (!pluginEnvironment) {
+    return {
+      code: "INVALID_PLUGIN_ENVIRONMENT",
+      message: "plugin.environment must be a non-empty string",
+      details: {
+        received: payload.plugin?.environment,
+      },
+    };
+  }
+
+  const projectIdError = validatePluginProjectId(payload.plugin?.projectId);
+  if (projectIdError) {
+    return projectIdError;
+  }
+
+  if (!toJobId(payload.job?.id)) {
+    return {
+      code: "INVALID_JOB_ID",
+      message: "job.id must be a non-empty string",
+      details: {
+        received: payload.job?.id,
+      },
+    };
+  }
+
+  return null;
+};
+
+type BackupJobStatusLoader = (options: {
+  jobId: string;
+  apiToken?: string;
+  projectId?: string;
+  projectRegistry?: string;
+}) => Promise<BackupJobStatusResult>;
+
+export const createBackupJobStatusHandler = (
+  loadJobStatus: BackupJobStatusLoader = (options) => getBackupJobStatus(options),
+) => {
+  return async (req: VercelRequest, res: VercelResponse) => {
+    setCorsHeaders(res, "OPTIONS,POST");
+
+    if (handleOptionsRequest(req, res, 204)) {
+      return;
+    }
+
+    if (req.method !== "POST") {
+      sendError(res, 405, {
+        code: "METHOD_NOT_ALLOWED",
+        message: "Only POST and OPTIONS are supported",
+        details: {
+          received: req.method ?? null,
+        },
+      });
+      return;
+    }
+
+    try {
+      const authResult = validateBackupsSharedSecret({
+        headers: req.headers as Record<string, unknown> | undefined,
+        sharedSecret:
+          typeof req.internalBackupsSharedSecret === "string"
+            ? req.internalBackupsSharedSecret
+            : undefined,
+      });
+      if (!authResult.ok) {
+        sendError(res, authResult.failure.statusCode, {
+          code: authResult.failure.code,
+          message: authResult.failure.message,
+          details: {},
+        });
+        return;
+      }
+
+      const parsedBody = parseJsonObjectBody(req.body) as BackupJobStatusRequestPayload;
+      const validationError = validatePayload(parsedBody);
+      if (validationError) {
+        sendError(res, 400, validationError);
+        return;
+      }
+
+      const result = await loadJobStatus({
+        jobId: toJobId(parsedBody.job?.id) as string,
+        ...toProjectRequestOptions(req, parsedBody.plugin?.projectId),
+      });
+
+      res.status(200).json({
+        ok: true,
+        mpi: {
+          message: BACKUPS_MPI_BACKUP_JOB_STATUS_RESPONSE_MESSAGE,
+          version: BACKUPS_MPI_VERSION,
+        },
+        service: BACKUPS_SERVICE_NAME,
+        status: BACKUPS_SERVICE_STATUS,
+        job: {
+          id: result.job.id,
+          scope: result.job.scope,
+          ...(result.job.slot ? { slot: result.job.slot } : {}),
+          environmentId: result.job.environmentId,
+          sourceEnvironmentId: result.job.sourceEnvironmentId,
+          startedAt: result.job.startedAt,
+          status: result.job.status,
+          progress: result.progress,
+          deletedEnvironmentIds: result.job.deletedEnvironmentIds,
+          completedAt: result.job.completedAt ?? null,
+          error: result.job.error ?? null,
+          retentionError: result.job.retentionError ?? null,
+        },
+        checkedAt: result.checkedAt,
+      });
+      return;
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        sendError(res, 400, {
+          code: "INVALID_JSON",
+          message: "Request body is not valid JSON",
+          details: {},
+        });
+        return;
+      }
+
+      if (error instanceof Error && error.message === "INVALID_BODY") {
+        sendError(res, 400, {
+          code: "INVALID_BODY",
+          message: "Request body must be a JSON object",
+          details: {},
+        });
+        return;
+      }
+
+      if (error instanceof BackupJobNotFoundError) {
+        sendError(res, 404, {
+          code: "BACKUP_JOB_NOT_FOUND",
+          message: error.message,
+          details: {
+            jobId: error.jobId,
+          },
+        });
+        return;
+      }
+
+      if (sendProjectError(res, error)) {
+        return;
+      }
+
+      sendError(res, 500, {
+        code: "INTERNAL_SERVER_ERROR",
+        message:
+          error instanceof Error
+            ? error.message
+            : "An unexpected internal error occurred",
+        details: {},
+      });
+      return;
+    }
+  };
+};
+
+export default createBackupJobStatusHandler();
@@ -1,9 +1,13 @@
 import type { VercelRequest, VercelResponse } from "../../types/vercel";
 import {
+  BackupAlreadyRunningError,
+  BackupSlotNotFoundError,
   CadenceNotEnabledError,
-  MissingApiTokenError,
+  PluginNotInstalledError,
   runManualBackupNow,
+  startManualBackup,
   type BackupCadence,
+  type ManualBackupJobStartResult,
   type ManualBackupNowResult,
   type SchedulerProvider,
 } from "../../services/backupService";
@@ -20,8 +24,11 @@ import {
   handleOptionsRequest,
   parseJsonObjectBody,
   sendError,
+  sendProjectError,
   setCorsHeaders,
   type ValidationError,
+  toProjectRequestOptions,
+  validatePluginProjectId,
 } from "../../utils/httpHandlers";
 import { validateBackupsSharedSecret } from "../../utils/requestAuth";
 
@@ -34,13 +41,19 @@ type BackupNowRequestPayload = {
   plugin?: {
     name?: unknown;
     environment?: unknown;
+    // Registry ID of the project the plugin runs in.
+    projectId?: unknown;
   };
   slot?: {
     scope?: unknown;
+    // Names a custom slot instead of a built-in cadence.
+    name?: unknown;
   };
   runtime?: {
     provider?: unknown;
   };
+  // Starts the fork and answers 202 with a job to poll via backup-job-status.
+  async?: unknown;
 };
 
 const toProvider = (value: unknown): SchedulerProvider | undefined => {
@@ -58,10 +71,15 @@ const toProvider = (value: unknown): SchedulerProvider | undefined => {
 
 const toCadence = (value: unknown): BackupCadence | undefined => {
   if (
+    value === "hourly" ||
+    value === "every_n_hours" ||
     value === "daily" ||
     value === "weekly" ||
     value === "biweekly" ||
-    value === "monthly"
+    value === "monthly" ||
+    value === "quarterly" ||
+    value === "yearly" ||
+    value === "cron"
   ) {
     return value;
   }
@@ -131,10 +149,25 @@ const validatePayload = (
     };
   }
 
-  if (!toCadence(payload.slot?.scope)) {
+  const projectIdError = validatePluginProjectId(payload.plugin?.projectId);
+  if (projectIdError) {
+    return projectIdError;
+  }
+
+  if (typeof payload.slot?.name !== "undefined") {
+    if (typeof payload.slot.name !== "string" || !payload.slot.name.trim()) {
+      return {
+        code: "INVALID_SLOT_NAME",
+        message: "slot.name must be a non-empty string",
+        details: {
+          received: payload.slot.name,
+        },
+      };
+    }
+  } else if (!toCadence(payload.slot?.scope)) {
     return {
       code: "INVALID_SLOT_SCOPE",
-      message: "slot.scope must be daily, weekly, biweekly, or monthly",
+      message: "slot.scope must be hourly, every_n_hours, daily, weekly, biweekly, monthly, quarterly, yearly, or cron",
       details: {
         received: payload.slot?.scope,
       },
@@ -154,18 +187,38 @@ const validatePayload = (
     };
   }
 
+  if (typeof payload.async !== "undefined" && typeof payload.async !== "boolean") {
+    return {
+      code: "INVALID_ASYNC_FLAG",
+      message: "async must be a boolean",
+      details: {
+        received: payload.async,
+      },
+    };
+  }
+
   return null;
 };
 
-type ManualBackupNowLoader = (options: {
-  scope: BackupCadence;
+type ManualBackupOptions = ({ scope: BackupCadence } | { slotName: string }) & {
   providerHint?: SchedulerProvider;
   apiToken?: string;
-}) => Promise<ManualBackupNowResult>;
+  projectId?: string;
+  projectRegistry?: string;
+};
+
+type ManualBackupNowLoader = (
+  options: ManualBackupOptions,
+) => Promise<ManualBackupNowResult>;
+
+type ManualBackupJobLoader = (
+  options: ManualBackupOptions,
+) => Promise<ManualBackupJobStartResult>;
 
 export const createBackupNowHandler = (
   runBackupNow: ManualBackupNowLoader = (options) =>
     runManualBackupNow(options),
+  startBackupJob: ManualBackupJobLoader = (options) => startManualBackup(options),
 ) => {
   return async (req: VercelRequest, res: VercelResponse) => {
     setCorsHeaders(res, "OPTIONS,POST");
@@ -209,24 +262,66 @@ export const createBackupNowHandler = (
         return;
       }
 
-      const scope = toCadence(parsedBody.slot?.scope) as BackupCadence;
+      const slotName =
+        typeof parsedBody.slot?.name === "string" ? parsedBody.slot.name.trim() : undefined;
+      const target = slotName
+        ? { slotName }
+        : { scope: toCadence(parsedBody.slot?.scope) as BackupCadence };
       const providerHint = toProvider(parsedBody.runtime?.provider);
-      const result = await runBackupNow({
-        scope,
+      const runBackup = parsedBody.async === true ? startBackupJob : runBackupNow;
+      const result = await runBackup({
+        ...target,
         providerHint,
-        apiToken:
-          typeof req.internalDatocmsApiToken === "string"
-            ? req.internalDatocmsApiToken
-            : undefined,
+        ...toProjectRequestOptions(req, parsedBody.plugin?.projectId),
       });
 
+      if (
+        result.status === "failed" &&
+        (result.code === "ENVIRONMENT_QUOTA_EXCEEDED" ||
+          result.code === "SOURCE_ENVIRONMENT_NOT_FOUND")
+      ) {
+        sendError(res, 409, {
+          code: result.code,
+          message: result.error,
+          details: {
+            scope: result.scope,
+            ...(result.slot ? { slot: result.slot } : {}),
+          },
+        });
+        return;
+      }
+
       if (result.status === "failed") {
         sendError(res, 500, {
           code: "BACKUP_NOW_FAILED",
           message: result.error,
           details: {
             scope: result.scope,
+            ...(result.slot ? { slot: result.slot } : {}),
+          },
+        });
+        return;
+      }
+
+      if (result.status === "started") {
+        res.status(202).json({
+          ok: true,
+          mpi: {
+            message: BACKUPS_MPI_BACKUP_NOW_RESPONSE_MESSAGE,
+            version: BACKUPS_MPI_VERSION,
           },
+          service: BACKUPS_SERVICE_NAME,
+          status: BACKUPS_SERVICE_STATUS,
+          job: {
+            id: result.job.id,
+            scope: result.job.scope,
+            ...(result.job.slot ? { slot: result.job.slot } : {}),
+            environmentId: result.job.environmentId,
+            sourceEnvironmentId: result.job.sourceEnvironmentId,
+            startedAt: result.job.startedAt,
+            status: result.job.status,
+          },
+          checkedAt: result.checkedAt,
         });
         return;
       }
@@ -241,9 +336,12 @@ export const createBackupNowHandler = (
         status: BACKUPS_SERVICE_STATUS,
         backup: {
           scope: result.scope,
+          ...(result.slot ? { slot: result.slot } : {}),
           executionMode: result.executionMode,
           createdEnvironmentId: result.createdEnvironmentId,
+          deletedEnvironmentIds: result.deletedEnvironmentIds,
           deletedEnvironmentId: result.deletedEnvironmentId,
+          sourceEnvironmentId: result.sourceEnvironmentId,
           completedAt: result.completedAt,
         },
         checkedAt: result.checkedAt,
@@ -279,15 +377,43 @@ export const createBackupNowHandler = (
         return;
       }
 
-      if (error instanceof MissingApiTokenError) {
-        sendError(res, 500, {
-          code: "MISSING_API_TOKEN",
-          message: "Missing API token. Configure DATOCMS_FULLACCESS_API_TOKEN.",
+      if (error instanceof BackupAlreadyRunningError) {
+        sendError(res, 409, {
+          code: "BACKUP_ALREADY_RUNNING",
+          message: error.message,
+          details: {
+            provider: error.lock.provider,
+            acquiredAt: error.lock.acquiredAt,
+            expiresAt: error.lock.expiresAt,
+          },
+        });
+        return;
+      }
+
+      if (error instanceof BackupSlotNotFoundError) {
+        sendError(res, 404, {
+          code: "SLOT_NOT_FOUND",
+          message: error.message,
+          details: {
+            slot: error.slotName,
+          },
+        });
+        return;
+      }
+
+      if (error instanceof PluginNotInstalledError) {
+        sendError(res, 409, {
+          code: "PLUGIN_NOT_INSTALLED",
+          message: error.message,
           details: {},
         });
         return;
       }
 
+      if (sendProjectError(res, error)) {
+        return;
+      }
+
       sendError(res, 500, {
         code: "INTERNAL_SERVER_ERROR",
         message:
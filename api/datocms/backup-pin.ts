@@ -0,0 +1,271 @@
+import type { VercelRequest, VercelResponse } from "../../types/vercel";
+import {
+  BackupEnvironmentNotFoundError,
+  PluginNotInstalledError,
+  setBackupPinned,
+  type BackupPinResult,
+} from "../../services/backupService";
+import {
+  BACKUPS_BACKUP_PIN_EVENT_TYPE,
+  BACKUPS_MPI_BACKUP_PIN_REQUEST_MESSAGE,
+  BACKUPS_MPI_BACKUP_PIN_RESPONSE_MESSAGE,
+  BACKUPS_MPI_VERSION,
+  BACKUPS_PLUGIN_NAME,
+  BACKUPS_SERVICE_NAME,
+  BACKUPS_SERVICE_STATUS,
+} from "../../utils/healthContract";
+import {
+  handleOptionsRequest,
+  parseJsonObjectBody,
+  sendError,
+  sendProjectError,
+  setCorsHeaders,
+  type ValidationError,
+  toProjectRequestOptions,
+  validatePluginProjectId,
+} from "../../utils/httpHandlers";
+import { validateBackupsSharedSecret } from "../../utils/requestAuth";
+
+type BackupPinRequestPayload = {
+  event_type?: unknown;
+  mpi?: {
+    message?: unknown;
+    version?: unknown;
+  };
+  plugin?: {
+    name?: unknown;
+    environment?: unknown;
+    // Registry ID of the project the plugin runs in.
+    projectId?: unknown;
+  };
+  pin?: {
+    environmentId?: unknown;
+    pinned?: unknown;
+  };
+};
+
+const toEnvironmentId = (value: unknown): string | undefined =>
+  typeof value === "string" && value.trim() ? value.trim() : undefined;
+
+const validatePayload = (
+  payload: BackupPinRequestPayload,
+): ValidationError | null => {
+  if (payload.event_type !== BACKUPS_BACKUP_PIN_EVENT_TYPE) {
+    return {
+      code: "INVALID_EVENT_TYPE",
+      message: `event_type must be ${BACKUPS_BACKUP_PIN_EVENT_TYPE}`,
+      details: {
+        expected: BACKUPS_BACKUP_PIN_EVENT_TYPE,
+        received: payload.event_type,
+      },
+    };
+  }
+
+  if (payload.mpi?.message !== BACKUPS_MPI_BACKUP_PIN_REQUEST_MESSAGE) {
+    return {
+      code: "INVALID_MPI_MESSAGE",
+      message: `mpi.message must be ${BACKUPS_MPI_BACKUP_PIN_REQUEST_MESSAGE}`,
+      details: {
+        expected: BACKUPS_MPI_BACKUP_PIN_REQUEST_MESSAGE,
+        received: payload.mpi?.message,
+      },
+    };
+  }
+
+  if (payload.mpi?.version !== BACKUPS_MPI_VERSION) {
+    return {
+      code: "INVALID_MPI_VERSION",
+      message: `mpi.version must be ${BACKUPS_MPI_VERSION}`,
+      details: {
+        expected: BACKUPS_MPI_VERSION,
+        received: payload.mpi?.version,
+      },
+    };
+  }
+
+  if (payload.plugin?.name !== BACKUPS_PLUGIN_NAME) {
+    return {
+      code: "INVALID_PLUGIN_NAME",
+      message: `plugin.name must be ${BACKUPS_PLUGIN_NAME}`,
+      details: {
+        expected: BACKUPS_PLUGIN_NAME,
+        received: payload.plugin?.name,
+      },
+    };
+  }
+
+  const pluginEnvironment =
+    typeof payload.plugin?.environment === "string"
+      ? payload.plugin.environment.trim()
+      : "";
+
+  if (!pluginEnvironment) {
+    return {
+      code: "INVALID_PLUGIN_ENVIRONMENT",
+      message: "plugin.environment must be a non-empty string",
+      details: {
+        received: payload.plugin?.environment,
+      },
+    };
+  }
+
+  const projectIdError = validatePluginProjectId(payload.plugin?.projectId);
+  if (projectIdError) {
+    return projectIdError;
+  }
+
+  if (!toEnvironmentId(payload.pin?.environmentId)) {
+    return {
+      code: "INVALID_PIN_ENVIRONMENT_ID",
+      message: "pin.environmentId must be a non-empty string",
+      details: {
+        received: payload.pin?.environmentId,
+      },
+    };
+  }
+
+  if (typeof payload.pin?.pinned !== "boolean") {
+    return {
+      code: "INVALID_PIN_STATE",
+      message: "pin.pinned must be a boolean",
+      details: {
+        received: payload.pin?.pinned,
+      },
+    };
+  }
+
+  return null;
+};
+
+type BackupPinLoader = (options: {
+  environmentId: string;
+  pinned: boolean;
+  apiToken?: string;
+  projectId?: string;
+  projectRegistry?: string;
+}) => Promise<BackupPinResult>;
+
+export const createBackupPinHandler = (
+  updatePin: BackupPinLoader = (options) => setBackupPinned(options),
+) => {
+  return async (req: VercelRequest, res: VercelResponse) => {
+    setCorsHeaders(res, "OPTIONS,POST");
+
+    if (handleOptionsRequest(req, res, 204)) {
+      return;
+    }
+
+    if (req.method !== "POST") {
+      sendError(res, 405, {
+        code: "METHOD_NOT_ALLOWED",
+        message: "Only POST and OPTIONS are supported",
+        details: {
+          received: req.method ?? null,
+        },
+      });
+      return;
+    }
+
+    try {
+      const authResult = validateBackupsSharedSecret({
+        headers: req.headers as Record<string, unknown> | undefined,
+        sharedSecret:
+          typeof req.internalBackupsSharedSecret === "string"
+            ? req.internalBackupsSharedSecret
+            : undefined,
+      });
+      if (!authResult.ok) {
+        sendError(res, authResult.failure.statusCode, {
+          code: authResult.failure.code,
+          message: authResult.failure.message,
+          details: {},
+        });
+        return;
+      }
+
+      const parsedBody = parseJsonObjectBody(req.body) as BackupPinRequestPayload;
+      const validationError = validatePayload(parsedBody);
+      if (validationError) {
+        sendError(res, 400, validationError);
+        return;
+      }
+
+      const result = await updatePin({
+        environmentId: toEnvironmentId(parsedBody.pin?.environmentId) as string,
+        pinned: parsedBody.pin?.pinned as boolean,
+        ...toProjectRequestOptions(req, parsedBody.plugin?.projectId),
+      });
+
+      res.status(200).json({
+        ok: true,
+        mpi: {
+          message: BACKUPS_MPI_BACKUP_PIN_RESPONSE_MESSAGE,
+          version: BACKUPS_MPI_VERSION,
+        },
+        service: BACKUPS_SERVICE_NAME,
+        status: BACKUPS_SERVICE_STATUS,
+        pin: {
+          environmentId: result.environmentId,
+          pinned: result.pinned,
+          pinnedEnvironmentIds: result.pinnedEnvironmentIds,
+        },
+        checkedAt: result.checkedAt,
+      });
+      return;
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        sendError(res, 400, {
+          code: "INVALID_JSON",
+          message: "Request body is not valid JSON",
+          details: {},
+        });
+        return;
+      }
+
+      if (error instanceof Error && error.message === "INVALID_BODY") {
+        sendError(res, 400, {
+          code: "INVALID_BODY",
+          message: "Request body must be a JSON object",
+          details: {},
+        });
+        return;
+      }
+
+      if (error instanceof BackupEnvironmentNotFoundError) {
+        sendError(res, 404, {
+          code: "ENVIRONMENT_NOT_FOUND",
+          message: error.message,
+          details: {
+            environmentId: error.environmentId,
+          },
+        });
+        return;
+      }
+
+      if (error instanceof PluginNotInstalledError) {
+        sendError(res, 409, {
+          code: "PLUGIN_NOT_INSTALLED",
+          message: error.message,
+          details: {},
+        });
+        return;
+      }
+
+      if (sendProjectError(res, error)) {
+        return;
+      }
+
+      sendError(res, 500, {
+        code: "INTERNAL_SERVER_ERROR",
+        message:
+          error instanceof Error
+            ? error.message
+            : "An unexpected internal error occurred",
+        details: {},
+      });
+      return;
+    }
+  };
+};
+
+export default createBackupPinHandler();
@@ -1,7 +1,6 @@
 import type { VercelRequest, VercelResponse } from "../../types/vercel";
 import {
   getBackupStatus,
-  MissingApiTokenError,
   type BackupStatusResult,
   type SchedulerProvider,
 } from "../../services/backupService";
@@ -18,8 +17,11 @@ import {
   handleOptionsRequest,
   parseJsonObjectBody,
   sendError,
+  sendProjectError,
   type ValidationError,
   setCorsHeaders,
+  toProjectRequestOptions,
+  validatePluginProjectId,
 } from "../../utils/httpHandlers";
 import { validateBackupsSharedSecret } from "../../utils/requestAuth";
 
@@ -32,6 +34,8 @@ type BackupStatusRequestPayload = {
   plugin?: {
     name?: unknown;
     environment?: unknown;
+    // Registry ID of the project the plugin runs in.
+    projectId?: unknown;
   };
   runtime?: {
     provider?: unknown;
@@ -113,6 +117,11 @@ const validatePayload = (
     };
   }
 
+  const projectIdError = validatePluginProjectId(payload.plugin?.projectId);
+  if (projectIdError) {
+    return projectIdError;
+  }
+
   if (
     typeof payload.runtime?.provider !== "undefined" &&
     !toProvider(payload.runtime.provider)
@@ -133,6 +142,8 @@ export const createBackupStatusHandler = (
   loadStatus: (options?: {
     providerHint?: SchedulerProvider;
     apiToken?: string;
+    projectId?: string;
+    projectRegistry?: string;
   }) => Promise<BackupStatusResult> = (options) => getBackupStatus(options),
 ) => {
   return async (req: VercelRequest, res: VercelResponse) => {
@@ -180,10 +191,7 @@ export const createBackupStatusHandler = (
       const providerHint = toProvider(parsedBody.runtime?.provider);
       const status = await loadStatus({
         providerHint,
-        apiToken:
-          typeof req.internalDatocmsApiToken === "string"
-            ? req.internalDatocmsApiToken
-            : undefined,
+        ...toProjectRequestOptions(req, parsedBody.plugin?.projectId),
       });
 
       res.status(200).json({
@@ -195,7 +203,11 @@ export const createBackupStatusHandler = (
         service: BACKUPS_SERVICE_NAME,
         status: BACKUPS_SERVICE_STATUS,
         scheduler: status.scheduler,
+        retentionPolicy: status.retentionPolicy,
+        environmentQuota: status.environmentQuota,
+        pinnedBackups: status.pinnedBackups,
         slots: status.slots,
+        customSlots: status.customSlots,
         checkedAt: status.checkedAt,
       });
       return;
@@ -218,12 +230,7 @@ export const createBackupStatusHandler = (
         return;
       }
 
-      if (error instanceof MissingApiTokenError) {
-        sendError(res, 500, {
-          code: "MISSING_API_TOKEN",
-          message: "Missing API token. Configure DATOCMS_FULLACCESS_API_TOKEN.",
-          details: {},
-        });
+      if (sendProjectError(res, error)) {
         return;
       }
 
@@ -0,0 +1,277 @@
+import type { VercelRequest, VercelResponse } from "../../types/vercel";
+import {
+  getSchedulePreview,
+  MAX_PREVIEW_COUNT,
+  MAX_PREVIEW_HORIZON_DAYS,
+  type SchedulePreviewResult,
+} from "../../services/backupService";
+import {
+  BACKUPS_MPI_SCHEDULE_PREVIEW_REQUEST_MESSAGE,
+  BACKUPS_MPI_SCHEDULE_PREVIEW_RESPONSE_MESSAGE,
+  BACKUPS_MPI_VERSION,
+  BACKUPS_PLUGIN_NAME,
+  BACKUPS_SCHEDULE_PREVIEW_EVENT_TYPE,
+  BACKUPS_SERVICE_NAME,
+  BACKUPS_SERVICE_STATUS,
+} from "../../utils/healthContract";
+import {
+  handleOptionsRequest,
+  parseJsonObjectBody,
+  sendError,
+  sendProjectError,
+  setCorsHeaders,
+  type ValidationError,
+  toProjectRequestOptions,
+  validatePluginProjectId,
+} from "../../utils/httpHandlers";
+import { validateBackupsSharedSecret } from "../../utils/requestAuth";
+
+type SchedulePreviewRequestPayload = {
+  event_type?: unknown;
+  mpi?: {
+    message?: unknown;
+    version?: unknown;
+  };
+  plugin?: {
+    name?: unknown;
+    environment?: unknown;
+    // Registry ID of the project the plugin runs in.
+    projectId?: unknown;
+  };
+  preview?: {
+    count?: unknown;
+    horizonDays?: unknown;
+    schedule?: unknown;
+  };
+};
+
+const isIntegerInRange = (value: unknown, max: number): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= 1 && value <= max;
+
+const validatePayload = (
+  payload: SchedulePreviewRequestPayload,
+): ValidationError | null => {
+  if (payload.event_type !== BACKUPS_SCHEDULE_PREVIEW_EVENT_TYPE) {
+    return {
+      code: "INVALID_EVENT_TYPE",
+      message: `event_type must be ${BACKUPS_SCHEDULE_PREVIEW_EVENT_TYPE}`,
+      details: {
+        expected: BACKUPS_SCHEDULE_PREVIEW_EVENT_TYPE,
+        received: payload.event_type,
+      },
+    };
+  }
+
+  if (payload.mpi?.message !== BACKUPS_MPI_SCHEDULE_PREVIEW_REQUEST_MESSAGE) {
+    return {
+      code: "INVALID_MPI_MESSAGE",
+      message: `mpi.message must be ${BACKUPS_MPI_SCHEDULE_PREVIEW_REQUEST_MESSAGE}`,
+      details: {
+        expected: BACKUPS_MPI_SCHEDULE_PREVIEW_REQUEST_MESSAGE,
+        received: payload.mpi?.message,
+      },
+    };
+  }
+
+  if (payload.mpi?.version !== BACKUPS_MPI_VERSION) {
+    return {
+      code: "INVALID_MPI_VERSION",
+      message: `mpi.version must be ${BACKUPS_MPI_VERSION}`,
+      details: {
+        expected: BACKUPS_MPI_VERSION,
+        received: payload.mpi?.version,
+      },
+    };
+  }
+
+  if (payload.plugin?.name !== BACKUPS_PLUGIN_NAME) {
+    return {
+      code: "INVALID_PLUGIN_NAME",
+      message: `plugin.name must be ${BACKUPS_PLUGIN_NAME}`,
+      details: {
+        expected: BACKUPS_PLUGIN_NAME,
+        received: payload.plugin?.name,
+      },
+    };
+  }
+
+  const pluginEnvironment =
+    typeof payload.plugin?.environment === "string"
+      ? payload.plugin.environment.trim()
+      : "";
+
+  if (!pluginEnvironment) {
+    return {
+      code: "INVALID_PLUGIN_ENVIRONMENT",
+      message: "plugin.environment must be a non-empty string",
+      details: {
+        received: payload.plugin?.environment,
+      },
+    };
+  }
+
+  const projectIdError = validatePluginProjectId(payload.plugin?.projectId);
+  if (projectIdError) {
+    return projectIdError;
+  }
+
+  if (
+    typeof payload.preview?.count !== "undefined" &&
+    !isIntegerInRange(payload.preview.count, MAX_PREVIEW_COUNT)
+  ) {
+    return {
+      code: "INVALID_PREVIEW_COUNT",
+      message: `preview.count must be an integer between 1 and ${MAX_PREVIEW_COUNT}`,
+      details: {
+        received: payload.preview?.count,
+      },
+    };
+  }
+
+  if (
+    typeof payload.preview?.horizonDays !== "undefined" &&
+    !isIntegerInRange(payload.preview.horizonDays, MAX_PREVIEW_HORIZON_DAYS)
+  ) {
+    return {
+      code: "INVALID_PREVIEW_HORIZON",
+      message: `preview.horizonDays must be an integer between 1 and ${MAX_PREVIEW_HORIZON_DAYS}`,
+      details: {
+        received: payload.preview?.horizonDays,
+      },
+    };
+  }
+
+  const schedule = payload.preview?.schedule;
+  if (
+    typeof schedule !== "undefined" &&
+    (typeof schedule !== "object" || schedule === null || Array.isArray(schedule))
+  ) {
+    return {
+      code: "INVALID_PREVIEW_SCHEDULE",
+      message: "preview.schedule must be an object",
+      details: {
+        received: schedule,
+      },
+    };
+  }
+
+  return null;
+};
+
+type SchedulePreviewLoader = (options: {
+  count?: number;
+  horizonDays?: number;
+  schedule?: unknown;
+  apiToken?: string;
+  projectId?: string;
+  projectRegistry?: string;
+}) => Promise<SchedulePreviewResult>;
+
+export const createSchedulePreviewHandler = (
+  loadPreview: SchedulePreviewLoader = (options) => getSchedulePreview(options),
+) => {
+  return async (req: VercelRequest, res: VercelResponse) => {
+    setCorsHeaders(res, "OPTIONS,POST");
+
+    if (handleOptionsRequest(req, res, 204)) {
+      return;
+    }
+
+    if (req.method !== "POST") {
+      sendError(res, 405, {
+        code: "METHOD_NOT_ALLOWED",
+        message: "Only POST and OPTIONS are supported",
+        details: {
+          received: req.method ?? null,
+        },
+      });
+      return;
+    }
+
+    try {
+      const authResult = validateBackupsSharedSecret({
+        headers: req.headers as Record<string, unknown> | undefined,
+        sharedSecret:
+          typeof req.internalBackupsSharedSecret === "string"
+            ? req.internalBackupsSharedSecret
+            : undefined,
+      });
+      if (!authResult.ok) {
+        sendError(res, authResult.failure.statusCode, {
+          code: authResult.failure.code,
+          message: authResult.failure.message,
+          details: {},
+        });
+        return;
+      }
+
+      const parsedBody = parseJsonObjectBody(req.body) as SchedulePreviewRequestPayload;
+      const validationError = validatePayload(parsedBody);
+      if (validationError) {
+        sendError(res, 400, validationError);
+        return;
+      }
+
+      const preview = await loadPreview({
+        count: parsedBody.preview?.count as number | undefined,
+        horizonDays: parsedBody.preview?.horizonDays as number | undefined,
+        schedule: parsedBody.preview?.schedule,
+        ...toProjectRequestOptions(req, parsedBody.plugin?.projectId),
+      });
+
+      res.status(200).json({
+        ok: true,
+        mpi: {
+          message: BACKUPS_MPI_SCHEDULE_PREVIEW_RESPONSE_MESSAGE,
+          version: BACKUPS_MPI_VERSION,
+        },
+        service: BACKUPS_SERVICE_NAME,
+        status: BACKUPS_SERVICE_STATUS,
+        preview: {
+          timezone: preview.timezone,
+          anchorLocalDate: preview.anchorLocalDate,
+          runAtLocalTime: preview.runAtLocalTime,
+          horizonEndLocalDate: preview.horizonEndLocalDate,
+          cadences: preview.cadences,
+          customSlots: preview.customSlots,
+        },
+        checkedAt: preview.checkedAt,
+      });
+      return;
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        sendError(res, 400, {
+          code: "INVALID_JSON",
+          message: "Request body is not valid JSON",
+          details: {},
+        });
+        return;
+      }
+
+      if (error instanceof Error && error.message === "INVALID_BODY") {
+        sendError(res, 400, {
+          code: "INVALID_BODY",
+          message: "Request body must be a JSON object",
+          details: {},
+        });
+        return;
+      }
+
+      if (sendProjectError(res, error)) {
+        return;
+      }
+
+      sendError(res, 500, {
+        code: "INTERNAL_SERVER_ERROR",
+        message:
+          error instanceof Error
+            ? error.message
+            : "An unexpected internal error occurred",
+        details: {},
+      });
+      return;
+    }
+  };
+};
+
+export default createSchedulePreviewHandler();
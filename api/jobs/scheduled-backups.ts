@@ -1,12 +1,12 @@
 import {
   hasScheduledBackupFailures,
-  runScheduledBackups,
-  type ScheduledBackupsRunResult,
+  runScheduledBackupsForProjects,
+  type ScheduledBackupsJobResult,
 } from "../../services/backupService";
 import { createAuthenticatedJobHandler, createErrorPayload } from "./sharedJobHandler";
 
 export const createScheduledBackupsHandler = (
-  runJob: () => Promise<ScheduledBackupsRunResult> = () => runScheduledBackups(),
+  runJob: () => Promise<ScheduledBackupsJobResult> = () => runScheduledBackupsForProjects(),
 ) => {
   return createAuthenticatedJobHandler({
     runJob,
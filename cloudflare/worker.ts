@@ -1,11 +1,19 @@
 import {
   hasScheduledBackupFailures,
-  runScheduledBackups,
-  type ScheduledBackupsRunResult,
+  runScheduledBackupsForProjects,
+  toStaggerOptions,
+  type RetryPolicy,
+  type ScheduledBackupsJobResult,
+  type StaggerOptions,
+  type TimeBudget,
 } from "../services/backupService";
 import pluginHealthHandler from "../api/datocms/plugin-health";
 import backupStatusHandler from "../api/datocms/backup-status";
 import backupNowHandler from "../api/datocms/backup-now";
+import backupPinHandler from "../api/datocms/backup-pin";
+import backupJobStatusHandler from "../api/datocms/backup-job-status";
+import schedulePreviewHandler from "../api/datocms/schedule-preview";
+import backupCalendarHandler from "../api/datocms/backup-calendar";
 import {
   buildErrorEnvelope,
   buildJsonResponse,
@@ -14,11 +22,20 @@ import {
 } from "../utils/platformAdapters";
 import { validateBackupsSharedSecret } from "../utils/requestAuth";
 
+const HOURLY_CRON_SCHEDULE = "5 * * * *";
+// Deployments still configured with the former daily trigger keep running.
 const DAILY_CRON_SCHEDULE = "5 2 * * *";
+const SCHEDULED_CRONS = [HOURLY_CRON_SCHEDULE, DAILY_CRON_SCHEDULE];
 
 type CloudflareBindings = {
   DATOCMS_FULLACCESS_API_TOKEN?: string;
+  DATOCMS_BACKUP_PROJECTS?: string;
+  DATOCMS_BACKUP_MAX_JITTER_SECONDS?: string;
+  DATOCMS_BACKUP_CONCURRENCY?: string;
+  DATOCMS_BACKUP_MAX_REQUEST_ATTEMPTS?: string;
+  DATOCMS_BACKUP_TIME_BUDGET_SECONDS?: string;
   DATOCMS_BACKUPS_SHARED_SECRET?: string;
+  DATOCMS_BACKUPS_CALENDAR_TOKEN?: string;
 };
 
 type ScheduledController = {
@@ -87,6 +104,22 @@ const validateCloudflareRequestAuth = (
 const resolveApiTokenFromBindings = (env: CloudflareBindings) =>
   env.DATOCMS_FULLACCESS_API_TOKEN;
 
+const resolveStaggerFromBindings = (env: CloudflareBindings) =>
+  toStaggerOptions({
+    maxJitterSeconds: env.DATOCMS_BACKUP_MAX_JITTER_SECONDS,
+    concurrency: env.DATOCMS_BACKUP_CONCURRENCY,
+  });
+
+const resolveRetryFromBindings = (env: CloudflareBindings): RetryPolicy =>
+  env.DATOCMS_BACKUP_MAX_REQUEST_ATTEMPTS
+    ? { maxAttempts: Number(env.DATOCMS_BACKUP_MAX_REQUEST_ATTEMPTS) }
+    : {};
+
+const resolveTimeBudgetFromBindings = (env: CloudflareBindings): TimeBudget =>
+  Number(env.DATOCMS_BACKUP_TIME_BUDGET_SECONDS) > 0
+    ? { maxDurationMs: Number(env.DATOCMS_BACKUP_TIME_BUDGET_SECONDS) * 1000 }
+    : {};
+
 const withCloudflareRuntimeProvider = (rawBody: unknown): unknown => {
   if (!rawBody || typeof rawBody !== "object" || Array.isArray(rawBody)) {
     return rawBody;
@@ -109,11 +142,17 @@ const withCloudflareRuntimeProvider = (rawBody: unknown): unknown => {
   };
 };
 
+type ScheduledRunOptions = {
+  apiToken?: string;
+  projectRegistry?: string;
+  stagger?: StaggerOptions;
+  retry?: RetryPolicy;
+  timeBudget?: TimeBudget;
+  providerHint?: "cloudflare";
+};
+
 type CloudflareWorkerDependencies = {
-  runScheduled: (options: {
-    apiToken?: string;
-    providerHint?: "cloudflare";
-  }) => Promise<ScheduledBackupsRunResult>;
+  runScheduled: (options: ScheduledRunOptions) => Promise<ScheduledBackupsJobResult>;
   invokeHandler: typeof invokeVercelStyleHandler;
 };
 
@@ -122,8 +161,7 @@ const createCloudflareWorker = (
 ) => {
   const runScheduled =
     dependencies.runScheduled ??
-    ((options: { apiToken?: string; providerHint?: "cloudflare" }) =>
-      runScheduledBackups(options));
+    ((options: ScheduledRunOptions) => runScheduledBackupsForProjects(options));
   const invokeHandler = dependencies.invokeHandler ?? invokeVercelStyleHandler;
 
   return {
@@ -154,6 +192,7 @@ const createCloudflareWorker = (
           headers: requestHeaders,
           internalBackupsSharedSecret: env.DATOCMS_BACKUPS_SHARED_SECRET,
           internalDatocmsApiToken: bindingApiToken,
+          internalDatocmsProjectRegistry: env.DATOCMS_BACKUP_PROJECTS,
         });
         return buildResponseFromCapturedPayload(response);
       }
@@ -168,6 +207,66 @@ const createCloudflareWorker = (
           headers: requestHeaders,
           internalBackupsSharedSecret: env.DATOCMS_BACKUPS_SHARED_SECRET,
           internalDatocmsApiToken: bindingApiToken,
+          internalDatocmsProjectRegistry: env.DATOCMS_BACKUP_PROJECTS,
+        });
+        return buildResponseFromCapturedPayload(response);
+      }
+
+      if (pathname === "/api/datocms/backup-pin") {
+        const body = await parseRequestBody(request);
+
+        const response = await invokeHandler(backupPinHandler, {
+          method: request.method,
+          body,
+          headers: requestHeaders,
+          internalBackupsSharedSecret: env.DATOCMS_BACKUPS_SHARED_SECRET,
+          internalDatocmsApiToken: bindingApiToken,
+          internalDatocmsProjectRegistry: env.DATOCMS_BACKUP_PROJECTS,
+        });
+        return buildResponseFromCapturedPayload(response);
+      }
+
+      if (pathname === "/api/datocms/backup-job-status") {
+        const body = await parseRequestBody(request);
+
+        const response = await invokeHandler(backupJobStatusHandler, {
+          method: request.method,
+          body,
+          headers: requestHeaders,
+          internalBackupsSharedSecret: env.DATOCMS_BACKUPS_SHARED_SECRET,
+          internalDatocmsApiToken: bindingApiToken,
+          internalDatocmsProjectRegistry: env.DATOCMS_BACKUP_PROJECTS,
+        });
+        return buildResponseFromCapturedPayload(response);
+      }
+
+      if (pathname === "/api/datocms/schedule-preview") {
+        const body = await parseRequestBody(request);
+
+        const response = await invokeHandler(schedulePreviewHandler, {
+          method: request.method,
+          body,
+          headers: requestHeaders,
+          internalBackupsSharedSecret: env.DATOCMS_BACKUPS_SHARED_SECRET,
+          internalDatocmsApiToken: bindingApiToken,
+          internalDatocmsProjectRegistry: env.DATOCMS_BACKUP_PROJECTS,
+        });
+        return buildResponseFromCapturedPayload(response);
+      }
+
+      if (
+        pathname === "/api/datocms/backup-calendar" ||
+        pathname === "/api/datocms/backup-calendar.ics"
+      ) {
+        const response = await invokeHandler(backupCalendarHandler, {
+          method: request.method,
+          body: undefined,
+          headers: requestHeaders,
+          query: Object.fromEntries(url.searchParams.entries()),
+          internalBackupsSharedSecret: env.DATOCMS_BACKUPS_SHARED_SECRET,
+          internalBackupsCalendarToken: env.DATOCMS_BACKUPS_CALENDAR_TOKEN,
+          internalDatocmsApiToken: bindingApiToken,
+          internalDatocmsProjectRegistry: env.DATOCMS_BACKUP_PROJECTS,
         });
         return buildResponseFromCapturedPayload(response);
       }
@@ -181,6 +280,10 @@ const createCloudflareWorker = (
         try {
           const result = await runScheduled({
             apiToken: bindingApiToken,
+            projectRegistry: env.DATOCMS_BACKUP_PROJECTS,
+            stagger: resolveStaggerFromBindings(env),
+            retry: resolveRetryFromBindings(env),
+            timeBudget: resolveTimeBudgetFromBindings(env),
             providerHint: "cloudflare",
           });
           if (hasScheduledBackupFailures(result)) {
@@ -242,13 +345,17 @@ const createCloudflareWorker = (
       env: CloudflareBindings,
       context: ScheduledContext,
     ) {
-      if (controller.cron !== DAILY_CRON_SCHEDULE) {
+      if (!SCHEDULED_CRONS.includes(controller.cron)) {
         return;
       }
 
       context.waitUntil(
         runScheduled({
           apiToken: resolveApiTokenFromBindings(env),
+          projectRegistry: env.DATOCMS_BACKUP_PROJECTS,
+          stagger: resolveStaggerFromBindings(env),
+          retry: resolveRetryFromBindings(env),
+          timeBudget: resolveTimeBudgetFromBindings(env),
           providerHint: "cloudflare",
         })
           .then((result) => {
@@ -273,6 +380,7 @@ const createCloudflareWorker = (
 export {
   createCloudflareWorker,
   DAILY_CRON_SCHEDULE,
+  HOURLY_CRON_SCHEDULE,
 };
 
 export default createCloudflareWorker();
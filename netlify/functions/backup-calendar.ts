@@ -0,0 +1,40 @@
+import backupCalendarHandler from "../../api/datocms/backup-calendar";
+import {
+  buildErrorEnvelope,
+  buildJsonResponse,
+  invokeVercelStyleHandler,
+} from "../../utils/platformAdapters";
+
+type NetlifyFunctionEvent = {
+  httpMethod?: string;
+  headers?: Record<string, string | undefined>;
+  queryStringParameters?: Record<string, string | undefined> | null;
+  body: string | null;
+};
+
+type NetlifyFunctionResponse = {
+  statusCode: number;
+  headers?: Record<string, string>;
+  body: string;
+};
+
+export const handler = async (
+  event: NetlifyFunctionEvent,
+): Promise<NetlifyFunctionResponse> => {
+  try {
+    return await invokeVercelStyleHandler(backupCalendarHandler, {
+      method: event.httpMethod ?? "GET",
+      body: undefined,
+      headers: event.headers as Record<string, string> | undefined,
+      query: event.queryStringParameters ?? {},
+    });
+  } catch {
+    return buildJsonResponse(
+      500,
+      buildErrorEnvelope(
+        "INTERNAL_SERVER_ERROR",
+        "An unexpected internal error occurred",
+      ),
+    );
+  }
+};
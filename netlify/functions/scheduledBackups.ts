@@ -1,8 +1,8 @@
 import { schedule } from "@netlify/functions";
 import {
   hasScheduledBackupFailures,
-  runScheduledBackups,
-  type ScheduledBackupsRunResult,
+  runScheduledBackupsForProjects,
+  type ScheduledBackupsJobResult,
 } from "../../services/backupService";
 import { validateBackupsSharedSecret } from "../../utils/requestAuth";
 
@@ -12,9 +12,9 @@ type NetlifyResponse = {
   body?: string;
 };
 
-export const SCHEDULED_BACKUPS_NETLIFY_CRON = "5 2 * * *";
+export const SCHEDULED_BACKUPS_NETLIFY_CRON = "5 * * * *";
 
-const createSuccessResponse = (result: ScheduledBackupsRunResult): NetlifyResponse => ({
+const createSuccessResponse = (result: ScheduledBackupsJobResult): NetlifyResponse => ({
   statusCode: 200,
   headers: {
     "Access-Control-Allow-Origin": "*",
@@ -42,7 +42,7 @@ const createErrorResponse = (error: unknown): NetlifyResponse => ({
 });
 
 const createPartialFailureResponse = (
-  result: ScheduledBackupsRunResult,
+  result: ScheduledBackupsJobResult,
 ): NetlifyResponse => ({
   statusCode: 500,
   headers: {
@@ -81,7 +81,7 @@ const createAuthErrorResponse = (failure: {
 });
 
 export const runScheduledBackupsJob = async (
-  runJob: () => Promise<ScheduledBackupsRunResult> = () => runScheduledBackups(),
+  runJob: () => Promise<ScheduledBackupsJobResult> = () => runScheduledBackupsForProjects(),
 ): Promise<NetlifyResponse> => {
   try {
     const result = await runJob();
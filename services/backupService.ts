@@ -1,7 +1,21 @@
 import { buildClient } from "@datocms/cma-client-node";
+import {
+  cronMatchesDate,
+  getEarliestCronTimeOfDay,
+  getLatestCronTimeOfDay,
+  isValidCronExpression,
+  parseCronExpression,
+  type CronSchedule,
+} from "../utils/cronExpression";
 import { BACKUPS_PLUGIN_NAME } from "../utils/healthContract";
 
 export const API_TOKEN_ENV_VAR = "DATOCMS_FULLACCESS_API_TOKEN";
+export const PROJECT_REGISTRY_ENV_VAR = "DATOCMS_BACKUP_PROJECTS";
+export const MAX_JITTER_ENV_VAR = "DATOCMS_BACKUP_MAX_JITTER_SECONDS";
+export const CONCURRENCY_ENV_VAR = "DATOCMS_BACKUP_CONCURRENCY";
+export const MAX_REQUEST_ATTEMPTS_ENV_VAR = "DATOCMS_BACKUP_MAX_REQUEST_ATTEMPTS";
+export const TIME_BUDGET_ENV_VAR = "DATOCMS_BACKUP_TIME_BUDGET_SECONDS";
+export const TRIGGER_CADENCE_ENV_VAR = "DATOCMS_BACKUP_TRIGGER_CADENCE";
 
 export class MissingApiTokenError extends Error {
   constructor() {
@@ -10,64 +24,262 @@ export class MissingApiTokenError extends Error {
   }
 }
 
-export type BackupCadence = "daily" | "weekly" | "biweekly" | "monthly";
+export class InvalidProjectRegistryError extends Error {
+  constructor(reason: string) {
+    super(`Invalid ${PROJECT_REGISTRY_ENV_VAR}: ${reason}`);
+    this.name = "InvalidProjectRegistryError";
+  }
+}
+
+export class ProjectNotFoundError extends Error {
+  readonly projectId: string;
+
+  constructor(projectId: string) {
+    super(`Project "${projectId}" is not registered in ${PROJECT_REGISTRY_ENV_VAR}.`);
+    this.name = "ProjectNotFoundError";
+    this.projectId = projectId;
+  }
+}
+
+export type BackupCadence =
+  | "hourly"
+  | "every_n_hours"
+  | "daily"
+  | "weekly"
+  | "biweekly"
+  | "monthly"
+  | "quarterly"
+  | "yearly"
+  | "cron";
 
 export type ScopedBackupResult = {
   scope: BackupCadence;
   createdEnvironmentId: string;
+  deletedEnvironmentIds: string[];
+  // First entry of `deletedEnvironmentIds`, kept for clients of the single-deletion
+  // response shape.
   deletedEnvironmentId: string | null;
+  // The environment the backup copies: the primary unless the cadence has a source.
+  sourceEnvironmentId: string;
+  derivedFromEnvironmentId?: string;
+  pendingDeletionEnvironmentIds?: string[];
+  // Same-day generations safe rotation holds under a holding ID until an
+  // unattended fork is ready.
+  heldEnvironmentIds?: string[];
 };
 
+export type BackupClient = ReturnType<typeof buildClient>;
+
+export type BackupRotationMode = "standard" | "safe";
+
+export type BackupRetentionPolicy = "per_cadence" | "gfs";
+
 type BackupExecutionOptions = {
   apiToken?: string;
+  // Selects the project's token from the registry; ignored without a registry.
+  projectId?: string;
+  // Raw registry JSON; defaults to DATOCMS_BACKUP_PROJECTS.
+  projectRegistry?: string;
+  retry?: RetryPolicy;
   now?: Date;
+  client?: BackupClient;
+};
+
+export type BackupProject = {
+  id: string;
+  apiToken: string;
+};
+
+/**
+ * How CMA calls are retried after a 429, a 5xx or a timeout: exponential backoff
+ * with full jitter, or the server's `Retry-After` when it sends one, never
+ * waiting longer than `maxDelayMs`. `sleep` and `random` are injectable for tests.
+ */
+export type RetryPolicy = {
+  // Includes the first call; 1 disables retries.
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  sleep?: (ms: number) => Promise<void>;
+  random?: () => number;
+};
+
+/**
+ * Spreads scheduled work so that cadences and projects due in the same trigger
+ * do not all hit the CMA at once. `sleep` and `random` are injectable for tests.
+ */
+export type StaggerOptions = {
+  // Upper bound of the random delay before each cadence and project starts.
+  maxJitterMs?: number;
+  // Projects backed up at the same time; the cadences of a project stay sequential.
+  concurrency?: number;
+  sleep?: (ms: number) => Promise<void>;
+  random?: () => number;
+};
+
+/**
+ * Bounds how long a scheduled invocation keeps starting backups, so the platform's
+ * time limit does not cut a fork short. Slots that no longer fit are deferred to
+ * the next trigger. `clock` is injectable for tests.
+ */
+export type TimeBudget = {
+  maxDurationMs?: number;
+  clock?: () => number;
 };
 
 export type SchedulerProvider = "vercel" | "netlify" | "cloudflare" | "unknown";
 
-export type ScheduledSkipReason = "NOT_DUE";
+// How often the platform invokes the scheduled job.
+export type SchedulerTriggerCadence = "hourly" | "daily";
+
+// Lease stored in the plugin's `automaticBackupsLock` parameter while a run rotates.
+export type BackupRunLock = {
+  owner: string;
+  provider: SchedulerProvider;
+  acquiredAt: string;
+  expiresAt: string;
+};
+
+export type ScheduledSkipReason =
+  | "NOT_DUE"
+  | "BLACKOUT"
+  | "RETRY_LIMIT_REACHED"
+  | "ALREADY_RUNNING";
+
+/**
+ * Replaces the anchor-relative day of a cadence. `weekdays` (0 = Sunday) applies
+ * to weekly and biweekly cadences; `nth_weekday` (`nth: -1` for the last one) and
+ * `last_day_of_month` apply to monthly, quarterly and yearly cadences.
+ */
+export type CadenceDayRule =
+  | { kind: "weekdays"; weekdays: number[] }
+  | { kind: "nth_weekday"; nth: 1 | 2 | 3 | 4 | -1; weekday: number }
+  | { kind: "last_day_of_month" };
+
+/**
+ * A user-defined backup slot. It follows the schedule rule of `cadence` (with its
+ * own day rule, or cron expression for `cron`), keeps its own environments under
+ * `prefix` and is tracked in the schedule state under its `name`.
+ */
+export type CustomBackupSlot = {
+  name: string;
+  cadence: BackupCadence;
+  dayRule?: CadenceDayRule;
+  cronExpression?: string;
+  sourceEnvironmentId?: string;
+  prefix: string;
+  retention: number;
+  // Days after a missed date the slot still catches up, as in
+  // `catchUpWindowDaysByCadence`. None by default.
+  catchUpWindowDays?: number;
+};
+
+export type BlackoutWindow = {
+  startLocalDate: string;
+  endLocalDate: string;
+};
+
+export type BackupGeneration = {
+  environmentId: string;
+  createdAt: string;
+};
 
 export type BackupStatusSlot = {
   scope: BackupCadence;
+  // Only set for custom slots.
+  name?: string;
   executionMode: "lambda_cron";
+  sourceEnvironmentId: string | null;
   lastBackupAt: string | null;
   nextBackupAt: string | null;
+  retention: number;
+  generations: BackupGeneration[];
+};
+
+export type EnvironmentQuota = {
+  limit: number | null;
+  usage: number;
+  headroom: number | null;
 };
 
 export type BackupStatusResult = {
   scheduler: {
     provider: SchedulerProvider;
-    cadence: "daily";
+    cadence: SchedulerTriggerCadence;
+    // Enabled slots (cadence, or name for custom slots) a daily trigger cannot run
+    // as configured: sub-daily and cron slots run at most once a day, at the
+    // trigger time.
+    unservedSlots: string[];
   };
+  retentionPolicy: BackupRetentionPolicy;
+  environmentQuota: EnvironmentQuota;
+  pinnedBackups: BackupGeneration[];
   slots: {
+    hourly: BackupStatusSlot;
+    every_n_hours: BackupStatusSlot;
     daily: BackupStatusSlot;
     weekly: BackupStatusSlot;
     biweekly: BackupStatusSlot;
     monthly: BackupStatusSlot;
+    quarterly: BackupStatusSlot;
+    yearly: BackupStatusSlot;
+    cron: BackupStatusSlot;
   };
+  customSlots: BackupStatusSlot[];
   checkedAt: string;
 };
 
+export type BackupFailureCode =
+  | "BACKUP_FAILED"
+  | "ENVIRONMENT_QUOTA_EXCEEDED"
+  | "SOURCE_ENVIRONMENT_NOT_FOUND";
+
+// `slot` names the custom slot a result belongs to; built-in slots omit it.
 export type ScheduledCadenceExecutionResult =
   | {
       scope: BackupCadence;
+      slot?: string;
       status: "executed";
+      trigger?: "catch_up";
+      startedAt: string;
       result: ScopedBackupResult;
+      // Set when the backup was taken but the GFS pass after it failed.
+      retentionError?: string;
     }
   | {
       scope: BackupCadence;
+      slot?: string;
       status: "failed";
+      trigger?: "catch_up";
+      startedAt: string;
+      code: BackupFailureCode;
       error: string;
+      // Calls made by the CMA request that failed, when one did.
+      requestAttempts?: number;
+    }
+  | {
+      scope: BackupCadence;
+      slot?: string;
+      status: "skipped";
+      reason: ScheduledSkipReason;
+    }
+  | {
+      // Left for the next trigger once the run's time budget ran out.
+      scope: BackupCadence;
+      slot?: string;
+      status: "deferred";
+      trigger?: "catch_up";
     };
 
 export type ScheduledBackupsRunResult = {
   scheduler: {
     provider: SchedulerProvider;
-    cadence: "daily";
+    cadence: SchedulerTriggerCadence;
   };
   schedule: {
     timezone: string;
     enabledCadences: BackupCadence[];
+    customSlots: string[];
     anchorLocalDate: string;
   };
   checkedAt: string;
@@ -76,23 +288,105 @@ export type ScheduledBackupsRunResult = {
   results: ScheduledCadenceExecutionResult[];
 };
 
+export type ProjectScheduledBackupsResult =
+  | {
+      projectId: string;
+      status: "completed";
+      startedAt: string;
+      result: ScheduledBackupsRunResult;
+    }
+  | {
+      projectId: string;
+      status: "failed";
+      startedAt: string;
+      error: string;
+    };
+
+export type ProjectsScheduledBackupsRunResult = {
+  checkedAt: string;
+  projects: ProjectScheduledBackupsResult[];
+};
+
+// Single-token deployments keep the per-project result shape.
+export type ScheduledBackupsJobResult =
+  | ScheduledBackupsRunResult
+  | ProjectsScheduledBackupsRunResult;
+
 export type ManualBackupNowResult =
   | {
       scope: BackupCadence;
+      slot?: string;
       status: "executed";
       executionMode: "lambda_cron";
       createdEnvironmentId: string;
+      deletedEnvironmentIds: string[];
       deletedEnvironmentId: string | null;
+      sourceEnvironmentId: string;
       completedAt: string;
       checkedAt: string;
     }
   | {
       scope: BackupCadence;
+      slot?: string;
+      status: "failed";
+      code: BackupFailureCode;
+      error: string;
+      checkedAt: string;
+    };
+
+export type BackupJobStatus = "running" | "completed" | "failed";
+
+/**
+ * A manual backup whose fork was started without waiting for it. The job lives in
+ * the schedule state and is finished by the first status poll that sees the
+ * environment ready or gone.
+ */
+export type BackupJob = {
+  id: string;
+  scope: BackupCadence;
+  slot?: string;
+  environmentId: string;
+  sourceEnvironmentId: string;
+  startedAt: string;
+  status: BackupJobStatus;
+  completedAt?: string;
+  error?: string;
+  // Set when the backup completed but the GFS pass after it failed.
+  retentionError?: string;
+  // Generations pruned once the fork is ready.
+  pendingDeletionEnvironmentIds: string[];
+  // Generations safe rotation holds until the fork is ready, then deletes, or gives
+  // their ID back if the fork fails.
+  heldEnvironmentIds?: string[];
+  deletedEnvironmentIds: string[];
+  // The run lock is held until the job finishes.
+  lockOwner?: string;
+};
+
+export type ManualBackupJobStartResult =
+  | {
+      scope: BackupCadence;
+      slot?: string;
+      status: "started";
+      job: BackupJob;
+      checkedAt: string;
+    }
+  | {
+      scope: BackupCadence;
+      slot?: string;
       status: "failed";
+      code: BackupFailureCode;
       error: string;
       checkedAt: string;
     };
 
+export type BackupJobStatusResult = {
+  job: BackupJob;
+  // Fork completion percentage while the job runs, when the CMA reports it.
+  progress: number | null;
+  checkedAt: string;
+};
+
 export class CadenceNotEnabledError extends Error {
   readonly cadence: BackupCadence;
 
@@ -105,16 +399,130 @@ export class CadenceNotEnabledError extends Error {
   }
 }
 
+export class BackupSlotNotFoundError extends Error {
+  readonly slotName: string;
+
+  constructor(slotName: string) {
+    super(`Backup slot "${slotName}" is not defined in the current plugin schedule.`);
+    this.name = "BackupSlotNotFoundError";
+    this.slotName = slotName;
+  }
+}
+
+export class EnvironmentQuotaExceededError extends Error {
+  readonly quota: EnvironmentQuota;
+
+  constructor(quota: EnvironmentQuota) {
+    super(
+      `Not enough sandbox environment quota to fork a new backup (${quota.usage}/${quota.limit} in use).`,
+    );
+    this.name = "EnvironmentQuotaExceededError";
+    this.quota = quota;
+  }
+}
+
+export class BackupEnvironmentNotFoundError extends Error {
+  readonly environmentId: string;
+
+  constructor(environmentId: string) {
+    super(`Backup environment "${environmentId}" does not exist.`);
+    this.name = "BackupEnvironmentNotFoundError";
+    this.environmentId = environmentId;
+  }
+}
+
+export class SourceEnvironmentNotFoundError extends Error {
+  readonly environmentId: string;
+
+  constructor(environmentId: string) {
+    super(`Source environment "${environmentId}" does not exist.`);
+    this.name = "SourceEnvironmentNotFoundError";
+    this.environmentId = environmentId;
+  }
+}
+
+export class BackupAlreadyRunningError extends Error {
+  readonly lock: BackupRunLock;
+
+  constructor(lock: BackupRunLock) {
+    super(
+      `Another backup run (${lock.provider}) holds the run lock until ${lock.expiresAt}.`,
+    );
+    this.name = "BackupAlreadyRunningError";
+    this.lock = lock;
+  }
+}
+
+export class PluginParametersConflictError extends Error {
+  constructor(attempts: number) {
+    super(
+      `Plugin parameters kept changing while saving backup state (${attempts} attempts).`,
+    );
+    this.name = "PluginParametersConflictError";
+  }
+}
+
+export class BackupJobNotFoundError extends Error {
+  readonly jobId: string;
+
+  constructor(jobId: string) {
+    super(`Backup job "${jobId}" does not exist.`);
+    this.name = "BackupJobNotFoundError";
+    this.jobId = jobId;
+  }
+}
+
+export class PluginNotInstalledError extends Error {
+  constructor() {
+    super("The automatic backups plugin is not installed on this project.");
+    this.name = "PluginNotInstalledError";
+  }
+}
+
 const BACKUP_CADENCES: BackupCadence[] = [
+  "hourly",
+  "every_n_hours",
   "daily",
   "weekly",
   "biweekly",
   "monthly",
+  "quarterly",
+  "yearly",
+  "cron",
 ];
 const DEFAULT_ENABLED_CADENCES: BackupCadence[] = ["daily", "weekly"];
 const DEFAULT_TIMEZONE = "UTC";
+const DEFAULT_RETENTION = 1;
+const MAX_RETENTION = 100;
+const DEFAULT_ROTATION_MODE: BackupRotationMode = "standard";
+const DEFAULT_RETENTION_POLICY: BackupRetentionPolicy = "per_cadence";
+const SANDBOX_ENVIRONMENTS_LIMIT_CODE = "sandbox_environments";
+// Safe rotation holds a generation under `${HOLDING_ENVIRONMENT_PREFIX}-<id>`, outside
+// every slot's `${prefix}-` namespace, so a leftover holding environment is never
+// counted or pruned as a generation.
+const HOLDING_ENVIRONMENT_PREFIX = "rotating";
+// Earlier releases appended the marker instead; such leftovers are still skipped.
+const LEGACY_HOLDING_ENVIRONMENT_SUFFIX = "-rotating";
 const BACKUP_SCHEDULE_VERSION = 1 as const;
 const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const HOUR_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}$/;
+const SUB_DAILY_CADENCES: BackupCadence[] = ["hourly", "every_n_hours"];
+// Cadences that can fork more than once per day and carry the hour in their IDs.
+const HOUR_SUFFIXED_CADENCES: BackupCadence[] = [...SUB_DAILY_CADENCES, "cron"];
+const CRON_LOOKUP_DAYS = 366 * 5;
+const DAY_RULE_LOOKUP_DAYS = 366 * 2;
+const DEFAULT_EVERY_N_HOURS = 6;
+const LOCAL_TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const DEFAULT_RUN_AT_LOCAL_TIME = "00:00";
+const MAX_CATCH_UP_WINDOW_DAYS = 366;
+const DEFAULT_MAX_ATTEMPTS = 3;
+const MAX_ATTEMPTS = 24;
+const MAX_CUSTOM_SLOTS = 20;
+const MAX_BACKUP_JOBS = 20;
+// How often a scheduled trigger checks a manual backup still forking.
+const BACKUP_JOB_POLL_INTERVAL_MS = 15 * 1000;
+// Custom slot names and environment prefixes: lowercase, digits and inner dashes.
+const SLOT_NAME_PATTERN = /^[a-z0-9](?:[a-z0-9-]*[a-z0-9])?$/;
 
 type LocalDateParts = {
   year: number;
@@ -122,6 +530,11 @@ type LocalDateParts = {
   day: number;
 };
 
+type LocalDateTimeParts = LocalDateParts & {
+  hour: number;
+  minute: number;
+};
+
 type AutomaticBackupsPlugin = {
   id: string;
   name: string;
@@ -134,15 +547,50 @@ type BackupScheduleConfig = {
   enabledCadences: BackupCadence[];
   timezone: string;
   anchorLocalDate: string;
+  retentionByCadence: Partial<Record<BackupCadence, number>>;
+  rotationMode: BackupRotationMode;
+  retentionPolicy: BackupRetentionPolicy;
+  everyNHours: number;
+  runAtLocalTime: string;
+  cronExpression?: string;
+  blackoutWindows: BlackoutWindow[];
+  blackoutWeekdays: number[];
+  catchUpWindowDaysByCadence: Partial<Record<BackupCadence, number>>;
+  maxAttempts: number;
+  dayRuleByCadence: Partial<Record<BackupCadence, CadenceDayRule>>;
+  // Cadences without an entry back up the primary environment.
+  sourceEnvironmentIdByCadence: Partial<Record<BackupCadence, string>>;
+  customSlots: CustomBackupSlot[];
   updatedAt: string;
 };
 
+/**
+ * Failed attempts of a cadence within one period: the local date for date-based
+ * cadences, the local hour for sub-daily ones and the occurrence for cron.
+ */
+type CadenceAttempts = {
+  periodKey: string;
+  count: number;
+};
+
+/**
+ * Per-slot state, keyed by the cadence for built-in slots and by the name for
+ * custom ones. The `...ByCadence` field names predate custom slots.
+ */
+type SlotStateMap<Value> = Partial<Record<string, Value>>;
+
 type AutomaticBackupsScheduleState = {
-  lastRunLocalDateByCadence?: Partial<Record<BackupCadence, string>>;
-  lastRunAtByCadence?: Partial<Record<BackupCadence, string>>;
-  lastManagedEnvironmentIdByCadence?: Partial<Record<BackupCadence, string>>;
-  lastExecutionModeByCadence?: Partial<Record<BackupCadence, "lambda_cron">>;
-  lastErrorByCadence?: Partial<Record<BackupCadence, string>>;
+  lastRunLocalDateByCadence?: SlotStateMap<string>;
+  lastRunLocalHourByCadence?: SlotStateMap<string>;
+  lastRunLocalOccurrenceByCadence?: SlotStateMap<string>;
+  lastRunAtByCadence?: SlotStateMap<string>;
+  lastManagedEnvironmentIdByCadence?: SlotStateMap<string>;
+  lastExecutionModeByCadence?: SlotStateMap<"lambda_cron">;
+  lastErrorByCadence?: SlotStateMap<string>;
+  failedAttemptsByCadence?: SlotStateMap<CadenceAttempts>;
+  // Slots a scheduled run found due but has not finished, with the period they
+  // were due for. They stay due until they run, even once that period is over.
+  pendingPeriodByCadence?: SlotStateMap<string>;
   dailyLastRunDate?: string;
   weeklyLastRunKey?: string;
   lastDailyRunAt?: string;
@@ -153,13 +601,15 @@ type AutomaticBackupsScheduleState = {
   lastWeeklyExecutionMode?: "lambda_cron";
   lastDailyError?: string;
   lastWeeklyError?: string;
+  pinnedEnvironmentIds?: string[];
+  // Newest first.
+  backupJobs?: BackupJob[];
 };
 
 type BackupContext = {
   apiToken: string;
-  client: ReturnType<typeof buildClient>;
+  client: BackupClient;
   pluginId: string | null;
-  pluginParameters: Record<string, unknown>;
   scheduleConfig: BackupScheduleConfig;
   scheduleState: AutomaticBackupsScheduleState;
 };
@@ -183,6 +633,307 @@ export const resolveApiToken = (apiToken?: string): string => {
   return token;
 };
 
+const PROJECT_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Reads the project registry, a JSON object mapping project IDs to their
+ * full-access API tokens. Returns null when no registry is configured.
+ */
+export const resolveProjectRegistry = (
+  rawRegistry?: string,
+): BackupProject[] | null => {
+  const registry = rawRegistry ?? getProcessEnv()?.[PROJECT_REGISTRY_ENV_VAR];
+  if (!registry || !registry.trim()) {
+    return null;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(registry);
+  } catch {
+    throw new InvalidProjectRegistryError("value is not valid JSON");
+  }
+
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new InvalidProjectRegistryError(
+      "value must be an object mapping project IDs to API tokens",
+    );
+  }
+
+  return Object.entries(parsed).map(([id, apiToken]) => {
+    if (!PROJECT_ID_PATTERN.test(id)) {
+      throw new InvalidProjectRegistryError(
+        `project ID "${id}" may only contain letters, digits, "-" and "_"`,
+      );
+    }
+
+    if (typeof apiToken !== "string" || !apiToken.trim()) {
+      throw new InvalidProjectRegistryError(
+        `project "${id}" must map to a non-empty API token`,
+      );
+    }
+
+    return { id, apiToken: apiToken.trim() };
+  });
+};
+
+const resolveProjectApiToken = (
+  options: BackupExecutionOptions,
+): { apiToken: string; fromRegistry: boolean } => {
+  const registry = options.projectId
+    ? resolveProjectRegistry(options.projectRegistry)
+    : null;
+  if (!registry) {
+    return { apiToken: resolveApiToken(options.apiToken), fromRegistry: false };
+  }
+
+  const project = registry.find((candidate) => candidate.id === options.projectId);
+  if (!project) {
+    throw new ProjectNotFoundError(options.projectId as string);
+  }
+
+  return { apiToken: project.apiToken, fromRegistry: true };
+};
+
+const MAX_JITTER_MS = 60 * 1000;
+const MAX_PROJECT_CONCURRENCY = 10;
+
+type ResolvedStagger = Required<StaggerOptions>;
+
+const clampInteger = (value: number | undefined, min: number, max: number) =>
+  typeof value === "number" && Number.isFinite(value)
+    ? Math.min(Math.max(Math.floor(value), min), max)
+    : undefined;
+
+/**
+ * Converts the raw `DATOCMS_BACKUP_MAX_JITTER_SECONDS` and
+ * `DATOCMS_BACKUP_CONCURRENCY` values, ignoring anything that is not a number.
+ */
+export const toStaggerOptions = ({
+  maxJitterSeconds,
+  concurrency,
+}: {
+  maxJitterSeconds?: string;
+  concurrency?: string;
+}): StaggerOptions => {
+  const jitterSeconds = maxJitterSeconds?.trim() ? Number(maxJitterSeconds) : NaN;
+  const projectConcurrency = concurrency?.trim() ? Number(concurrency) : NaN;
+
+  return {
+    ...(Number.isFinite(jitterSeconds) ? { maxJitterMs: jitterSeconds * 1000 } : {}),
+    ...(Number.isFinite(projectConcurrency) ? { concurrency: projectConcurrency } : {}),
+  };
+};
+
+const defaultSleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+const resolveStagger = (options: StaggerOptions = {}): ResolvedStagger => {
+  const processEnv = getProcessEnv();
+  const fromEnv = toStaggerOptions({
+    maxJitterSeconds: processEnv?.[MAX_JITTER_ENV_VAR],
+    concurrency: processEnv?.[CONCURRENCY_ENV_VAR],
+  });
+
+  return {
+    maxJitterMs:
+      clampInteger(options.maxJitterMs ?? fromEnv.maxJitterMs, 0, MAX_JITTER_MS) ?? 0,
+    concurrency:
+      clampInteger(
+        options.concurrency ?? fromEnv.concurrency,
+        1,
+        MAX_PROJECT_CONCURRENCY,
+      ) ?? 1,
+    sleep: options.sleep ?? defaultSleep,
+    random: options.random ?? Math.random,
+  };
+};
+
+const waitForJitter = async (stagger: ResolvedStagger | undefined) => {
+  if (!stagger || stagger.maxJitterMs <= 0) {
+    return;
+  }
+
+  await stagger.sleep(Math.floor(stagger.random() * stagger.maxJitterMs));
+};
+
+type ResolvedTimeBudget = {
+  // `null` when the run is not bounded.
+  deadline: number | null;
+  clock: () => number;
+};
+
+const resolveTimeBudget = (budget: TimeBudget = {}): ResolvedTimeBudget => {
+  const clock = budget.clock ?? Date.now;
+  // An unset, zero or malformed variable leaves the run unbounded.
+  const envSeconds = Number(getProcessEnv()?.[TIME_BUDGET_ENV_VAR]);
+  const maxDurationMs =
+    budget.maxDurationMs ?? (envSeconds > 0 ? envSeconds * 1000 : undefined);
+
+  return {
+    deadline:
+      typeof maxDurationMs === "number" && Number.isFinite(maxDurationMs)
+        ? clock() + Math.max(maxDurationMs, 0)
+        : null,
+    clock,
+  };
+};
+
+const DEFAULT_MAX_REQUEST_ATTEMPTS = 4;
+const MAX_REQUEST_ATTEMPTS = 10;
+const DEFAULT_RETRY_BASE_DELAY_MS = 500;
+const DEFAULT_RETRY_MAX_DELAY_MS = 30 * 1000;
+// Only the resources the service calls are wrapped.
+const RETRIED_CLIENT_RESOURCES = ["plugins", "site", "subscriptionLimits", "environments"];
+// Calls that can be repeated after a timeout or a 5xx, where the server may have
+// acted on the first one. Anything else (a fork, a rename, a plugin update) is
+// only retried on a 429, which means the request was never processed.
+const IDEMPOTENT_CLIENT_METHODS = ["list", "find", "destroy"];
+
+type ResolvedRetryPolicy = Required<RetryPolicy>;
+
+const requestAttemptsByError = new WeakMap<object, number>();
+
+const resolveRetryPolicy = (policy: RetryPolicy = {}): ResolvedRetryPolicy => {
+  const envAttempts = getProcessEnv()?.[MAX_REQUEST_ATTEMPTS_ENV_VAR];
+
+  return {
+    maxAttempts:
+      clampInteger(
+        policy.maxAttempts ?? (envAttempts?.trim() ? Number(envAttempts) : undefined),
+        1,
+        MAX_REQUEST_ATTEMPTS,
+      ) ?? DEFAULT_MAX_REQUEST_ATTEMPTS,
+    baseDelayMs: Math.max(policy.baseDelayMs ?? DEFAULT_RETRY_BASE_DELAY_MS, 0),
+    maxDelayMs: Math.max(policy.maxDelayMs ?? DEFAULT_RETRY_MAX_DELAY_MS, 0),
+    sleep: policy.sleep ?? defaultSleep,
+    random: policy.random ?? Math.random,
+  };
+};
+
+const getErrorResponse = (
+  error: unknown,
+): { status: number; headers: Record<string, unknown> } | null => {
+  if (!isObject(error) || !isObject(error.response)) {
+    return null;
+  }
+
+  const { status, headers } = error.response;
+  return typeof status === "number"
+    ? { status, headers: isObject(headers) ? headers : {} }
+    : null;
+};
+
+const isRetryableRequestError = (error: unknown, idempotent: boolean): boolean => {
+  if (error instanceof Error && error.name === "TimeoutError") {
+    return idempotent;
+  }
+
+  const response = getErrorResponse(error);
+  if (!response) {
+    return false;
+  }
+
+  return response.status === 429 || (idempotent && response.status >= 500);
+};
+
+// `Retry-After` is either a number of seconds or an HTTP date.
+const getRetryAfterMs = (error: unknown): number | null => {
+  const headers = getErrorResponse(error)?.headers ?? {};
+  const headerName = Object.keys(headers).find(
+    (name) => name.toLowerCase() === "retry-after",
+  );
+  const value = headerName ? toOptionalString(headers[headerName]) : undefined;
+  if (!value) {
+    return null;
+  }
+
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    return Number(value) * 1000;
+  }
+
+  const retryAt = Date.parse(value);
+  return Number.isNaN(retryAt) ? null : Math.max(retryAt - Date.now(), 0);
+};
+
+const callWithRetry = async <Result>(
+  policy: ResolvedRetryPolicy,
+  call: (attempt: number) => Promise<Result>,
+  idempotent: boolean,
+): Promise<Result> => {
+  for (let attempt = 1; ; attempt += 1) {
+    try {
+      return await call(attempt);
+    } catch (error) {
+      if (attempt >= policy.maxAttempts || !isRetryableRequestError(error, idempotent)) {
+        if (isObject(error)) {
+          requestAttemptsByError.set(error, attempt);
+        }
+        throw error;
+      }
+
+      const backoffMs = policy.random() * policy.baseDelayMs * 2 ** (attempt - 1);
+      await policy.sleep(
+        Math.floor(Math.min(getRetryAfterMs(error) ?? backoffMs, policy.maxDelayMs)),
+      );
+    }
+  }
+};
+
+/**
+ * Wraps the CMA client so every call on the resources the service uses goes
+ * through the retry policy. The client's own auto-retry is turned off when the
+ * service builds it, so the reported attempt counts are the real ones. A retried
+ * `destroy` that finds the environment gone means an earlier attempt deleted it.
+ */
+const withRequestRetries = (
+  client: BackupClient,
+  policy: ResolvedRetryPolicy,
+): BackupClient => {
+  const wrapResource = (resource: object) =>
+    new Proxy(resource, {
+      get(target, property, receiver) {
+        const value: unknown = Reflect.get(target, property, receiver);
+        if (typeof value !== "function") {
+          return value;
+        }
+
+        const idempotent =
+          typeof property === "string" && IDEMPOTENT_CLIENT_METHODS.includes(property);
+        return (...args: unknown[]) =>
+          callWithRetry(
+            policy,
+            async (attempt) => {
+              try {
+                return await Promise.resolve(value.apply(target, args));
+              } catch (error) {
+                if (
+                  property === "destroy" &&
+                  attempt > 1 &&
+                  getErrorResponse(error)?.status === 404
+                ) {
+                  return undefined;
+                }
+                throw error;
+              }
+            },
+            idempotent,
+          );
+      },
+    });
+
+  return new Proxy(client, {
+    get(target, property, receiver) {
+      const value: unknown = Reflect.get(target, property, receiver);
+      return typeof property === "string" &&
+        RETRIED_CLIENT_RESOURCES.includes(property) &&
+        isObject(value)
+        ? wrapResource(value)
+        : value;
+    },
+  });
+};
+
 export const assignApiTokenToProcessEnv = (apiToken: string) => {
   const processEnv = getProcessEnv();
   if (!processEnv) {
@@ -202,6 +953,9 @@ const isBackupCadence = (value: unknown): value is BackupCadence => {
   return BACKUP_CADENCES.includes(value as BackupCadence);
 };
 
+const isSlotKey = (value: string): boolean =>
+  isBackupCadence(value) || SLOT_NAME_PATTERN.test(value);
+
 const isAutomaticBackupsPluginName = (value: unknown): boolean => {
   if (typeof value !== "string") {
     return false;
@@ -215,9 +969,8 @@ const isAutomaticBackupsPluginName = (value: unknown): boolean => {
 };
 
 const findAutomaticBackupsPlugin = async (
-  apiToken: string,
+  client: BackupClient,
 ): Promise<AutomaticBackupsPlugin | null> => {
-  const client = buildClient({ apiToken });
   const plugins = (await client.plugins.list()) as AutomaticBackupsPlugin[];
   const byPackageName = plugins.find(
     (plugin) => plugin.package_name === BACKUPS_PLUGIN_NAME,
@@ -317,6 +1070,113 @@ const toLocalDateKey = (date: Date, timezone: string): string => {
   return toLocalDateKeyFromParts(toLocalDateParts(date, timezone));
 };
 
+const toLocalDateTimeParts = (date: Date, timezone: string): LocalDateTimeParts => {
+  const safeTimezone = ensureTimezone(timezone, DEFAULT_TIMEZONE);
+  const formatter = new Intl.DateTimeFormat("en-US", {
+    timeZone: safeTimezone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+  const parts = formatter.formatToParts(date);
+  const read = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  return {
+    ...toLocalDateParts(date, safeTimezone),
+    hour: read("hour") % 24,
+    minute: read("minute"),
+  };
+};
+
+const toLocalHourKey = (date: Date, timezone: string): string => {
+  const parts = toLocalDateTimeParts(date, timezone);
+  return `${toLocalDateKeyFromParts(parts)}T${pad2(parts.hour)}`;
+};
+
+const parseLocalHourKey = (
+  value: string,
+): { dateKey: string; hour: number } | null => {
+  if (!HOUR_KEY_PATTERN.test(value) || !parseLocalDateKey(value.slice(0, 10))) {
+    return null;
+  }
+
+  const hour = Number(value.slice(11, 13));
+  return hour < 24 ? { dateKey: value.slice(0, 10), hour } : null;
+};
+
+const getTimezoneOffsetMs = (date: Date, timezone: string): number => {
+  const parts = toLocalDateTimeParts(date, timezone);
+  const wallClockAsUtc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+  );
+  return wallClockAsUtc - Math.floor(date.getTime() / 60000) * 60000;
+};
+
+/**
+ * Converts a wall-clock time in `timezone` to the matching instant. Times that fall
+ * into a DST gap resolve to the instant right after the gap.
+ */
+const toUtcDateFromLocalDateTime = ({
+  localDate,
+  hour,
+  minute,
+  timezone,
+}: {
+  localDate: string;
+  hour: number;
+  minute: number;
+  timezone: string;
+}): Date | undefined => {
+  const parts = parseLocalDateKey(localDate);
+  if (!parts) {
+    return undefined;
+  }
+
+  const wallClockAsUtc = Date.UTC(parts.year, parts.month - 1, parts.day, hour, minute);
+  const firstGuess = wallClockAsUtc - getTimezoneOffsetMs(new Date(wallClockAsUtc), timezone);
+  const corrected = new Date(
+    wallClockAsUtc - getTimezoneOffsetMs(new Date(firstGuess), timezone),
+  );
+  const correctedParts = toLocalDateTimeParts(corrected, timezone);
+  return correctedParts.hour === hour && correctedParts.minute === minute
+    ? corrected
+    : new Date(firstGuess);
+};
+
+const parseLocalTime = (value: string): { hour: number; minute: number } => {
+  const match = LOCAL_TIME_PATTERN.exec(value);
+  return match
+    ? { hour: Number(match[1]), minute: Number(match[2]) }
+    : { hour: 0, minute: 0 };
+};
+
+/**
+ * Returns the local date whose `runAtLocalTime` occurrence is the latest one at
+ * or before `now`. Date-based cadences treat that date as "today", so a run at
+ * 00:05 still picks up yesterday's 23:30 slot that the hourly trigger could not hit.
+ */
+const toScheduleLocalDateKey = (
+  now: Date,
+  config: Pick<BackupScheduleConfig, "timezone" | "runAtLocalTime">,
+): string => {
+  const parts = toLocalDateTimeParts(now, config.timezone);
+  const runAt = parseLocalTime(config.runAtLocalTime);
+  const localDate = toLocalDateKeyFromParts(parts);
+  const beforeRunAt =
+    parts.hour < runAt.hour || (parts.hour === runAt.hour && parts.minute < runAt.minute);
+  return beforeRunAt ? addDaysToDateKey(localDate, -1) : localDate;
+};
+
+export const toScheduleLocalDate = toScheduleLocalDateKey;
+
 const compareDateKeys = (left: string, right: string): number => {
   if (left < right) {
     return -1;
@@ -327,6 +1187,9 @@ const compareDateKeys = (left: string, right: string): number => {
   return 0;
 };
 
+const getWeekday = (parts: LocalDateParts): number =>
+  new Date(Date.UTC(parts.year, parts.month - 1, parts.day)).getUTCDay();
+
 const getDayDiff = (startDateKey: string, endDateKey: string): number => {
   const startParts = parseLocalDateKey(startDateKey);
   const endParts = parseLocalDateKey(endDateKey);
@@ -370,6 +1233,27 @@ const addMonthsToDateKey = (dateKey: string, monthDelta: number): string => {
   return toLocalDateKeyFromParts({ year, month, day });
 };
 
+const getMonthDiff = (startDateKey: string, endDateKey: string): number => {
+  const startParts = parseLocalDateKey(startDateKey);
+  const endParts = parseLocalDateKey(endDateKey);
+  if (!startParts || !endParts) {
+    return 0;
+  }
+
+  return (endParts.year - startParts.year) * 12 + endParts.month - startParts.month;
+};
+
+const getMonthInterval = (cadence: BackupCadence): number => {
+  switch (cadence) {
+    case "quarterly":
+      return 3;
+    case "yearly":
+      return 12;
+    default:
+      return 1;
+  }
+};
+
 const normalizeCadences = (value: unknown): BackupCadence[] => {
   if (!Array.isArray(value)) {
     return [...DEFAULT_ENABLED_CADENCES];
@@ -389,6 +1273,260 @@ const normalizeCadences = (value: unknown): BackupCadence[] => {
   return BACKUP_CADENCES.filter((cadence) => selected.has(cadence));
 };
 
+const normalizeRetention = (value: unknown): number | undefined => {
+  if (typeof value !== "number" || !Number.isInteger(value)) {
+    return undefined;
+  }
+
+  if (value < 1 || value > MAX_RETENTION) {
+    return undefined;
+  }
+
+  return value;
+};
+
+const normalizeRetentionByCadence = (
+  value: unknown,
+): Partial<Record<BackupCadence, number>> => {
+  if (!isObject(value)) {
+    return {};
+  }
+
+  const mapped: Partial<Record<BackupCadence, number>> = {};
+  for (const [key, rawValue] of Object.entries(value)) {
+    const retention = normalizeRetention(rawValue);
+    if (isBackupCadence(key) && retention) {
+      mapped[key] = retention;
+    }
+  }
+
+  return mapped;
+};
+
+const normalizeCatchUpWindowDays = (value: unknown): number | undefined =>
+  typeof value === "number" &&
+  Number.isInteger(value) &&
+  value >= 1 &&
+  value <= MAX_CATCH_UP_WINDOW_DAYS
+    ? value
+    : undefined;
+
+const normalizeCatchUpWindowDaysByCadence = (
+  value: unknown,
+): Partial<Record<BackupCadence, number>> => {
+  if (!isObject(value)) {
+    return {};
+  }
+
+  const mapped: Partial<Record<BackupCadence, number>> = {};
+  for (const [key, rawValue] of Object.entries(value)) {
+    const windowDays = normalizeCatchUpWindowDays(rawValue);
+    if (isBackupCadence(key) && windowDays) {
+      mapped[key] = windowDays;
+    }
+  }
+
+  return mapped;
+};
+
+const normalizeMaxAttempts = (value: unknown): number =>
+  typeof value === "number" && Number.isInteger(value) && value >= 1 && value <= MAX_ATTEMPTS
+    ? value
+    : DEFAULT_MAX_ATTEMPTS;
+
+const WEEKDAY_RULE_CADENCES: BackupCadence[] = ["weekly", "biweekly"];
+const MONTH_DAY_RULE_CADENCES: BackupCadence[] = ["monthly", "quarterly", "yearly"];
+const NTH_WEEKDAY_VALUES = [1, 2, 3, 4, -1];
+
+const isWeekday = (value: unknown): value is number =>
+  Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 6;
+
+const normalizeDayRule = (
+  cadence: BackupCadence,
+  value: unknown,
+): CadenceDayRule | undefined => {
+  if (!isObject(value)) {
+    return undefined;
+  }
+
+  if (value.kind === "weekdays" && WEEKDAY_RULE_CADENCES.includes(cadence)) {
+    const weekdays = Array.isArray(value.weekdays) ? value.weekdays.filter(isWeekday) : [];
+    const uniqueWeekdays = [...new Set(weekdays)].sort((left, right) => left - right);
+    return uniqueWeekdays.length > 0
+      ? { kind: "weekdays", weekdays: uniqueWeekdays }
+      : undefined;
+  }
+
+  if (!MONTH_DAY_RULE_CADENCES.includes(cadence)) {
+    return undefined;
+  }
+
+  if (value.kind === "last_day_of_month") {
+    return { kind: "last_day_of_month" };
+  }
+
+  if (
+    value.kind === "nth_weekday" &&
+    NTH_WEEKDAY_VALUES.includes(value.nth as number) &&
+    isWeekday(value.weekday)
+  ) {
+    return {
+      kind: "nth_weekday",
+      nth: value.nth as 1 | 2 | 3 | 4 | -1,
+      weekday: value.weekday,
+    };
+  }
+
+  return undefined;
+};
+
+const normalizeDayRuleByCadence = (
+  value: unknown,
+): Partial<Record<BackupCadence, CadenceDayRule>> => {
+  if (!isObject(value)) {
+    return {};
+  }
+
+  const mapped: Partial<Record<BackupCadence, CadenceDayRule>> = {};
+  for (const [key, rawValue] of Object.entries(value)) {
+    const rule = isBackupCadence(key) ? normalizeDayRule(key, rawValue) : undefined;
+    if (isBackupCadence(key) && rule) {
+      mapped[key] = rule;
+    }
+  }
+
+  return mapped;
+};
+
+// Rotation matches environments on `${prefix}-`, so a prefix must not extend another.
+const prefixesOverlap = (left: string, right: string): boolean =>
+  left === right || left.startsWith(`${right}-`) || right.startsWith(`${left}-`);
+
+/**
+ * Keeps the valid custom slots. A slot is dropped when its name or prefix is
+ * invalid or taken, its prefix overlaps a built-in or earlier slot, a `cron` slot
+ * has no valid expression, or its day rule does not fit its cadence.
+ */
+const normalizeCustomSlots = (value: unknown): CustomBackupSlot[] => {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  const takenPrefixes: string[] = [
+    ...BACKUP_CADENCES.map(getEnvironmentPrefix),
+    HOLDING_ENVIRONMENT_PREFIX,
+  ];
+  const slots: CustomBackupSlot[] = [];
+  for (const entry of value.slice(0, MAX_CUSTOM_SLOTS)) {
+    if (!isObject(entry) || !isBackupCadence(entry.cadence)) {
+      continue;
+    }
+
+    const name = toOptionalString(entry.name);
+    if (
+      !name ||
+      !SLOT_NAME_PATTERN.test(name) ||
+      isBackupCadence(name) ||
+      slots.some((slot) => slot.name === name)
+    ) {
+      continue;
+    }
+
+    const prefix = toOptionalString(entry.prefix) ?? `backup-plugin-${name}`;
+    if (
+      !SLOT_NAME_PATTERN.test(prefix) ||
+      takenPrefixes.some((takenPrefix) => prefixesOverlap(prefix, takenPrefix))
+    ) {
+      continue;
+    }
+
+    const cronExpression = isValidCronExpression(entry.cronExpression)
+      ? entry.cronExpression.trim()
+      : undefined;
+    const dayRule = normalizeDayRule(entry.cadence, entry.dayRule);
+    if (
+      (entry.cadence === "cron" && !cronExpression) ||
+      (typeof entry.dayRule !== "undefined" && !dayRule)
+    ) {
+      continue;
+    }
+
+    const sourceEnvironmentId = toOptionalString(entry.sourceEnvironmentId);
+    const catchUpWindowDays = normalizeCatchUpWindowDays(entry.catchUpWindowDays);
+    takenPrefixes.push(prefix);
+    slots.push({
+      name,
+      cadence: entry.cadence,
+      ...(dayRule ? { dayRule } : {}),
+      ...(entry.cadence === "cron" ? { cronExpression } : {}),
+      ...(sourceEnvironmentId ? { sourceEnvironmentId } : {}),
+      prefix,
+      retention: normalizeRetention(entry.retention) ?? DEFAULT_RETENTION,
+      ...(catchUpWindowDays ? { catchUpWindowDays } : {}),
+    });
+  }
+
+  return slots;
+};
+
+const normalizeRotationMode = (value: unknown): BackupRotationMode =>
+  value === "safe" ? "safe" : DEFAULT_ROTATION_MODE;
+
+const normalizeEveryNHours = (value: unknown): number =>
+  typeof value === "number" && Number.isInteger(value) && value >= 1 && value <= 24
+    ? value
+    : DEFAULT_EVERY_N_HOURS;
+
+const normalizeRunAtLocalTime = (value: unknown): string =>
+  typeof value === "string" && LOCAL_TIME_PATTERN.test(value.trim())
+    ? value.trim()
+    : DEFAULT_RUN_AT_LOCAL_TIME;
+
+const normalizeBlackoutWindows = (value: unknown): BlackoutWindow[] => {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value.flatMap((entry) => {
+    if (!isObject(entry)) {
+      return [];
+    }
+
+    const startLocalDate = toOptionalString(entry.startLocalDate);
+    const endLocalDate = toOptionalString(entry.endLocalDate) ?? startLocalDate;
+    if (
+      !startLocalDate ||
+      !endLocalDate ||
+      !parseLocalDateKey(startLocalDate) ||
+      !parseLocalDateKey(endLocalDate) ||
+      compareDateKeys(startLocalDate, endLocalDate) > 0
+    ) {
+      return [];
+    }
+
+    return [{ startLocalDate, endLocalDate }];
+  });
+};
+
+const normalizeBlackoutWeekdays = (value: unknown): number[] => {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  const weekdays = value.filter(
+    (entry): entry is number => Number.isInteger(entry) && entry >= 0 && entry <= 6,
+  );
+  return [...new Set(weekdays)].sort((left, right) => left - right);
+};
+
+const normalizeRetentionPolicy = (value: unknown): BackupRetentionPolicy =>
+  value === "gfs" ? "gfs" : DEFAULT_RETENTION_POLICY;
+
+const getRetentionForCadence = (
+  config: BackupScheduleConfig,
+  cadence: BackupCadence,
+): number => config.retentionByCadence[cadence] ?? DEFAULT_RETENTION;
+
 const normalizeBackupScheduleConfig = ({
   value,
   timezoneFallback,
@@ -409,6 +1547,18 @@ const normalizeBackupScheduleConfig = ({
         enabledCadences: [...DEFAULT_ENABLED_CADENCES],
         timezone: fallbackTimezone,
         anchorLocalDate: fallbackAnchor,
+        retentionByCadence: {},
+        rotationMode: DEFAULT_ROTATION_MODE,
+        retentionPolicy: DEFAULT_RETENTION_POLICY,
+        everyNHours: DEFAULT_EVERY_N_HOURS,
+        runAtLocalTime: DEFAULT_RUN_AT_LOCAL_TIME,
+        blackoutWindows: [],
+        blackoutWeekdays: [],
+        catchUpWindowDaysByCadence: {},
+        maxAttempts: DEFAULT_MAX_ATTEMPTS,
+        dayRuleByCadence: {},
+        sourceEnvironmentIdByCadence: {},
+        customSlots: [],
         updatedAt: fallbackUpdatedAt,
       },
       requiresMigration: true,
@@ -422,11 +1572,37 @@ const normalizeBackupScheduleConfig = ({
       ? value.anchorLocalDate.trim()
       : toLocalDateKey(now, timezone);
 
+  const cronExpression = isValidCronExpression(value.cronExpression)
+    ? value.cronExpression.trim()
+    : undefined;
+  const requestedCadences = normalizeCadences(value.enabledCadences);
+  const dayRuleByCadence = normalizeDayRuleByCadence(value.dayRuleByCadence);
+  const customSlots = normalizeCustomSlots(value.customSlots);
+  const enabledCadences = requestedCadences.filter(
+    (cadence) => cadence !== "cron" || cronExpression,
+  );
+
   const config: BackupScheduleConfig = {
     version: BACKUP_SCHEDULE_VERSION,
-    enabledCadences: normalizeCadences(value.enabledCadences),
+    enabledCadences:
+      enabledCadences.length > 0 ? enabledCadences : [...DEFAULT_ENABLED_CADENCES],
     timezone,
     anchorLocalDate,
+    retentionByCadence: normalizeRetentionByCadence(value.retentionByCadence),
+    rotationMode: normalizeRotationMode(value.rotationMode),
+    retentionPolicy: normalizeRetentionPolicy(value.retentionPolicy),
+    everyNHours: normalizeEveryNHours(value.everyNHours),
+    runAtLocalTime: normalizeRunAtLocalTime(value.runAtLocalTime),
+    ...(cronExpression ? { cronExpression } : {}),
+    blackoutWindows: normalizeBlackoutWindows(value.blackoutWindows),
+    blackoutWeekdays: normalizeBlackoutWeekdays(value.blackoutWeekdays),
+    catchUpWindowDaysByCadence: normalizeCatchUpWindowDaysByCadence(
+      value.catchUpWindowDaysByCadence,
+    ),
+    maxAttempts: normalizeMaxAttempts(value.maxAttempts),
+    dayRuleByCadence,
+    sourceEnvironmentIdByCadence: toCadenceMap(value.sourceEnvironmentIdByCadence) ?? {},
+    customSlots,
     updatedAt:
       typeof value.updatedAt === "string" && value.updatedAt.trim()
         ? value.updatedAt.trim()
@@ -443,7 +1619,13 @@ const normalizeBackupScheduleConfig = ({
     normalizeCadences(value.enabledCadences).length === 0 ||
     !rawTimezone ||
     !parseLocalDateKey(rawAnchor) ||
-    !rawUpdatedAt;
+    !rawUpdatedAt ||
+    enabledCadences.length !== requestedCadences.length ||
+    (typeof value.cronExpression !== "undefined" && !cronExpression) ||
+    (isObject(value.dayRuleByCadence) &&
+      Object.keys(value.dayRuleByCadence).length !== Object.keys(dayRuleByCadence).length) ||
+    (typeof value.customSlots !== "undefined" &&
+      (!Array.isArray(value.customSlots) || value.customSlots.length !== customSlots.length));
 
   return {
     config,
@@ -455,14 +1637,15 @@ export const normalizeBackupSchedule = normalizeBackupScheduleConfig;
 
 const toCadenceMap = (
   value: unknown,
-): Partial<Record<BackupCadence, string>> | undefined => {
+  isKey: (key: string) => boolean = isBackupCadence,
+): SlotStateMap<string> | undefined => {
   if (!isObject(value)) {
     return undefined;
   }
 
-  const mapped: Partial<Record<BackupCadence, string>> = {};
+  const mapped: SlotStateMap<string> = {};
   for (const [key, rawValue] of Object.entries(value)) {
-    if (!isBackupCadence(key)) {
+    if (!isKey(key)) {
       continue;
     }
 
@@ -477,14 +1660,14 @@ const toCadenceMap = (
 
 const toExecutionModeCadenceMap = (
   value: unknown,
-): Partial<Record<BackupCadence, "lambda_cron">> | undefined => {
+): SlotStateMap<"lambda_cron"> | undefined => {
   if (!isObject(value)) {
     return undefined;
   }
 
-  const mapped: Partial<Record<BackupCadence, "lambda_cron">> = {};
+  const mapped: SlotStateMap<"lambda_cron"> = {};
   for (const [key, rawValue] of Object.entries(value)) {
-    if (!isBackupCadence(key)) {
+    if (!isSlotKey(key)) {
       continue;
     }
 
@@ -496,6 +1679,99 @@ const toExecutionModeCadenceMap = (
   return Object.keys(mapped).length > 0 ? mapped : undefined;
 };
 
+const toAttemptsCadenceMap = (
+  value: unknown,
+): SlotStateMap<CadenceAttempts> | undefined => {
+  if (!isObject(value)) {
+    return undefined;
+  }
+
+  const mapped: SlotStateMap<CadenceAttempts> = {};
+  for (const [key, rawValue] of Object.entries(value)) {
+    if (!isSlotKey(key) || !isObject(rawValue)) {
+      continue;
+    }
+
+    const periodKey = toOptionalString(rawValue.periodKey);
+    const count = rawValue.count;
+    if (periodKey && typeof count === "number" && Number.isInteger(count) && count > 0) {
+      mapped[key] = { periodKey, count };
+    }
+  }
+
+  return Object.keys(mapped).length > 0 ? mapped : undefined;
+};
+
+const toStringList = (value: unknown): string[] | undefined => {
+  if (!Array.isArray(value)) {
+    return undefined;
+  }
+
+  const list = [
+    ...new Set(
+      value
+        .map((entry) => toOptionalString(entry))
+        .filter((entry): entry is string => Boolean(entry)),
+    ),
+  ];
+  return list.length > 0 ? list : undefined;
+};
+
+const toBackupJobs = (value: unknown): BackupJob[] | undefined => {
+  if (!Array.isArray(value)) {
+    return undefined;
+  }
+
+  const jobs: BackupJob[] = [];
+  for (const rawJob of value) {
+    if (!isObject(rawJob)) {
+      continue;
+    }
+
+    const id = toOptionalString(rawJob.id);
+    const environmentId = toOptionalString(rawJob.environmentId);
+    const sourceEnvironmentId = toOptionalString(rawJob.sourceEnvironmentId);
+    const startedAt = toOptionalString(rawJob.startedAt);
+    if (
+      !id ||
+      !isBackupCadence(rawJob.scope) ||
+      !environmentId ||
+      !sourceEnvironmentId ||
+      !startedAt ||
+      (rawJob.status !== "running" &&
+        rawJob.status !== "completed" &&
+        rawJob.status !== "failed")
+    ) {
+      continue;
+    }
+
+    const slot = toOptionalString(rawJob.slot);
+    const completedAt = toOptionalString(rawJob.completedAt);
+    const error = toOptionalString(rawJob.error);
+    const retentionError = toOptionalString(rawJob.retentionError);
+    const lockOwner = toOptionalString(rawJob.lockOwner);
+    const heldEnvironmentIds = toStringList(rawJob.heldEnvironmentIds);
+    jobs.push({
+      id,
+      scope: rawJob.scope,
+      ...(slot ? { slot } : {}),
+      environmentId,
+      sourceEnvironmentId,
+      startedAt,
+      status: rawJob.status,
+      ...(completedAt ? { completedAt } : {}),
+      ...(error ? { error } : {}),
+      ...(retentionError ? { retentionError } : {}),
+      pendingDeletionEnvironmentIds: toStringList(rawJob.pendingDeletionEnvironmentIds) ?? [],
+      ...(heldEnvironmentIds?.length ? { heldEnvironmentIds } : {}),
+      deletedEnvironmentIds: toStringList(rawJob.deletedEnvironmentIds) ?? [],
+      ...(lockOwner ? { lockOwner } : {}),
+    });
+  }
+
+  return jobs.length > 0 ? jobs : undefined;
+};
+
 const toScheduleState = (value: unknown): AutomaticBackupsScheduleState => {
   if (!isObject(value)) {
     return {};
@@ -503,15 +1779,23 @@ const toScheduleState = (value: unknown): AutomaticBackupsScheduleState => {
 
   return {
     ...value,
-    lastRunLocalDateByCadence: toCadenceMap(value.lastRunLocalDateByCadence),
-    lastRunAtByCadence: toCadenceMap(value.lastRunAtByCadence),
+    lastRunLocalDateByCadence: toCadenceMap(value.lastRunLocalDateByCadence, isSlotKey),
+    lastRunLocalHourByCadence: toCadenceMap(value.lastRunLocalHourByCadence, isSlotKey),
+    lastRunLocalOccurrenceByCadence: toCadenceMap(
+      value.lastRunLocalOccurrenceByCadence,
+      isSlotKey,
+    ),
+    lastRunAtByCadence: toCadenceMap(value.lastRunAtByCadence, isSlotKey),
     lastManagedEnvironmentIdByCadence: toCadenceMap(
       value.lastManagedEnvironmentIdByCadence,
+      isSlotKey,
     ),
     lastExecutionModeByCadence: toExecutionModeCadenceMap(
       value.lastExecutionModeByCadence,
     ),
-    lastErrorByCadence: toCadenceMap(value.lastErrorByCadence),
+    lastErrorByCadence: toCadenceMap(value.lastErrorByCadence, isSlotKey),
+    failedAttemptsByCadence: toAttemptsCadenceMap(value.failedAttemptsByCadence),
+    pendingPeriodByCadence: toCadenceMap(value.pendingPeriodByCadence, isSlotKey),
     dailyLastRunDate: toOptionalString(value.dailyLastRunDate),
     weeklyLastRunKey: toOptionalString(value.weeklyLastRunKey),
     lastDailyRunAt: toOptionalString(value.lastDailyRunAt),
@@ -528,6 +1812,8 @@ const toScheduleState = (value: unknown): AutomaticBackupsScheduleState => {
         : undefined,
     lastDailyError: toOptionalString(value.lastDailyError),
     lastWeeklyError: toOptionalString(value.lastWeeklyError),
+    pinnedEnvironmentIds: toStringList(value.pinnedEnvironmentIds),
+    backupJobs: toBackupJobs(value.backupJobs),
   };
 };
 
@@ -546,29 +1832,29 @@ const toUtcIsoWeekKey = (date: Date): string => {
   return `${workingDate.getUTCFullYear()}-W${String(weekNo).padStart(2, "0")}`;
 };
 
-const getLastRunLocalDateForCadence = ({
+const getLastRunLocalDateForSlot = ({
   scheduleState,
-  cadence,
+  slotKey,
   now,
   timezone,
 }: {
   scheduleState: AutomaticBackupsScheduleState;
-  cadence: BackupCadence;
+  slotKey: string;
   now: Date;
   timezone: string;
 }): string | undefined => {
-  const fromCadenceMap = scheduleState.lastRunLocalDateByCadence?.[cadence];
+  const fromCadenceMap = scheduleState.lastRunLocalDateByCadence?.[slotKey];
   if (fromCadenceMap && parseLocalDateKey(fromCadenceMap)) {
     return fromCadenceMap;
   }
 
-  if (cadence === "daily") {
+  if (slotKey === "daily") {
     if (scheduleState.dailyLastRunDate && parseLocalDateKey(scheduleState.dailyLastRunDate)) {
       return scheduleState.dailyLastRunDate;
     }
   }
 
-  if (cadence === "weekly" && scheduleState.weeklyLastRunKey) {
+  if (slotKey === "weekly" && scheduleState.weeklyLastRunKey) {
     const currentWeek = toUtcIsoWeekKey(now);
     if (scheduleState.weeklyLastRunKey === currentWeek) {
       return toLocalDateKey(now, timezone);
@@ -578,44 +1864,86 @@ const getLastRunLocalDateForCadence = ({
   return undefined;
 };
 
+const matchesDayRule = ({
+  cadence,
+  dayRule,
+  anchorLocalDate,
+  localDate,
+  parts,
+}: {
+  cadence: BackupCadence;
+  dayRule: CadenceDayRule;
+  anchorLocalDate: string;
+  localDate: string;
+  parts: LocalDateParts;
+}): boolean => {
+  if (dayRule.kind === "weekdays") {
+    // Biweekly only runs in every other 7-day block counted from the anchor.
+    const inActiveWeek =
+      cadence !== "biweekly" ||
+      Math.floor(getDayDiff(anchorLocalDate, localDate) / 7) % 2 === 0;
+    return inActiveWeek && dayRule.weekdays.includes(getWeekday(parts));
+  }
+
+  if (getMonthDiff(anchorLocalDate, localDate) % getMonthInterval(cadence) !== 0) {
+    return false;
+  }
+
+  const daysInMonth = getDaysInMonth(parts.year, parts.month);
+  if (dayRule.kind === "last_day_of_month") {
+    return parts.day === daysInMonth;
+  }
+
+  if (getWeekday(parts) !== dayRule.weekday) {
+    return false;
+  }
+
+  return dayRule.nth === -1
+    ? parts.day + 7 > daysInMonth
+    : Math.ceil(parts.day / 7) === dayRule.nth;
+};
+
 const isCadenceScheduledOnDate = ({
   cadence,
   anchorLocalDate,
   localDate,
+  dayRule,
 }: {
   cadence: BackupCadence;
   anchorLocalDate: string;
   localDate: string;
+  dayRule?: CadenceDayRule;
 }): boolean => {
-  if (!parseLocalDateKey(anchorLocalDate) || !parseLocalDateKey(localDate)) {
+  const parts = parseLocalDateKey(localDate);
+  if (!parseLocalDateKey(anchorLocalDate) || !parts) {
     return cadence === "daily";
   }
 
-  if (compareDateKeys(localDate, anchorLocalDate) < 0) {
+  // Cron cadences depend on their expression and are evaluated by `isCronCadenceDue`.
+  if (compareDateKeys(localDate, anchorLocalDate) < 0 || cadence === "cron") {
     return false;
   }
 
-  if (cadence === "daily") {
+  if (cadence === "daily" || SUB_DAILY_CADENCES.includes(cadence)) {
     return true;
   }
 
+  if (dayRule) {
+    return matchesDayRule({ cadence, dayRule, anchorLocalDate, localDate, parts });
+  }
+
   if (cadence === "weekly" || cadence === "biweekly") {
     const interval = cadence === "weekly" ? 7 : 14;
     const diffDays = getDayDiff(anchorLocalDate, localDate);
     return diffDays >= 0 && diffDays % interval === 0;
   }
 
-  const anchorParts = parseLocalDateKey(anchorLocalDate);
-  const currentParts = parseLocalDateKey(localDate);
-  if (!anchorParts || !currentParts) {
-    return false;
-  }
-
-  const dueDay = Math.min(
-    anchorParts.day,
-    getDaysInMonth(currentParts.year, currentParts.month),
+  // Month-based cadences keep the anchor's day, clamped to shorter months.
+  const monthDiff = getMonthDiff(anchorLocalDate, localDate);
+  return (
+    monthDiff % getMonthInterval(cadence) === 0 &&
+    addMonthsToDateKey(anchorLocalDate, monthDiff) === localDate
   );
-  return currentParts.day === dueDay;
 };
 
 const isCadenceDueNow = ({
@@ -623,11 +1951,13 @@ const isCadenceDueNow = ({
   anchorLocalDate,
   currentLocalDate,
   lastRunLocalDate,
+  dayRule,
 }: {
   cadence: BackupCadence;
   anchorLocalDate: string;
   currentLocalDate: string;
   lastRunLocalDate?: string;
+  dayRule?: CadenceDayRule;
 }): boolean => {
   if (
     typeof lastRunLocalDate === "string" &&
@@ -640,21 +1970,86 @@ const isCadenceDueNow = ({
     cadence,
     anchorLocalDate,
     localDate: currentLocalDate,
+    dayRule,
   });
 };
 
 export const isCadenceDue = isCadenceDueNow;
 
+const isLocalDateBlackedOut = ({
+  blackoutWindows,
+  blackoutWeekdays,
+  localDate,
+}: Pick<BackupScheduleConfig, "blackoutWindows" | "blackoutWeekdays"> & {
+  localDate: string;
+}): boolean => {
+  const parts = parseLocalDateKey(localDate);
+  if (!parts) {
+    return false;
+  }
+
+  return (
+    blackoutWeekdays.includes(getWeekday(parts)) ||
+    blackoutWindows.some(
+      (window) =>
+        compareDateKeys(window.startLocalDate, localDate) <= 0 &&
+        compareDateKeys(localDate, window.endLocalDate) <= 0,
+    )
+  );
+};
+
+export const isBlackedOut = isLocalDateBlackedOut;
+
+/**
+ * Returns the most recent scheduled date within the last `windowDays` days (today
+ * excluded) that the cadence has not run on or after, if any.
+ */
+const getMissedLocalDate = ({
+  cadence,
+  anchorLocalDate,
+  currentLocalDate,
+  lastRunLocalDate,
+  windowDays,
+  dayRule,
+}: {
+  cadence: BackupCadence;
+  anchorLocalDate: string;
+  currentLocalDate: string;
+  lastRunLocalDate?: string;
+  windowDays: number;
+  dayRule?: CadenceDayRule;
+}): string | undefined => {
+  for (let offset = 1; offset <= windowDays; offset += 1) {
+    const localDate = addDaysToDateKey(currentLocalDate, -offset);
+    if (
+      typeof lastRunLocalDate === "string" &&
+      compareDateKeys(localDate, lastRunLocalDate) <= 0
+    ) {
+      return undefined;
+    }
+
+    if (isCadenceScheduledOnDate({ cadence, anchorLocalDate, localDate, dayRule })) {
+      return localDate;
+    }
+  }
+
+  return undefined;
+};
+
+export const getMissedOccurrenceForCadence = getMissedLocalDate;
+
 const getNextDueLocalDate = ({
   cadence,
   anchorLocalDate,
   currentLocalDate,
   lastRunLocalDate,
+  dayRule,
 }: {
   cadence: BackupCadence;
   anchorLocalDate: string;
   currentLocalDate: string;
   lastRunLocalDate?: string;
+  dayRule?: CadenceDayRule;
 }): string => {
   const alreadyRanToday =
     typeof lastRunLocalDate === "string" &&
@@ -662,12 +2057,34 @@ const getNextDueLocalDate = ({
 
   if (
     !alreadyRanToday &&
-    isCadenceScheduledOnDate({ cadence, anchorLocalDate, localDate: currentLocalDate })
+    isCadenceScheduledOnDate({
+      cadence,
+      anchorLocalDate,
+      localDate: currentLocalDate,
+      dayRule,
+    })
   ) {
     return currentLocalDate;
   }
 
-  if (cadence === "daily") {
+  if (dayRule) {
+    // Rules always match within a year of any date, so a bounded scan suffices.
+    const startDate =
+      compareDateKeys(currentLocalDate, anchorLocalDate) < 0
+        ? anchorLocalDate
+        : currentLocalDate;
+    for (let offset = 0; offset <= DAY_RULE_LOOKUP_DAYS; offset += 1) {
+      const localDate = addDaysToDateKey(startDate, offset);
+      if (
+        compareDateKeys(localDate, currentLocalDate) > 0 &&
+        isCadenceScheduledOnDate({ cadence, anchorLocalDate, localDate, dayRule })
+      ) {
+        return localDate;
+      }
+    }
+  }
+
+  if (cadence === "daily" || SUB_DAILY_CADENCES.includes(cadence)) {
     return addDaysToDateKey(currentLocalDate, 1);
   }
 
@@ -684,72 +2101,368 @@ const getNextDueLocalDate = ({
     return addDaysToDateKey(currentLocalDate, offset);
   }
 
-  const currentParts = parseLocalDateKey(currentLocalDate);
-  const anchorParts = parseLocalDateKey(anchorLocalDate);
-  if (!currentParts || !anchorParts) {
-    return currentLocalDate;
-  }
-
-  const dueThisMonth = toLocalDateKeyFromParts({
-    year: currentParts.year,
-    month: currentParts.month,
-    day: Math.min(anchorParts.day, getDaysInMonth(currentParts.year, currentParts.month)),
-  });
-
-  if (
-    compareDateKeys(dueThisMonth, currentLocalDate) > 0 ||
-    (compareDateKeys(dueThisMonth, currentLocalDate) === 0 && !alreadyRanToday)
-  ) {
-    return dueThisMonth;
-  }
-
-  const firstOfCurrentMonth = toLocalDateKeyFromParts({
-    year: currentParts.year,
-    month: currentParts.month,
-    day: 1,
-  });
-  const firstOfNextMonth = addMonthsToDateKey(firstOfCurrentMonth, 1);
-  const nextMonthParts = parseLocalDateKey(firstOfNextMonth);
-  if (!nextMonthParts) {
-    return firstOfNextMonth;
+  const interval = getMonthInterval(cadence);
+  const elapsedMonths = Math.max(getMonthDiff(anchorLocalDate, currentLocalDate), 0);
+  let monthDiff = Math.ceil(elapsedMonths / interval) * interval;
+  for (;;) {
+    const dueDate = addMonthsToDateKey(anchorLocalDate, monthDiff);
+    const comparison = compareDateKeys(dueDate, currentLocalDate);
+    if (comparison > 0 || (comparison === 0 && !alreadyRanToday)) {
+      return dueDate;
+    }
+    monthDiff += interval;
   }
-
-  return toLocalDateKeyFromParts({
-    year: nextMonthParts.year,
-    month: nextMonthParts.month,
-    day: Math.min(anchorParts.day, getDaysInMonth(nextMonthParts.year, nextMonthParts.month)),
-  });
 };
 
 export const getNextDueDateForCadence = getNextDueLocalDate;
 
-export const toTimezoneLocalDateKey = toLocalDateKey;
+const getHourInterval = (cadence: BackupCadence, everyNHours: number): number =>
+  cadence === "hourly" ? 1 : everyNHours;
 
-const toUtcDateFromLocalDateKey = (localDateKey: string): Date | undefined => {
-  const parsed = parseLocalDateKey(localDateKey);
+/**
+ * Sub-daily cadences run once per slot of `interval` wall-clock hours, counted
+ * from local midnight of the anchor date.
+ */
+const getHourSlotIndex = ({
+  anchorLocalDate,
+  localHourKey,
+  interval,
+}: {
+  anchorLocalDate: string;
+  localHourKey: string;
+  interval: number;
+}): number | null => {
+  const parsed = parseLocalHourKey(localHourKey);
   if (!parsed) {
-    return undefined;
+    return null;
   }
 
-  return new Date(Date.UTC(parsed.year, parsed.month - 1, parsed.day, 0, 0, 0, 0));
+  const hoursSinceAnchor = getDayDiff(anchorLocalDate, parsed.dateKey) * 24 + parsed.hour;
+  return Math.floor(hoursSinceAnchor / interval);
 };
 
-const getEnvironmentPrefix = (scope: BackupCadence) => {
-  switch (scope) {
-    case "daily":
-      return "backup-plugin-daily";
-    case "weekly":
-      return "backup-plugin-weekly";
-    case "biweekly":
-      return "backup-plugin-biweekly";
-    case "monthly":
-      return "backup-plugin-monthly";
+const isSubDailyCadenceDueNow = ({
+  cadence,
+  everyNHours,
+  anchorLocalDate,
+  currentLocalHour,
+  lastRunLocalHour,
+}: {
+  cadence: BackupCadence;
+  everyNHours: number;
+  anchorLocalDate: string;
+  currentLocalHour: string;
+  lastRunLocalHour?: string;
+}): boolean => {
+  const interval = getHourInterval(cadence, everyNHours);
+  const currentSlot = getHourSlotIndex({
+    anchorLocalDate,
+    localHourKey: currentLocalHour,
+    interval,
+  });
+  if (currentSlot === null || currentSlot < 0) {
+    return false;
   }
+
+  const lastSlot =
+    typeof lastRunLocalHour === "string"
+      ? getHourSlotIndex({ anchorLocalDate, localHourKey: lastRunLocalHour, interval })
+      : null;
+  return lastSlot === null || lastSlot < currentSlot;
 };
 
-const getDateSuffix = (now: Date) => now.toISOString().split("T")[0];
+export const isSubDailyCadenceDue = isSubDailyCadenceDueNow;
 
-const resolveSchedulerProvider = (
+const getNextDueLocalHour = ({
+  cadence,
+  everyNHours,
+  anchorLocalDate,
+  currentLocalHour,
+  lastRunLocalHour,
+}: {
+  cadence: BackupCadence;
+  everyNHours: number;
+  anchorLocalDate: string;
+  currentLocalHour: string;
+  lastRunLocalHour?: string;
+}): string => {
+  const interval = getHourInterval(cadence, everyNHours);
+  const currentSlot =
+    getHourSlotIndex({ anchorLocalDate, localHourKey: currentLocalHour, interval }) ?? 0;
+  const nextSlot = isSubDailyCadenceDueNow({
+    cadence,
+    everyNHours,
+    anchorLocalDate,
+    currentLocalHour,
+    lastRunLocalHour,
+  })
+    ? currentSlot
+    : Math.max(currentSlot + 1, 0);
+  const hoursSinceAnchor = nextSlot * interval;
+  const localDate = addDaysToDateKey(anchorLocalDate, Math.floor(hoursSinceAnchor / 24));
+  return `${localDate}T${pad2(hoursSinceAnchor % 24)}`;
+};
+
+export const getNextDueHourForCadence = getNextDueLocalHour;
+
+const toLocalOccurrenceKey = (localDate: string, hour: number, minute: number) =>
+  `${localDate}T${pad2(hour)}:${pad2(minute)}`;
+
+const toLocalMinuteKey = (date: Date, timezone: string): string => {
+  const parts = toLocalDateTimeParts(date, timezone);
+  return toLocalOccurrenceKey(toLocalDateKeyFromParts(parts), parts.hour, parts.minute);
+};
+
+const toMinuteOfDay = (localTime: string): number =>
+  Number(localTime.slice(11, 13)) * 60 + Number(localTime.slice(14, 16));
+
+const cronMatchesLocalDate = (
+  schedule: CronSchedule,
+  localDate: string,
+): boolean => {
+  const parts = parseLocalDateKey(localDate);
+  if (!parts) {
+    return false;
+  }
+
+  return cronMatchesDate(schedule, {
+    month: parts.month,
+    day: parts.day,
+    weekday: getWeekday(parts),
+  });
+};
+
+/**
+ * Walks local dates backwards from `currentLocalTime` (`YYYY-MM-DDTHH:MM`) and
+ * returns the latest occurrence of the expression, never earlier than the anchor.
+ */
+const getLatestCronOccurrence = ({
+  cronExpression,
+  anchorLocalDate,
+  currentLocalTime,
+}: {
+  cronExpression: string;
+  anchorLocalDate: string;
+  currentLocalTime: string;
+}): string | null => {
+  const schedule = parseCronExpression(cronExpression);
+  const currentLocalDate = currentLocalTime.slice(0, 10);
+  if (!schedule || !parseLocalDateKey(currentLocalDate)) {
+    return null;
+  }
+
+  let bound = toMinuteOfDay(currentLocalTime);
+  for (let offset = 0; offset < CRON_LOOKUP_DAYS; offset += 1) {
+    const localDate = addDaysToDateKey(currentLocalDate, -offset);
+    if (compareDateKeys(localDate, anchorLocalDate) < 0) {
+      return null;
+    }
+
+    const time = cronMatchesLocalDate(schedule, localDate)
+      ? getLatestCronTimeOfDay(schedule, bound)
+      : null;
+    if (time) {
+      return toLocalOccurrenceKey(localDate, time.hour, time.minute);
+    }
+    bound = 1439;
+  }
+
+  return null;
+};
+
+/**
+ * Returns the first occurrence of the expression strictly after
+ * `currentLocalTime`, starting no earlier than the anchor date.
+ */
+const getNextCronOccurrence = ({
+  cronExpression,
+  anchorLocalDate,
+  currentLocalTime,
+}: {
+  cronExpression: string;
+  anchorLocalDate: string;
+  currentLocalTime: string;
+}): string | null => {
+  const schedule = parseCronExpression(cronExpression);
+  const currentLocalDate = currentLocalTime.slice(0, 10);
+  if (!schedule || !parseLocalDateKey(currentLocalDate)) {
+    return null;
+  }
+
+  const startsAtAnchor = compareDateKeys(currentLocalDate, anchorLocalDate) < 0;
+  const startDate = startsAtAnchor ? anchorLocalDate : currentLocalDate;
+  let bound = startsAtAnchor ? 0 : toMinuteOfDay(currentLocalTime) + 1;
+  for (let offset = 0; offset < CRON_LOOKUP_DAYS; offset += 1) {
+    const localDate = addDaysToDateKey(startDate, offset);
+    const time = cronMatchesLocalDate(schedule, localDate)
+      ? getEarliestCronTimeOfDay(schedule, bound)
+      : null;
+    if (time) {
+      return toLocalOccurrenceKey(localDate, time.hour, time.minute);
+    }
+    bound = 0;
+  }
+
+  return null;
+};
+
+export const getNextCronOccurrenceForCadence = getNextCronOccurrence;
+
+const isCronCadenceDueNow = ({
+  cronExpression,
+  anchorLocalDate,
+  currentLocalTime,
+  lastRunLocalOccurrence,
+}: {
+  cronExpression: string;
+  anchorLocalDate: string;
+  currentLocalTime: string;
+  lastRunLocalOccurrence?: string;
+}): boolean => {
+  const latest = getLatestCronOccurrence({
+    cronExpression,
+    anchorLocalDate,
+    currentLocalTime,
+  });
+  if (!latest) {
+    return false;
+  }
+
+  return typeof lastRunLocalOccurrence !== "string" || lastRunLocalOccurrence < latest;
+};
+
+export const isCronCadenceDue = isCronCadenceDueNow;
+
+export const toTimezoneLocalDateKey = toLocalDateKey;
+
+const getEnvironmentPrefix = (scope: BackupCadence) => {
+  switch (scope) {
+    case "hourly":
+      return "backup-plugin-hourly";
+    case "every_n_hours":
+      return "backup-plugin-every-n-hours";
+    case "daily":
+      return "backup-plugin-daily";
+    case "weekly":
+      return "backup-plugin-weekly";
+    case "biweekly":
+      return "backup-plugin-biweekly";
+    case "monthly":
+      return "backup-plugin-monthly";
+    case "quarterly":
+      return "backup-plugin-quarterly";
+    case "yearly":
+      return "backup-plugin-yearly";
+    case "cron":
+      return "backup-plugin-cron";
+  }
+};
+
+const getDateSuffix = (now: Date) => now.toISOString().split("T")[0];
+
+const getEnvironmentSuffix = (scope: BackupCadence, now: Date) =>
+  HOUR_SUFFIXED_CADENCES.includes(scope)
+    ? `${getDateSuffix(now)}-${pad2(now.getUTCHours())}`
+    : getDateSuffix(now);
+
+/**
+ * A schedulable backup slot: an enabled cadence, keyed by the cadence, or a
+ * custom slot, keyed by its name. The key addresses the slot's schedule state.
+ */
+type BackupSlot = {
+  key: string;
+  cadence: BackupCadence;
+  custom: boolean;
+  prefix: string;
+  retention: number;
+  sourceEnvironmentId?: string;
+  dayRule?: CadenceDayRule;
+  cronExpression?: string;
+  catchUpWindowDays: number;
+};
+
+const toBuiltInSlot = (config: BackupScheduleConfig, cadence: BackupCadence): BackupSlot => ({
+  key: cadence,
+  cadence,
+  custom: false,
+  prefix: getEnvironmentPrefix(cadence),
+  retention: getRetentionForCadence(config, cadence),
+  sourceEnvironmentId: config.sourceEnvironmentIdByCadence[cadence],
+  dayRule: config.dayRuleByCadence[cadence],
+  cronExpression: cadence === "cron" ? config.cronExpression : undefined,
+  catchUpWindowDays: config.catchUpWindowDaysByCadence[cadence] ?? 0,
+});
+
+const toCustomSlot = (slot: CustomBackupSlot): BackupSlot => ({
+  key: slot.name,
+  cadence: slot.cadence,
+  custom: true,
+  prefix: slot.prefix,
+  retention: slot.retention,
+  sourceEnvironmentId: slot.sourceEnvironmentId,
+  dayRule: slot.dayRule,
+  cronExpression: slot.cronExpression,
+  catchUpWindowDays: slot.catchUpWindowDays ?? 0,
+});
+
+/**
+ * The GFS tiers, from the shortest to the longest period. A cron expression has no
+ * fixed period to promote into, so the cron cadence is never a tier.
+ */
+const getGfsTiers = (config: BackupScheduleConfig): BackupCadence[] =>
+  BACKUP_CADENCES.filter(
+    (cadence) => cadence !== "cron" && config.enabledCadences.includes(cadence),
+  );
+
+// Custom and cron slots stay outside the GFS tiers and rotate on their own retention.
+const isGfsTierSlot = (config: BackupScheduleConfig, slot: BackupSlot): boolean =>
+  config.retentionPolicy === "gfs" && !slot.custom && slot.cadence !== "cron";
+
+/**
+ * Lists the slots that fork on their own schedule. Under GFS only the shortest
+ * tier forks; longer tiers are filled by promotion. Cron and custom slots always
+ * fork.
+ */
+const getForkingSlots = (config: BackupScheduleConfig): BackupSlot[] => [
+  ...config.enabledCadences
+    .filter(
+      (cadence) =>
+        config.retentionPolicy !== "gfs" ||
+        cadence === "cron" ||
+        cadence === getGfsTiers(config)[0],
+    )
+    .map((cadence) => toBuiltInSlot(config, cadence)),
+  ...config.customSlots.map(toCustomSlot),
+];
+
+const toSlotName = (slot: BackupSlot): { slot?: string } =>
+  slot.custom ? { slot: slot.key } : {};
+
+type BackupEnvironment = {
+  id: string;
+  meta: {
+    primary: boolean;
+    created_at: string;
+  };
+};
+
+const isGenerationOfPrefix = (environment: BackupEnvironment, prefix: string): boolean =>
+  !environment.meta.primary &&
+  environment.id.startsWith(`${prefix}-`) &&
+  !environment.id.endsWith(LEGACY_HOLDING_ENVIRONMENT_SUFFIX);
+
+const sortBackupsNewestFirst = <Environment extends BackupEnvironment>(
+  environments: Environment[],
+): Environment[] =>
+  environments
+    .slice()
+    .sort(
+      (left, right) =>
+        new Date(right.meta.created_at).getTime() -
+        new Date(left.meta.created_at).getTime(),
+    );
+
+const resolveSchedulerProvider = (
   providerHint?: SchedulerProvider,
 ): SchedulerProvider => {
   if (
@@ -780,8 +2493,57 @@ const resolveSchedulerProvider = (
   return providerHint ?? "unknown";
 };
 
+/**
+ * The cadence of the platform trigger: Vercel ships with a daily cron, the other
+ * targets with an hourly one. `DATOCMS_BACKUP_TRIGGER_CADENCE` overrides it for a
+ * deployment whose cron was changed.
+ */
+const resolveTriggerCadence = (provider: SchedulerProvider): SchedulerTriggerCadence => {
+  const fromEnv = getProcessEnv()?.[TRIGGER_CADENCE_ENV_VAR]?.trim();
+  if (fromEnv === "hourly" || fromEnv === "daily") {
+    return fromEnv;
+  }
+
+  return provider === "vercel" ? "daily" : "hourly";
+};
+
+// The shipped crons fire at :05 past every UTC hour, or at 02:05 UTC once a day.
+const TRIGGER_MINUTE_UTC = 5;
+const DAILY_TRIGGER_HOUR_UTC = 2;
+
+/**
+ * Rounds an instant up to the first trigger at or after it, which is when a
+ * backup due at that instant actually starts.
+ */
+const toNextTriggerAt = (at: Date, cadence: SchedulerTriggerCadence): Date => {
+  const trigger = new Date(
+    Date.UTC(
+      at.getUTCFullYear(),
+      at.getUTCMonth(),
+      at.getUTCDate(),
+      cadence === "daily" ? DAILY_TRIGGER_HOUR_UTC : at.getUTCHours(),
+      TRIGGER_MINUTE_UTC,
+    ),
+  );
+  if (trigger.getTime() < at.getTime()) {
+    if (cadence === "daily") {
+      trigger.setUTCDate(trigger.getUTCDate() + 1);
+    } else {
+      trigger.setUTCHours(trigger.getUTCHours() + 1);
+    }
+  }
+  return trigger;
+};
+
+const toSchedulerSummary = (
+  provider: SchedulerProvider,
+): ScheduledBackupsRunResult["scheduler"] => ({
+  provider,
+  cadence: resolveTriggerCadence(provider),
+});
+
 const getProjectTimezone = async (
-  client: ReturnType<typeof buildClient>,
+  client: BackupClient,
 ): Promise<string> => {
   try {
     const site = (await client.site.find()) as Record<string, unknown>;
@@ -792,29 +2554,128 @@ const getProjectTimezone = async (
   }
 };
 
-const persistPluginParameters = async ({
+const getProjectSiteId = async (client: BackupClient): Promise<string | undefined> => {
+  try {
+    const site = (await client.site.find()) as Record<string, unknown>;
+    return toOptionalString(site.id);
+  } catch {
+    return undefined;
+  }
+};
+
+// The only parameters the service writes; every other key belongs to the plugin UI.
+type ServiceParameterUpdates = Partial<
+  Record<"backupSchedule" | "automaticBackupsSchedule" | "automaticBackupsLock", unknown>
+>;
+
+const MAX_PARAMETER_WRITE_ATTEMPTS = 3;
+
+const readPluginParameters = async (
+  client: BackupClient,
+): Promise<Record<string, unknown>> => {
+  const plugin = await findAutomaticBackupsPlugin(client);
+  return plugin && isObject(plugin.parameters) ? plugin.parameters : {};
+};
+
+const isSameJsonValue = (left: unknown, right: unknown): boolean => {
+  if (Array.isArray(left) || Array.isArray(right)) {
+    return (
+      Array.isArray(left) &&
+      Array.isArray(right) &&
+      left.length === right.length &&
+      left.every((item, index) => isSameJsonValue(item, right[index]))
+    );
+  }
+
+  if (isObject(left) && isObject(right)) {
+    const keys = new Set([...Object.keys(left), ...Object.keys(right)]);
+    return [...keys].every((key) => isSameJsonValue(left[key], right[key]));
+  }
+
+  return left === right;
+};
+
+/**
+ * Re-reads the plugin and writes `updates` over its current parameters, so
+ * settings saved from the plugin UI since the run started are kept. A key set
+ * to `undefined` is removed. When `updates` is a function it is computed from the
+ * parameters just read; the applied updates are returned.
+ */
+const mergePluginParameters = async ({
   client,
   pluginId,
-  parameters,
+  updates,
 }: {
-  client: ReturnType<typeof buildClient>;
+  client: BackupClient;
   pluginId: string;
-  parameters: Record<string, unknown>;
-}) => {
+  updates:
+    | ServiceParameterUpdates
+    | ((parameters: Record<string, unknown>) => ServiceParameterUpdates);
+}): Promise<ServiceParameterUpdates> => {
+  const parameters = { ...(await readPluginParameters(client)) };
+  const resolvedUpdates = typeof updates === "function" ? updates(parameters) : updates;
+  for (const [key, value] of Object.entries(resolvedUpdates)) {
+    if (typeof value === "undefined") {
+      delete parameters[key];
+    } else {
+      parameters[key] = value;
+    }
+  }
+
   await client.plugins.update(pluginId, {
     parameters,
   });
+  return resolvedUpdates;
+};
+
+/**
+ * Saves service-owned parameters without discarding plugin UI settings.
+ * Plugins carry no version to update against, so the write is read back: if a
+ * concurrent save (typically the UI writing back a stale copy of every
+ * parameter) replaced these keys, they are merged onto the latest parameters
+ * again. Function updates are recomputed from the latest parameters on every
+ * attempt.
+ */
+const persistServiceParameters = async ({
+  client,
+  pluginId,
+  updates,
+}: {
+  client: BackupClient;
+  pluginId: string;
+  updates:
+    | ServiceParameterUpdates
+    | ((parameters: Record<string, unknown>) => ServiceParameterUpdates);
+}): Promise<ServiceParameterUpdates> => {
+  for (let attempt = 1; attempt <= MAX_PARAMETER_WRITE_ATTEMPTS; attempt += 1) {
+    const applied = await mergePluginParameters({ client, pluginId, updates });
+
+    const saved = await readPluginParameters(client);
+    if (
+      Object.entries(applied).every(([key, value]) => isSameJsonValue(saved[key], value))
+    ) {
+      return applied;
+    }
+  }
+
+  throw new PluginParametersConflictError(MAX_PARAMETER_WRITE_ATTEMPTS);
 };
 
 const getBackupContext = async (
   options: BackupExecutionOptions = {},
 ): Promise<BackupContext> => {
   const now = options.now ?? new Date();
-  const apiToken = resolveApiToken(options.apiToken);
-  assignApiTokenToProcessEnv(apiToken);
+  const { apiToken, fromRegistry } = resolveProjectApiToken(options);
+  // A registry token must not become the fallback for the next request.
+  if (!fromRegistry) {
+    assignApiTokenToProcessEnv(apiToken);
+  }
 
-  const client = buildClient({ apiToken });
-  const plugin = await findAutomaticBackupsPlugin(apiToken);
+  const client = withRequestRetries(
+    options.client ?? buildClient({ apiToken, autoRetry: false }),
+    resolveRetryPolicy(options.retry),
+  );
+  const plugin = await findAutomaticBackupsPlugin(client);
   const siteTimezone = await getProjectTimezone(client);
 
   if (!plugin) {
@@ -828,7 +2689,6 @@ const getBackupContext = async (
       apiToken,
       client,
       pluginId: null,
-      pluginParameters: {},
       scheduleConfig: normalized.config,
       scheduleState: {},
     };
@@ -841,16 +2701,11 @@ const getBackupContext = async (
     now,
   });
 
-  const updatedParameters = {
-    ...pluginParameters,
-    ...(normalized.requiresMigration ? { backupSchedule: normalized.config } : {}),
-  };
-
   if (normalized.requiresMigration) {
-    await persistPluginParameters({
+    await persistServiceParameters({
       client,
       pluginId: plugin.id,
-      parameters: updatedParameters,
+      updates: { backupSchedule: normalized.config },
     });
   }
 
@@ -858,334 +2713,2190 @@ const getBackupContext = async (
     apiToken,
     client,
     pluginId: plugin.id,
-    pluginParameters: updatedParameters,
     scheduleConfig: normalized.config,
-    scheduleState: toScheduleState(updatedParameters.automaticBackupsSchedule),
+    scheduleState: toScheduleState(pluginParameters.automaticBackupsSchedule),
   };
 };
 
+/**
+ * Saves the schedule state by applying `update` to the state just read, so fields
+ * other writers own (pins saved from the plugin, jobs, a run's progress) are
+ * never reverted to an earlier snapshot. Returns the saved state.
+ */
 const persistScheduleState = async ({
   context,
-  scheduleState,
+  update,
 }: {
   context: BackupContext;
-  scheduleState: AutomaticBackupsScheduleState;
-}) => {
+  update: (scheduleState: AutomaticBackupsScheduleState) => AutomaticBackupsScheduleState;
+}): Promise<AutomaticBackupsScheduleState> => {
   if (!context.pluginId) {
-    return;
+    return update(context.scheduleState);
   }
 
-  const nextParameters = {
-    ...context.pluginParameters,
-    automaticBackupsSchedule: scheduleState,
-  };
-
-  await persistPluginParameters({
+  let saved: AutomaticBackupsScheduleState = context.scheduleState;
+  await persistServiceParameters({
     client: context.client,
     pluginId: context.pluginId,
-    parameters: nextParameters,
+    updates: (parameters) => {
+      saved = update(toScheduleState(parameters.automaticBackupsSchedule));
+      return { automaticBackupsSchedule: saved };
+    },
   });
+  return saved;
 };
 
-const getErrorMessage = (error: unknown): string =>
-  error instanceof Error ? error.message : "Unknown error";
-
-const executeScopedBackup = async (
-  scope: BackupCadence,
-  options: BackupExecutionOptions = {},
-): Promise<ScopedBackupResult> => {
-  const apiToken = resolveApiToken(options.apiToken);
-  assignApiTokenToProcessEnv(apiToken);
+const RUN_LOCK_PARAMETER = "automaticBackupsLock";
+const RUN_LOCK_TTL_MS = 15 * 60 * 1000;
 
-  const now = options.now ?? new Date();
-  const client = buildClient({ apiToken });
-  const environments = await client.environments.list();
+const toRunLock = (value: unknown): BackupRunLock | null => {
+  if (!isObject(value)) {
+    return null;
+  }
 
-  const mainEnvironment = environments.find((environment) => environment.meta.primary);
-  if (!mainEnvironment) {
-    throw new Error("Could not locate the primary DatoCMS environment.");
+  const owner = toOptionalString(value.owner);
+  const expiresAt = toOptionalString(value.expiresAt);
+  if (!owner || !expiresAt || Number.isNaN(Date.parse(expiresAt))) {
+    return null;
   }
 
-  const prefix = getEnvironmentPrefix(scope);
-  const previousBackups = environments.filter(
-    (environment) =>
-      !environment.meta.primary && environment.id.startsWith(`${prefix}-`),
-  );
+  return {
+    owner,
+    provider:
+      value.provider === "vercel" ||
+      value.provider === "netlify" ||
+      value.provider === "cloudflare"
+        ? value.provider
+        : "unknown",
+    acquiredAt: toOptionalString(value.acquiredAt) ?? expiresAt,
+    expiresAt,
+  };
+};
+
+const readRunLock = async (
+  context: BackupContext,
+): Promise<{ parameters: Record<string, unknown>; lock: BackupRunLock | null }> => {
+  const parameters = await readPluginParameters(context.client);
+  return { parameters, lock: toRunLock(parameters[RUN_LOCK_PARAMETER]) };
+};
 
-  // Intentional order: delete before fork to avoid temporary double-backup overlap
-  // that can push clients into environment overages during rotation windows.
-  for (const previousBackup of previousBackups) {
-    await client.environments.destroy(previousBackup.id);
+const releaseRunLock = async ({
+  context,
+  pluginId,
+  owner,
+}: {
+  context: BackupContext;
+  pluginId: string;
+  owner: string;
+}) => {
+  const current = await readRunLock(context);
+  if (current.lock?.owner !== owner) {
+    return;
   }
 
-  const createdEnvironmentId = `${prefix}-${getDateSuffix(now)}`;
-  await client.environments.fork(mainEnvironment.id, {
-    id: createdEnvironmentId,
+  await mergePluginParameters({
+    client: context.client,
+    pluginId,
+    updates: { [RUN_LOCK_PARAMETER]: undefined },
   });
-
-  return {
-    scope,
-    createdEnvironmentId,
-    deletedEnvironmentId: previousBackups[0]?.id ?? null,
-  };
 };
 
-const executeCadencesAndPersistState = async ({
+/**
+ * Takes the lease in the plugin's `automaticBackupsLock` parameter, so cron
+ * triggers, manual backups and other deployments never rotate the same project at
+ * once. Plugin parameters have no compare-and-set, so the lease is read back after
+ * writing and the caller backs off if another owner won. A lease past its expiry
+ * (a run that crashed) is taken over.
+ */
+const acquireRunLock = async ({
   context,
-  cadences,
+  pluginId,
+  provider,
   now,
 }: {
   context: BackupContext;
-  cadences: BackupCadence[];
+  pluginId: string;
+  provider: SchedulerProvider;
   now: Date;
-}): Promise<ScheduledCadenceExecutionResult[]> => {
-  const currentLocalDate = toLocalDateKey(now, context.scheduleConfig.timezone);
-  const scheduleState = context.scheduleState;
-  const runLocalDateByCadence: Partial<Record<BackupCadence, string>> = {
-    ...(scheduleState.lastRunLocalDateByCadence ?? {}),
-  };
-  const runAtByCadence: Partial<Record<BackupCadence, string>> = {
-    ...(scheduleState.lastRunAtByCadence ?? {}),
-  };
-  const managedEnvironmentIdByCadence: Partial<Record<BackupCadence, string>> = {
-    ...(scheduleState.lastManagedEnvironmentIdByCadence ?? {}),
-  };
-  const executionModeByCadence: Partial<Record<BackupCadence, "lambda_cron">> = {
-    ...(scheduleState.lastExecutionModeByCadence ?? {}),
-  };
-  const errorByCadence: Partial<Record<BackupCadence, string>> = {
-    ...(scheduleState.lastErrorByCadence ?? {}),
-  };
-
-  const results: ScheduledCadenceExecutionResult[] = [];
-
-  for (const cadence of cadences) {
-    try {
-      const result = await executeScopedBackup(cadence, {
-        apiToken: context.apiToken,
-        now,
-      });
-      const completedAt = new Date().toISOString();
-
-      runLocalDateByCadence[cadence] = currentLocalDate;
-      runAtByCadence[cadence] = completedAt;
-      managedEnvironmentIdByCadence[cadence] = result.createdEnvironmentId;
-      executionModeByCadence[cadence] = "lambda_cron";
-      delete errorByCadence[cadence];
-
-      results.push({
-        scope: cadence,
-        status: "executed",
-        result,
-      });
-    } catch (error) {
-      const message = getErrorMessage(error);
-      errorByCadence[cadence] = message;
-      results.push({
-        scope: cadence,
-        status: "failed",
-        error: message,
-      });
-    }
+}): Promise<{ owner: string; parameters: Record<string, unknown> }> => {
+  const current = await readRunLock(context);
+  if (current.lock && Date.parse(current.lock.expiresAt) > now.getTime()) {
+    throw new BackupAlreadyRunningError(current.lock);
   }
 
-  if (context.pluginId && cadences.length > 0) {
-    const nextState: AutomaticBackupsScheduleState = {
-      ...scheduleState,
-      lastRunLocalDateByCadence: runLocalDateByCadence,
-      lastRunAtByCadence: runAtByCadence,
-      lastManagedEnvironmentIdByCadence: managedEnvironmentIdByCadence,
-      lastExecutionModeByCadence: executionModeByCadence,
-      lastErrorByCadence: errorByCadence,
-    };
-
-    if (runLocalDateByCadence.daily) {
-      nextState.dailyLastRunDate = runLocalDateByCadence.daily;
-    }
-    if (runAtByCadence.daily) {
-      nextState.lastDailyRunAt = runAtByCadence.daily;
-      nextState.lastDailyExecutionMode = executionModeByCadence.daily;
-      nextState.lastDailyManagedEnvironmentId = managedEnvironmentIdByCadence.daily;
-      nextState.lastDailyError = errorByCadence.daily;
-    }
-
-    if (runLocalDateByCadence.weekly) {
-      nextState.weeklyLastRunKey = toUtcIsoWeekKey(now);
-    }
-    if (runAtByCadence.weekly) {
-      nextState.lastWeeklyRunAt = runAtByCadence.weekly;
-      nextState.lastWeeklyExecutionMode = executionModeByCadence.weekly;
-      nextState.lastWeeklyManagedEnvironmentId = managedEnvironmentIdByCadence.weekly;
-      nextState.lastWeeklyError = errorByCadence.weekly;
-    }
+  const lock: BackupRunLock = {
+    owner: globalThis.crypto.randomUUID(),
+    provider,
+    acquiredAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + RUN_LOCK_TTL_MS).toISOString(),
+  };
+  // Written once: retrying would overwrite a lease another run just took.
+  await mergePluginParameters({
+    client: context.client,
+    pluginId,
+    updates: { [RUN_LOCK_PARAMETER]: lock },
+  });
 
-    await persistScheduleState({
-      context,
-      scheduleState: nextState,
-    });
+  const confirmed = await readRunLock(context);
+  if (confirmed.lock?.owner !== lock.owner) {
+    throw new BackupAlreadyRunningError(confirmed.lock ?? lock);
   }
 
-  return results;
+  return { owner: lock.owner, parameters: confirmed.parameters };
 };
 
-const getDueCadences = ({
+/**
+ * Extends the lease by another `RUN_LOCK_TTL_MS` from the current time. Returns
+ * `false` when the lease is no longer held by `owner`: it expired and another run
+ * took it over.
+ */
+const renewRunLock = async ({
   context,
-  now,
+  pluginId,
+  owner,
 }: {
   context: BackupContext;
-  now: Date;
-}): BackupCadence[] => {
-  const currentLocalDate = toLocalDateKey(now, context.scheduleConfig.timezone);
-
-  return context.scheduleConfig.enabledCadences.filter((cadence) => {
-    const lastRunLocalDate = getLastRunLocalDateForCadence({
-      scheduleState: context.scheduleState,
-      cadence,
-      now,
-      timezone: context.scheduleConfig.timezone,
-    });
+  pluginId: string;
+  owner: string;
+}): Promise<boolean> => {
+  const current = await readRunLock(context);
+  if (current.lock?.owner !== owner) {
+    return false;
+  }
 
-    return isCadenceDueNow({
+  await mergePluginParameters({
+    client: context.client,
+    pluginId,
+    updates: {
+      [RUN_LOCK_PARAMETER]: {
+        ...current.lock,
+        expiresAt: new Date(Date.now() + RUN_LOCK_TTL_MS).toISOString(),
+      },
+    },
+  });
+
+  const confirmed = await readRunLock(context);
+  return confirmed.lock?.owner === owner;
+};
+
+// Resolves to `false` once the run no longer holds the lease.
+type RenewRunLock = () => Promise<boolean>;
+
+/**
+ * Runs `run` while holding the run lock, with the schedule state read when the
+ * lease was confirmed. `run` receives a callback that renews the lease; a failed
+ * renewal counts as a lost lease.
+ */
+const withRunLock = async <Result>(
+  {
+    context,
+    provider,
+    now,
+  }: {
+    context: BackupContext;
+    provider: SchedulerProvider;
+    now: Date;
+  },
+  run: (context: BackupContext, renewLock: RenewRunLock) => Promise<Result>,
+): Promise<Result> => {
+  const pluginId = context.pluginId;
+  if (!pluginId) {
+    return run(context, async () => true);
+  }
+
+  const { owner, parameters } = await acquireRunLock({ context, pluginId, provider, now });
+  try {
+    return await run(
+      {
+        ...context,
+        scheduleState: toScheduleState(parameters.automaticBackupsSchedule),
+      },
+      () => renewRunLock({ context, pluginId, owner }).catch(() => false),
+    );
+  } finally {
+    await releaseRunLock({ context, pluginId, owner }).catch(() => {
+      // An unreleased lease expires on its own.
+    });
+  }
+};
+
+const getErrorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : "Unknown error";
+
+const toBackupFailureCode = (error: unknown): BackupFailureCode =>
+  error instanceof EnvironmentQuotaExceededError
+    ? "ENVIRONMENT_QUOTA_EXCEEDED"
+    : error instanceof SourceEnvironmentNotFoundError
+      ? "SOURCE_ENVIRONMENT_NOT_FOUND"
+      : "BACKUP_FAILED";
+
+type ScopedBackupOptions = BackupExecutionOptions & {
+  retention?: number;
+  rotationMode?: BackupRotationMode;
+  pinnedEnvironmentIds?: string[];
+  // Counted towards retention but never pruned, such as the run's snapshots.
+  protectedEnvironmentIds?: string[];
+  sourceEnvironmentId?: string;
+  snapshotEnvironmentId?: string;
+  // Custom slots keep their environments under their own prefix.
+  environmentPrefix?: string;
+  // `false` starts the fork and returns: generations that would be pruned after it
+  // are returned in `pendingDeletionEnvironmentIds` instead of being destroyed, and
+  // the generations safe rotation holds in `heldEnvironmentIds`.
+  waitForFork?: boolean;
+};
+
+const countSandboxEnvironments = (environments: Array<{ meta: { primary: boolean } }>) =>
+  environments.filter((environment) => !environment.meta.primary).length;
+
+/**
+ * Reads the plan's sandbox environment limit, or returns `null` when it cannot be
+ * read with the current token. `limit` and `headroom` are `null` on unlimited plans.
+ */
+const readEnvironmentQuota = async (
+  client: BackupClient,
+  environments: Array<{ meta: { primary: boolean } }>,
+): Promise<EnvironmentQuota | null> => {
+  try {
+    const limit = await client.subscriptionLimits.find(
+      SANDBOX_ENVIRONMENTS_LIMIT_CODE,
+    );
+    const usage =
+      typeof limit.usage === "number" ? limit.usage : countSandboxEnvironments(environments);
+    if (typeof limit.limit !== "number") {
+      return { limit: null, usage, headroom: null };
+    }
+
+    return { limit: limit.limit, usage, headroom: limit.limit - usage };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Like `readEnvironmentQuota`, but reports an unreadable limit as unlimited with
+ * usage counted from the non-primary environments.
+ */
+const getEnvironmentQuota = async (
+  client: BackupClient,
+  environments: Array<{ meta: { primary: boolean } }>,
+): Promise<EnvironmentQuota> =>
+  (await readEnvironmentQuota(client, environments)) ?? {
+    limit: null,
+    usage: countSandboxEnvironments(environments),
+    headroom: null,
+  };
+
+const canFitFork = (quota: EnvironmentQuota, freedSlots: number): boolean =>
+  quota.headroom === null || quota.headroom + freedSlots >= 1;
+
+const verifyForkedEnvironment = async (
+  client: BackupClient,
+  environmentId: string,
+) => {
+  const environment = await client.environments.find(environmentId);
+  if (environment.meta.status !== "ready") {
+    throw new Error(
+      `Forked environment "${environmentId}" is not ready (status: ${environment.meta.status}).`,
+    );
+  }
+};
+
+const destroyEnvironmentIfPresent = async (
+  client: BackupClient,
+  environmentId: string,
+) => {
+  const environments = await client.environments.list();
+  if (environments.some((environment) => environment.id === environmentId)) {
+    await client.environments.destroy(environmentId);
+  }
+};
+
+const toHoldingEnvironmentId = (environmentId: string) =>
+  `${HOLDING_ENVIRONMENT_PREFIX}-${environmentId}`;
+
+/**
+ * Rolls back a safe rotation whose fork failed: deletes what the fork left behind
+ * and gives every held generation its ID back. Each step is attempted on its own,
+ * since a generation left under its holding ID is outside every prefix, where
+ * rotation and status would never see it again.
+ */
+const restoreHeldBackups = async ({
+  client,
+  createdEnvironmentId,
+  heldEnvironmentIds,
+}: {
+  client: BackupClient;
+  // `null` when the fork was never started.
+  createdEnvironmentId: string | null;
+  heldEnvironmentIds: string[];
+}) => {
+  if (createdEnvironmentId) {
+    try {
+      await destroyEnvironmentIfPresent(client, createdEnvironmentId);
+    } catch {
+      // The failed fork is left for the next rotation to prune.
+    }
+  }
+
+  for (const environmentId of heldEnvironmentIds) {
+    try {
+      await client.environments.rename(toHoldingEnvironmentId(environmentId), {
+        id: environmentId,
+      });
+    } catch {
+      // Keep restoring the remaining generations.
+    }
+  }
+};
+
+/**
+ * Holds the same-day generations under a holding ID while the fork runs. When the
+ * fork is waited for, it is verified and the old generations are deleted; an
+ * unattended fork leaves them held for its job to delete or restore. A failed
+ * fork is rolled back and its own error rethrown.
+ */
+const forkWithSafeRotation = async ({
+  client,
+  fork,
+  createdEnvironmentId,
+  replacedBackups,
+  prunedBackups,
+  waitForFork,
+}: {
+  client: BackupClient;
+  fork: () => Promise<unknown>;
+  createdEnvironmentId: string;
+  replacedBackups: BackupEnvironment[];
+  prunedBackups: BackupEnvironment[];
+  waitForFork: boolean;
+}) => {
+  const heldEnvironmentIds: string[] = [];
+  let forkStarted = false;
+  try {
+    for (const backup of replacedBackups) {
+      await client.environments.rename(backup.id, { id: toHoldingEnvironmentId(backup.id) });
+      heldEnvironmentIds.push(backup.id);
+    }
+    forkStarted = true;
+    await fork();
+    if (waitForFork) {
+      await verifyForkedEnvironment(client, createdEnvironmentId);
+    }
+  } catch (error) {
+    await restoreHeldBackups({
+      client,
+      createdEnvironmentId: forkStarted ? createdEnvironmentId : null,
+      heldEnvironmentIds,
+    });
+    throw error;
+  }
+
+  if (!waitForFork) {
+    return;
+  }
+
+  for (const environmentId of heldEnvironmentIds) {
+    await client.environments.destroy(toHoldingEnvironmentId(environmentId));
+  }
+  for (const backup of prunedBackups) {
+    await client.environments.destroy(backup.id);
+  }
+};
+
+const executeScopedBackup = async (
+  scope: BackupCadence,
+  options: ScopedBackupOptions = {},
+): Promise<ScopedBackupResult> => {
+  // The token comes from the backup context, which already resolved it.
+  const apiToken = resolveApiToken(options.apiToken);
+
+  const now = options.now ?? new Date();
+  const retention = options.retention ?? DEFAULT_RETENTION;
+  const client = options.client ?? buildClient({ apiToken });
+  const environments = await client.environments.list();
+
+  // The source is checked on every run: a sandbox configured as source may have
+  // been deleted or renamed since the schedule was saved.
+  const sourceEnvironment = options.sourceEnvironmentId
+    ? environments.find((environment) => environment.id === options.sourceEnvironmentId)
+    : environments.find((environment) => environment.meta.primary);
+  if (!sourceEnvironment) {
+    if (options.sourceEnvironmentId) {
+      throw new SourceEnvironmentNotFoundError(options.sourceEnvironmentId);
+    }
+
+    throw new Error("Could not locate the primary DatoCMS environment.");
+  }
+
+  const { snapshotEnvironmentId } = options;
+  if (
+    snapshotEnvironmentId &&
+    !environments.some((environment) => environment.id === snapshotEnvironmentId)
+  ) {
+    throw new Error(`Snapshot environment "${snapshotEnvironmentId}" no longer exists.`);
+  }
+
+  const prefix = options.environmentPrefix ?? getEnvironmentPrefix(scope);
+  const createdEnvironmentId = `${prefix}-${getEnvironmentSuffix(scope, now)}`;
+  const pinnedEnvironmentIds = new Set(options.pinnedEnvironmentIds ?? []);
+  if (pinnedEnvironmentIds.has(createdEnvironmentId)) {
+    throw new Error(
+      `Backup environment "${createdEnvironmentId}" is pinned. Unpin it before running this cadence again today.`,
+    );
+  }
+
+  // Pinned backups are kept outside rotation: they are never pruned and do not
+  // count towards the cadence's retention.
+  const previousBackups = sortBackupsNewestFirst(
+    environments.filter(
+      (environment) =>
+        isGenerationOfPrefix(environment, prefix) &&
+        !pinnedEnvironmentIds.has(environment.id),
+    ),
+  );
+  if (previousBackups.some((environment) => environment.id === sourceEnvironment.id)) {
+    throw new Error(
+      `Source environment "${sourceEnvironment.id}" is a ${prefix} backup and would be rotated out.`,
+    );
+  }
+
+  const replacedBackups = previousBackups.filter(
+    (environment) => environment.id === createdEnvironmentId,
+  );
+  const prunedBackups = previousBackups
+    .filter((environment) => environment.id !== createdEnvironmentId)
+    .slice(Math.max(retention - 1, 0))
+    .filter((environment) => !options.protectedEnvironmentIds?.includes(environment.id));
+
+  const rotatedOutBackups = [...replacedBackups, ...prunedBackups];
+  const waitForFork = options.waitForFork ?? true;
+  const forkQueryParams = waitForFork ? undefined : { immediate_return: true };
+  // A snapshot taken earlier in the same run is never written to, so it can be
+  // fast-forked without blocking editors the way a fast fork of the primary would.
+  const fork = () =>
+    snapshotEnvironmentId
+      ? client.environments.fork(
+          snapshotEnvironmentId,
+          { id: createdEnvironmentId },
+          { fast: true, ...forkQueryParams },
+        )
+      : client.environments.fork(
+          sourceEnvironment.id,
+          { id: createdEnvironmentId },
+          forkQueryParams,
+        );
+  const quota = await readEnvironmentQuota(client, environments);
+  // An unattended fork is verified when its job settles, which then deletes or
+  // restores the held generations.
+  const safeRotation = options.rotationMode === "safe";
+  const slotsFreedBeforeFork = safeRotation ? 0 : replacedBackups.length;
+  let pendingDeletionBackups: BackupEnvironment[] = [];
+  let heldBackups: BackupEnvironment[] = [];
+
+  // Without a readable limit the fork is attempted next to the old generations:
+  // a fork the plan has no room for fails without having cost any of them.
+  if (quota && !canFitFork(quota, slotsFreedBeforeFork)) {
+    if (!canFitFork(quota, rotatedOutBackups.length)) {
+      throw new EnvironmentQuotaExceededError(quota);
+    }
+
+    // Keeping old generations alive during the fork would push the project into an
+    // environment overage, so free their slots first.
+    for (const backup of rotatedOutBackups) {
+      await client.environments.destroy(backup.id);
+    }
+
+    await fork();
+  } else if (safeRotation) {
+    await forkWithSafeRotation({
+      client,
+      fork,
+      createdEnvironmentId,
+      replacedBackups,
+      prunedBackups,
+      waitForFork,
+    });
+    if (!waitForFork) {
+      heldBackups = replacedBackups;
+      pendingDeletionBackups = prunedBackups;
+    }
+  } else {
+    // A same-day re-run reuses the target ID, so that generation has to be removed
+    // before forking. Every other generation is only pruned once the fork succeeded,
+    // so a failed fork never leaves the cadence with fewer backups than before.
+    for (const replacedBackup of replacedBackups) {
+      await client.environments.destroy(replacedBackup.id);
+    }
+
+    await fork();
+
+    if (waitForFork) {
+      for (const prunedBackup of prunedBackups) {
+        await client.environments.destroy(prunedBackup.id);
+      }
+    } else {
+      pendingDeletionBackups = prunedBackups;
+    }
+  }
+
+  const deletedEnvironmentIds = rotatedOutBackups
+    .filter(
+      (environment) =>
+        !pendingDeletionBackups.includes(environment) && !heldBackups.includes(environment),
+    )
+    .map((environment) => environment.id);
+
+  return {
+    scope,
+    createdEnvironmentId,
+    deletedEnvironmentIds,
+    deletedEnvironmentId: deletedEnvironmentIds[0] ?? null,
+    sourceEnvironmentId: sourceEnvironment.id,
+    ...(snapshotEnvironmentId ? { derivedFromEnvironmentId: snapshotEnvironmentId } : {}),
+    ...(waitForFork
+      ? {}
+      : {
+          pendingDeletionEnvironmentIds: pendingDeletionBackups.map(
+            (environment) => environment.id,
+          ),
+          ...(heldBackups.length > 0
+            ? { heldEnvironmentIds: heldBackups.map((environment) => environment.id) }
+            : {}),
+        }),
+  };
+};
+
+type GfsPromotion = {
+  scope: BackupCadence;
+  fromEnvironmentId: string;
+  toEnvironmentId: string;
+};
+
+type GfsRetentionResult = {
+  promotions: GfsPromotion[];
+  deletedEnvironmentIdsByCadence: Partial<Record<BackupCadence, string[]>>;
+};
+
+/**
+ * Returns the `YYYY-MM-DD` (or `YYYY-MM-DD-HH` for sub-daily cadences) suffix a
+ * generation was taken on, falling back to its creation timestamp.
+ */
+const getGenerationKey = (environment: BackupEnvironment, prefix: string): string => {
+  const suffix = environment.id.slice(prefix.length + 1);
+  if (parseLocalDateKey(suffix.slice(0, 10))) {
+    return /^-\d{2}$/.test(suffix.slice(10, 13)) ? suffix.slice(0, 13) : suffix.slice(0, 10);
+  }
+
+  return `${environment.meta.created_at.slice(0, 10)}-${environment.meta.created_at.slice(11, 13)}`;
+};
+
+const getGenerationHour = (generationKey: string): number =>
+  Number(generationKey.slice(11, 13)) || 0;
+
+const toEnvironmentSuffixForTier = (cadence: BackupCadence, generationKey: string) =>
+  HOUR_SUFFIXED_CADENCES.includes(cadence)
+    ? `${generationKey.slice(0, 10)}-${pad2(getGenerationHour(generationKey))}`
+    : generationKey.slice(0, 10);
+
+/**
+ * Identifies the period of a tier that a snapshot taken at `generationKey` belongs
+ * to. Two generations with the same key are redundant within that tier. Like the
+ * due-date logic, every period longer than a day counts from `anchorLocalDate`:
+ * weeks in days, months, quarters and years in calendar months, so each quarter
+ * and year is made of whole monthly periods.
+ */
+const getTierPeriodKey = (
+  cadence: BackupCadence,
+  generationKey: string,
+  config: BackupScheduleConfig,
+): string => {
+  const dateKey = generationKey.slice(0, 10);
+  const dayDiff = getDayDiff(config.anchorLocalDate, dateKey);
+  switch (cadence) {
+    case "hourly":
+    case "cron":
+      return `${dateKey}-${pad2(getGenerationHour(generationKey))}`;
+    case "every_n_hours":
+      return `h${Math.floor((dayDiff * 24 + getGenerationHour(generationKey)) / config.everyNHours)}`;
+    case "daily":
+      return dateKey;
+    case "weekly":
+      return `w${Math.floor(dayDiff / 7)}`;
+    case "biweekly":
+      return `b${Math.floor(dayDiff / 14)}`;
+    case "monthly":
+    case "quarterly":
+    case "yearly":
+      return `m${Math.floor(
+        getMonthDiff(config.anchorLocalDate, dateKey) / getMonthInterval(cadence),
+      )}`;
+  }
+};
+
+/**
+ * Grandfather-father-son retention: the enabled cadences other than `cron` form
+ * tiers from the shortest to the longest period. Generations that overflow a tier's retention
+ * are renamed into the next tier when that tier has no backup for the same
+ * period yet, and deleted otherwise. The last tier simply prunes its oldest
+ * generations. Protected generations count towards their tier but are left in
+ * place, to be handled by a later pass.
+ */
+const applyGfsRetention = async ({
+  client,
+  config,
+  pinnedEnvironmentIds,
+  protectedEnvironmentIds = [],
+}: {
+  client: BackupClient;
+  config: BackupScheduleConfig;
+  pinnedEnvironmentIds: string[];
+  protectedEnvironmentIds?: string[];
+}): Promise<GfsRetentionResult> => {
+  const tiers = getGfsTiers(config);
+  const environments = (await client.environments.list()) as BackupEnvironment[];
+  const promotions: GfsPromotion[] = [];
+  const deletedEnvironmentIdsByCadence: Partial<Record<BackupCadence, string[]>> = {};
+  let carriedOver: BackupEnvironment[] = [];
+
+  for (const [index, tier] of tiers.entries()) {
+    const prefix = getEnvironmentPrefix(tier);
+    const generations = sortBackupsNewestFirst([
+      ...environments.filter(
+        (environment) =>
+          isGenerationOfPrefix(environment, prefix) &&
+          !pinnedEnvironmentIds.includes(environment.id),
+      ),
+      ...carriedOver,
+    ]);
+    const overflow = generations
+      .slice(getRetentionForCadence(config, tier))
+      .filter((generation) => !protectedEnvironmentIds.includes(generation.id))
+      .reverse();
+    const nextTier = tiers[index + 1];
+    carriedOver = [];
+
+    for (const generation of overflow) {
+      if (!nextTier) {
+        await client.environments.destroy(generation.id);
+        (deletedEnvironmentIdsByCadence[tier] ??= []).push(generation.id);
+        continue;
+      }
+
+      const nextPrefix = getEnvironmentPrefix(nextTier);
+      const generationKey = getGenerationKey(generation, prefix);
+      const periodKey = getTierPeriodKey(nextTier, generationKey, config);
+      // Pinned backups sit outside every tier, so they never cover a period.
+      const periodCovered = [
+        ...environments.filter(
+          (environment) =>
+            isGenerationOfPrefix(environment, nextPrefix) &&
+            !pinnedEnvironmentIds.includes(environment.id),
+        ),
+        ...carriedOver,
+      ].some(
+        (environment) =>
+          getTierPeriodKey(nextTier, getGenerationKey(environment, nextPrefix), config) ===
+          periodKey,
+      );
+
+      if (periodCovered) {
+        await client.environments.destroy(generation.id);
+        (deletedEnvironmentIdsByCadence[tier] ??= []).push(generation.id);
+        continue;
+      }
+
+      const promotedId = `${nextPrefix}-${toEnvironmentSuffixForTier(nextTier, generationKey)}`;
+      await client.environments.rename(generation.id, { id: promotedId });
+      promotions.push({
+        scope: nextTier,
+        fromEnvironmentId: generation.id,
+        toEnvironmentId: promotedId,
+      });
+      carriedOver.push({ ...generation, id: promotedId });
+    }
+  }
+
+  return { promotions, deletedEnvironmentIdsByCadence };
+};
+
+const getAttemptPeriodKey = ({
+  config,
+  slot,
+  now,
+}: {
+  config: BackupScheduleConfig;
+  slot: BackupSlot;
+  now: Date;
+}): string => {
+  if (slot.cadence === "cron" && slot.cronExpression) {
+    const currentLocalTime = toLocalMinuteKey(now, config.timezone);
+    return (
+      getLatestCronOccurrence({
+        cronExpression: slot.cronExpression,
+        anchorLocalDate: config.anchorLocalDate,
+        currentLocalTime,
+      }) ?? currentLocalTime
+    );
+  }
+
+  return SUB_DAILY_CADENCES.includes(slot.cadence)
+    ? toLocalHourKey(now, config.timezone)
+    : toScheduleLocalDateKey(now, config);
+};
+
+const hasExhaustedAttempts = ({
+  context,
+  slot,
+  now,
+}: {
+  context: BackupContext;
+  slot: BackupSlot;
+  now: Date;
+}): boolean => {
+  const attempts = context.scheduleState.failedAttemptsByCadence?.[slot.key];
+  const periodKey = getAttemptPeriodKey({ config: context.scheduleConfig, slot, now });
+  return (
+    attempts?.periodKey === periodKey && attempts.count >= context.scheduleConfig.maxAttempts
+  );
+};
+
+/**
+ * Copies the daily and weekly slot state into the flat fields older plugin
+ * versions read.
+ */
+const withLegacyCadenceFields = (
+  scheduleState: AutomaticBackupsScheduleState,
+  now: Date,
+): AutomaticBackupsScheduleState => {
+  const nextState = { ...scheduleState };
+  const runLocalDateByCadence = scheduleState.lastRunLocalDateByCadence ?? {};
+  const runAtByCadence = scheduleState.lastRunAtByCadence ?? {};
+  const executionModeByCadence = scheduleState.lastExecutionModeByCadence ?? {};
+  const managedEnvironmentIdByCadence =
+    scheduleState.lastManagedEnvironmentIdByCadence ?? {};
+  const errorByCadence = scheduleState.lastErrorByCadence ?? {};
+
+  if (runLocalDateByCadence.daily) {
+    nextState.dailyLastRunDate = runLocalDateByCadence.daily;
+  }
+  if (runAtByCadence.daily) {
+    nextState.lastDailyRunAt = runAtByCadence.daily;
+    nextState.lastDailyExecutionMode = executionModeByCadence.daily;
+    nextState.lastDailyManagedEnvironmentId = managedEnvironmentIdByCadence.daily;
+    nextState.lastDailyError = errorByCadence.daily;
+  }
+
+  if (runLocalDateByCadence.weekly) {
+    nextState.weeklyLastRunKey = toUtcIsoWeekKey(now);
+  }
+  if (runAtByCadence.weekly) {
+    nextState.lastWeeklyRunAt = runAtByCadence.weekly;
+    nextState.lastWeeklyExecutionMode = executionModeByCadence.weekly;
+    nextState.lastWeeklyManagedEnvironmentId = managedEnvironmentIdByCadence.weekly;
+    nextState.lastWeeklyError = errorByCadence.weekly;
+  }
+
+  return nextState;
+};
+
+const executeSlotsAndPersistState = async ({
+  context,
+  slots,
+  now,
+  catchUpSlotKeys = [],
+  stagger,
+  timeBudget,
+  renewLock,
+}: {
+  context: BackupContext;
+  slots: BackupSlot[];
+  now: Date;
+  catchUpSlotKeys?: string[];
+  // Scheduled runs only; manual backups start right away.
+  stagger?: ResolvedStagger;
+  // Scheduled runs only: the slots are marked pending before the first fork, so
+  // a run deferred or cut short resumes them on the next trigger.
+  timeBudget?: ResolvedTimeBudget;
+  // Renews the run lock before every slot after the first. Once the lease is
+  // lost, the remaining slots are deferred and nothing more is saved.
+  renewLock?: RenewRunLock;
+}): Promise<ScheduledCadenceExecutionResult[]> => {
+  const currentLocalDate = toScheduleLocalDateKey(now, context.scheduleConfig);
+  const currentLocalHour = toLocalHourKey(now, context.scheduleConfig.timezone);
+  const scheduleState = context.scheduleState;
+  const runLocalDateByCadence: SlotStateMap<string> = {
+    ...(scheduleState.lastRunLocalDateByCadence ?? {}),
+  };
+  const runLocalHourByCadence: SlotStateMap<string> = {
+    ...(scheduleState.lastRunLocalHourByCadence ?? {}),
+  };
+  const runLocalOccurrenceByCadence: SlotStateMap<string> = {
+    ...(scheduleState.lastRunLocalOccurrenceByCadence ?? {}),
+  };
+  const runAtByCadence: SlotStateMap<string> = {
+    ...(scheduleState.lastRunAtByCadence ?? {}),
+  };
+  const managedEnvironmentIdByCadence: SlotStateMap<string> = {
+    ...(scheduleState.lastManagedEnvironmentIdByCadence ?? {}),
+  };
+  const executionModeByCadence: SlotStateMap<"lambda_cron"> = {
+    ...(scheduleState.lastExecutionModeByCadence ?? {}),
+  };
+  const errorByCadence: SlotStateMap<string> = {
+    ...(scheduleState.lastErrorByCadence ?? {}),
+  };
+  const failedAttemptsByCadence: SlotStateMap<CadenceAttempts> = {
+    ...(scheduleState.failedAttemptsByCadence ?? {}),
+  };
+  const pendingPeriodByCadence: SlotStateMap<string> = {
+    ...(scheduleState.pendingPeriodByCadence ?? {}),
+  };
+  // The pending periods each finished slot covered. A trigger that found the lock
+  // held may have recorded its due slots since the run started; only the entries
+  // this run settled are removed from the latest save.
+  const settledPeriodsBySlot = new Map<string, string[]>();
+  const settlePending = (slot: BackupSlot) => {
+    const periods = [getAttemptPeriodKey({ config: context.scheduleConfig, slot, now })];
+    const pendingPeriod = pendingPeriodByCadence[slot.key];
+    if (pendingPeriod) {
+      periods.push(pendingPeriod);
+    }
+    settledPeriodsBySlot.set(slot.key, periods);
+    delete pendingPeriodByCadence[slot.key];
+  };
+
+  // Pins saved while the run is in progress are picked up after every slot.
+  let pinnedEnvironmentIds = scheduleState.pinnedEnvironmentIds ?? [];
+
+  // Saved after every slot, so the slots already backed up are recorded even if
+  // the platform stops the invocation before the run ends. Only the slot fields
+  // the run owns are written; the rest of the state is taken from the latest save.
+  const persistProgress = async () => {
+    const saved = await persistScheduleState({
+      context,
+      update: (current) =>
+        withLegacyCadenceFields(
+          {
+            ...current,
+            lastRunLocalDateByCadence: runLocalDateByCadence,
+            lastRunLocalHourByCadence: runLocalHourByCadence,
+            lastRunLocalOccurrenceByCadence: runLocalOccurrenceByCadence,
+            lastRunAtByCadence: runAtByCadence,
+            lastManagedEnvironmentIdByCadence: managedEnvironmentIdByCadence,
+            lastExecutionModeByCadence: executionModeByCadence,
+            lastErrorByCadence: errorByCadence,
+            failedAttemptsByCadence,
+            pendingPeriodByCadence: {
+              ...Object.fromEntries(
+                Object.entries(current.pendingPeriodByCadence ?? {}).filter(
+                  ([key, period]) =>
+                    !period || !settledPeriodsBySlot.get(key)?.includes(period),
+                ),
+              ),
+              ...pendingPeriodByCadence,
+            },
+          },
+          now,
+        ),
+    });
+    pinnedEnvironmentIds = saved.pinnedEnvironmentIds ?? [];
+  };
+
+  if (timeBudget && slots.length > 0) {
+    for (const slot of slots) {
+      pendingPeriodByCadence[slot.key] ??= getAttemptPeriodKey({
+        config: context.scheduleConfig,
+        slot,
+        now,
+      });
+    }
+    await persistProgress();
+  }
+
+  const results: ScheduledCadenceExecutionResult[] = [];
+  // A slot is only started while the remaining budget still covers the longest
+  // slot of this run; the first slot always gets a chance unless none is left.
+  let longestSlotMs = 0;
+  // The first successful fork of each source environment is the run's snapshot of
+  // it; every other slot due in the same run with that source is derived from it.
+  // Slots without a configured source share the `undefined` key.
+  const snapshotEnvironmentIdBySource = new Map<string | undefined, string>();
+
+  // Later slots may still fast-fork from a snapshot, so rotation and GFS leave the
+  // run's snapshots in place until the run ends. Unlike pins, they still count
+  // towards retention.
+  const getSnapshotEnvironmentIds = () => [...snapshotEnvironmentIdBySource.values()];
+  let lockLost = false;
+
+  for (const [index, slot] of slots.entries()) {
+    const { cadence, key, sourceEnvironmentId } = slot;
+    const slotName = toSlotName(slot);
+    const trigger = catchUpSlotKeys.includes(key) ? { trigger: "catch_up" as const } : {};
+    const usesGfsRetention = isGfsTierSlot(context.scheduleConfig, slot);
+
+    if (timeBudget && timeBudget.deadline !== null) {
+      const remainingMs = timeBudget.deadline - timeBudget.clock();
+      if (remainingMs <= 0 || remainingMs < longestSlotMs) {
+        results.push({ scope: cadence, ...slotName, status: "deferred", ...trigger });
+        continue;
+      }
+    }
+
+    // The run that took over the lease now owns the schedule state.
+    if (lockLost || (renewLock && index > 0 && !(await renewLock()))) {
+      lockLost = true;
+      results.push({ scope: cadence, ...slotName, status: "deferred", ...trigger });
+      continue;
+    }
+
+    await waitForJitter(stagger);
+    const startedAt = new Date().toISOString();
+    const slotStartedMs = timeBudget?.clock() ?? 0;
+
+    try {
+      // Under GFS the fork itself prunes nothing: overflowing generations are
+      // promoted or deleted by the GFS pass that follows.
+      const result = await executeScopedBackup(cadence, {
+        apiToken: context.apiToken,
+        client: context.client,
+        now,
+        retention: usesGfsRetention ? Number.POSITIVE_INFINITY : slot.retention,
+        rotationMode: context.scheduleConfig.rotationMode,
+        pinnedEnvironmentIds,
+        protectedEnvironmentIds: getSnapshotEnvironmentIds(),
+        sourceEnvironmentId,
+        snapshotEnvironmentId: snapshotEnvironmentIdBySource.get(sourceEnvironmentId),
+        environmentPrefix: slot.prefix,
+      });
+      const completedAt = new Date().toISOString();
+      if (!snapshotEnvironmentIdBySource.has(sourceEnvironmentId)) {
+        snapshotEnvironmentIdBySource.set(sourceEnvironmentId, result.createdEnvironmentId);
+      }
+
+      runLocalDateByCadence[key] = currentLocalDate;
+      runLocalHourByCadence[key] = currentLocalHour;
+      const currentCronOccurrence = slot.cronExpression
+        ? getLatestCronOccurrence({
+            cronExpression: slot.cronExpression,
+            anchorLocalDate: context.scheduleConfig.anchorLocalDate,
+            currentLocalTime: toLocalMinuteKey(now, context.scheduleConfig.timezone),
+          })
+        : null;
+      if (currentCronOccurrence) {
+        runLocalOccurrenceByCadence[key] = currentCronOccurrence;
+      }
+      runAtByCadence[key] = completedAt;
+      managedEnvironmentIdByCadence[key] = result.createdEnvironmentId;
+      executionModeByCadence[key] = "lambda_cron";
+      delete errorByCadence[key];
+      delete failedAttemptsByCadence[key];
+      settlePending(slot);
+
+      const executed: ScheduledCadenceExecutionResult = {
+        scope: cadence,
+        ...slotName,
+        status: "executed",
+        ...trigger,
+        startedAt,
+        result,
+      };
+      results.push(executed);
+
+      // The backup is already recorded: a failed GFS pass is reported on its own
+      // and retried by the next run, without failing the slot.
+      const gfs = usesGfsRetention
+        ? await applyGfsRetention({
+            client: context.client,
+            config: context.scheduleConfig,
+            pinnedEnvironmentIds,
+            protectedEnvironmentIds: getSnapshotEnvironmentIds(),
+          }).catch((error: unknown) => {
+            executed.retentionError = getErrorMessage(error);
+            return null;
+          })
+        : null;
+      if (gfs) {
+        result.deletedEnvironmentIds.push(
+          ...(gfs.deletedEnvironmentIdsByCadence[cadence] ?? []),
+        );
+        result.deletedEnvironmentId = result.deletedEnvironmentIds[0] ?? null;
+
+        for (const promotion of gfs.promotions) {
+          const promotionDeletedEnvironmentIds =
+            gfs.deletedEnvironmentIdsByCadence[promotion.scope]?.splice(0) ?? [];
+          runLocalDateByCadence[promotion.scope] = currentLocalDate;
+          runLocalHourByCadence[promotion.scope] = currentLocalHour;
+          runAtByCadence[promotion.scope] = completedAt;
+          managedEnvironmentIdByCadence[promotion.scope] = promotion.toEnvironmentId;
+          executionModeByCadence[promotion.scope] = "lambda_cron";
+          delete errorByCadence[promotion.scope];
+
+          results.push({
+            scope: promotion.scope,
+            status: "executed",
+            startedAt,
+            result: {
+              scope: promotion.scope,
+              createdEnvironmentId: promotion.toEnvironmentId,
+              deletedEnvironmentIds: promotionDeletedEnvironmentIds,
+              deletedEnvironmentId: promotionDeletedEnvironmentIds[0] ?? null,
+              sourceEnvironmentId: result.sourceEnvironmentId,
+              derivedFromEnvironmentId: promotion.fromEnvironmentId,
+            },
+          });
+        }
+      }
+    } catch (error) {
+      const message = getErrorMessage(error);
+      const periodKey = getAttemptPeriodKey({ config: context.scheduleConfig, slot, now });
+      const previousAttempts = failedAttemptsByCadence[key];
+      errorByCadence[key] = message;
+      failedAttemptsByCadence[key] = {
+        periodKey,
+        count: previousAttempts?.periodKey === periodKey ? previousAttempts.count + 1 : 1,
+      };
+      // A failed slot is retried under the attempts limit instead.
+      settlePending(slot);
+      results.push({
+        scope: cadence,
+        ...slotName,
+        status: "failed",
+        ...trigger,
+        startedAt,
+        code: toBackupFailureCode(error),
+        error: message,
+        ...(isObject(error) && requestAttemptsByError.has(error)
+          ? { requestAttempts: requestAttemptsByError.get(error) }
+          : {}),
+      });
+    }
+
+    if (timeBudget) {
+      longestSlotMs = Math.max(longestSlotMs, timeBudget.clock() - slotStartedMs);
+    }
+    await persistProgress();
+  }
+
+  return results;
+};
+
+type MissedLocalDateBySlot = Partial<Record<string, string>>;
+
+const getDueSlots = ({
+  context,
+  now,
+}: {
+  context: BackupContext;
+  now: Date;
+}): { slots: BackupSlot[]; missedLocalDateBySlot: MissedLocalDateBySlot } => {
+  const currentLocalDate = toScheduleLocalDateKey(now, context.scheduleConfig);
+  const missedLocalDateBySlot: MissedLocalDateBySlot = {};
+
+  const slots = getForkingSlots(context.scheduleConfig).filter((slot) => {
+    const { cadence, key } = slot;
+    // Left over from a run that was deferred or cut short.
+    if (context.scheduleState.pendingPeriodByCadence?.[key]) {
+      return true;
+    }
+
+    if (cadence === "cron") {
+      return (
+        typeof slot.cronExpression === "string" &&
+        isCronCadenceDueNow({
+          cronExpression: slot.cronExpression,
+          anchorLocalDate: context.scheduleConfig.anchorLocalDate,
+          currentLocalTime: toLocalMinuteKey(now, context.scheduleConfig.timezone),
+          lastRunLocalOccurrence: context.scheduleState.lastRunLocalOccurrenceByCadence?.[key],
+        })
+      );
+    }
+
+    if (SUB_DAILY_CADENCES.includes(cadence)) {
+      return isSubDailyCadenceDueNow({
+        cadence,
+        everyNHours: context.scheduleConfig.everyNHours,
+        anchorLocalDate: context.scheduleConfig.anchorLocalDate,
+        currentLocalHour: toLocalHourKey(now, context.scheduleConfig.timezone),
+        lastRunLocalHour: context.scheduleState.lastRunLocalHourByCadence?.[key],
+      });
+    }
+
+    const lastRunLocalDate = getLastRunLocalDateForSlot({
+      scheduleState: context.scheduleState,
+      slotKey: key,
+      now,
+      timezone: context.scheduleConfig.timezone,
+    });
+
+    if (
+      isCadenceDueNow({
+        cadence,
+        anchorLocalDate: context.scheduleConfig.anchorLocalDate,
+        currentLocalDate,
+        lastRunLocalDate,
+        dayRule: slot.dayRule,
+      })
+    ) {
+      return true;
+    }
+
+    const missedLocalDate = getMissedLocalDate({
       cadence,
       anchorLocalDate: context.scheduleConfig.anchorLocalDate,
       currentLocalDate,
       lastRunLocalDate,
+      windowDays: slot.catchUpWindowDays,
+      dayRule: slot.dayRule,
     });
+    if (missedLocalDate) {
+      missedLocalDateBySlot[key] = missedLocalDate;
+    }
+    return Boolean(missedLocalDate);
+  });
+
+  return { slots, missedLocalDateBySlot };
+};
+
+export const hasScheduledBackupFailures = (
+  result: ScheduledBackupsJobResult,
+): boolean => {
+  if ("projects" in result) {
+    return result.projects.some(
+      (project) =>
+        project.status === "failed" || hasScheduledBackupFailures(project.result),
+    );
+  }
+
+  return result.results.some((entry) => entry.status === "failed");
+};
+
+const toScheduleSummary = (
+  config: BackupScheduleConfig,
+): ScheduledBackupsRunResult["schedule"] => ({
+  timezone: config.timezone,
+  enabledCadences: config.enabledCadences,
+  customSlots: config.customSlots.map((slot) => slot.name),
+  anchorLocalDate: config.anchorLocalDate,
+});
+
+const runDueScheduledSlots = async ({
+  context,
+  now,
+  provider,
+  stagger,
+  timeBudget,
+  renewLock,
+}: {
+  context: BackupContext;
+  now: Date;
+  provider: SchedulerProvider;
+  stagger?: StaggerOptions;
+  timeBudget: ResolvedTimeBudget;
+  renewLock?: RenewRunLock;
+}): Promise<ScheduledBackupsRunResult> => {
+  const checkedAt = new Date().toISOString();
+  const schedule = toScheduleSummary(context.scheduleConfig);
+
+  // Blackouts only hold back scheduled rotations; manual backups still run.
+  const blackedOut = isLocalDateBlackedOut({
+    ...context.scheduleConfig,
+    localDate: toScheduleLocalDateKey(now, context.scheduleConfig),
+  });
+  const { slots: dueSlots, missedLocalDateBySlot } = getDueSlots({
+    context,
+    now,
+  });
+  if (dueSlots.length === 0 || blackedOut) {
+    return {
+      scheduler: toSchedulerSummary(provider),
+      schedule,
+      checkedAt,
+      skipped: true,
+      reason: dueSlots.length === 0 ? "NOT_DUE" : "BLACKOUT",
+      results: dueSlots.map((slot) => ({
+        scope: slot.cadence,
+        ...toSlotName(slot),
+        status: "skipped",
+        reason: "BLACKOUT",
+      })),
+    };
+  }
+
+  // A slot that failed stays due for its period; once it has used up its
+  // attempts it waits for the next period instead of failing every trigger.
+  const exhaustedSlots = dueSlots.filter((slot) =>
+    hasExhaustedAttempts({ context, slot, now }),
+  );
+  const skippedResults: ScheduledCadenceExecutionResult[] = exhaustedSlots.map(
+    (slot) => ({
+      scope: slot.cadence,
+      ...toSlotName(slot),
+      status: "skipped",
+      reason: "RETRY_LIMIT_REACHED",
+    }),
+  );
+  const runnableSlots = dueSlots.filter((slot) => !exhaustedSlots.includes(slot));
+  if (runnableSlots.length === 0) {
+    return {
+      scheduler: toSchedulerSummary(provider),
+      schedule,
+      checkedAt,
+      skipped: true,
+      reason: "RETRY_LIMIT_REACHED",
+      results: skippedResults,
+    };
+  }
+
+  const results = await executeSlotsAndPersistState({
+    context,
+    slots: runnableSlots,
+    now,
+    catchUpSlotKeys: Object.keys(missedLocalDateBySlot),
+    stagger: resolveStagger(stagger),
+    timeBudget,
+    renewLock,
   });
+
+  return {
+    scheduler: toSchedulerSummary(provider),
+    schedule,
+    checkedAt,
+    skipped: false,
+    results: [...results, ...skippedResults],
+  };
+};
+
+/**
+ * Waits, within the time budget, for the manual backup job that holds `lock` to
+ * settle. Returns the context read once the job is finished, or `null` when the
+ * lock belongs to a scheduled run or the job outlasts the budget.
+ */
+const waitForBackupJob = async ({
+  context,
+  options,
+  lock,
+  timeBudget,
+  sleep,
+}: {
+  context: BackupContext;
+  options: BackupExecutionOptions;
+  lock: BackupRunLock;
+  timeBudget: ResolvedTimeBudget;
+  sleep: (ms: number) => Promise<void>;
+}): Promise<BackupContext | null> => {
+  const holdsLock = (candidate: BackupContext) =>
+    (candidate.scheduleState.backupJobs ?? []).some(
+      (job) => job.status === "running" && job.lockOwner === lock.owner,
+    );
+  if (timeBudget.deadline === null || !holdsLock(context)) {
+    return null;
+  }
+
+  while (timeBudget.clock() + BACKUP_JOB_POLL_INTERVAL_MS < timeBudget.deadline) {
+    await sleep(BACKUP_JOB_POLL_INTERVAL_MS);
+    const settledContext = await reconcileBackupJobs(await getBackupContext(options));
+    if (!holdsLock(settledContext)) {
+      return settledContext;
+    }
+  }
+
+  return null;
+};
+
+type ScheduledBackupsOptions = BackupExecutionOptions & {
+  providerHint?: SchedulerProvider;
+  stagger?: StaggerOptions;
+  timeBudget?: TimeBudget;
+};
+
+export const runScheduledBackups = async (
+  options: ScheduledBackupsOptions = {},
+): Promise<ScheduledBackupsRunResult> => {
+  const now = options.now ?? new Date();
+  const timeBudget = resolveTimeBudget(options.timeBudget);
+  const provider = resolveSchedulerProvider(options.providerHint);
+  // Settled first: a finished job records its slot's run and releases its lease.
+  const context = await reconcileBackupJobs(await getBackupContext(options));
+  const run = (runContext: BackupContext, renewLock?: RenewRunLock) =>
+    runDueScheduledSlots({
+      context: runContext,
+      now,
+      provider,
+      stagger: options.stagger,
+      timeBudget,
+      renewLock,
+    });
+
+  // Idle triggers never take the lock, so they don't write to the plugin.
+  const dueSlots = getDueSlots({ context, now }).slots;
+  if (dueSlots.length === 0) {
+    return run(context);
+  }
+
+  // Due slots are worked out again from the state read under the lock, so a
+  // slot another run has just backed up is not repeated.
+  const runUnderLock = (runContext: BackupContext) =>
+    withRunLock({ context: runContext, provider, now }, run).catch((error: unknown) => {
+      if (error instanceof BackupAlreadyRunningError) {
+        return error;
+      }
+      throw error;
+    });
+
+  let outcome = await runUnderLock(context);
+  if (outcome instanceof BackupAlreadyRunningError) {
+    // A manual backup still forking would otherwise cost a once-a-day trigger its
+    // slots, so the trigger waits for its job while the time budget allows.
+    const settledContext = await waitForBackupJob({
+      context,
+      options,
+      lock: outcome.lock,
+      timeBudget,
+      sleep: resolveStagger(options.stagger).sleep,
+    });
+    if (settledContext) {
+      outcome = await runUnderLock(settledContext);
+    }
+  }
+
+  if (outcome instanceof BackupAlreadyRunningError) {
+    // Overlapping triggers are expected (two cron entries, a manual backup in
+    // progress). The due slots are recorded as pending, so they still run on the
+    // next trigger that gets the lock, even once their hour or date has passed.
+    await persistScheduleState({
+      context,
+      update: (current) => {
+        const pendingPeriodByCadence = { ...current.pendingPeriodByCadence };
+        for (const slot of dueSlots) {
+          pendingPeriodByCadence[slot.key] ??= getAttemptPeriodKey({
+            config: context.scheduleConfig,
+            slot,
+            now,
+          });
+        }
+        return { ...current, pendingPeriodByCadence };
+      },
+    });
+
+    return {
+      scheduler: toSchedulerSummary(provider),
+      schedule: toScheduleSummary(context.scheduleConfig),
+      checkedAt: new Date().toISOString(),
+      skipped: true,
+      reason: "ALREADY_RUNNING",
+      results: dueSlots.map((slot) => ({
+        scope: slot.cadence,
+        ...toSlotName(slot),
+        status: "skipped",
+        reason: "ALREADY_RUNNING",
+      })),
+    };
+  }
+
+  return outcome;
+};
+
+/**
+ * Runs the scheduled backups of every registered project, `stagger.concurrency`
+ * at a time. A project that fails (bad token, plugin misconfigured) is reported
+ * without stopping the others. Without a registry this is a single-project run.
+ * The time budget covers the whole invocation, not each project.
+ */
+export const runScheduledBackupsForProjects = async (
+  options: Omit<ScheduledBackupsOptions, "client" | "projectId"> = {},
+  runProject: (
+    options: ScheduledBackupsOptions,
+  ) => Promise<ScheduledBackupsRunResult> = runScheduledBackups,
+): Promise<ScheduledBackupsJobResult> => {
+  const registry = resolveProjectRegistry(options.projectRegistry);
+  if (!registry) {
+    return runProject(options);
+  }
+
+  const checkedAt = new Date().toISOString();
+  const stagger = resolveStagger(options.stagger);
+  const { deadline, clock } = resolveTimeBudget(options.timeBudget);
+  const projects: ProjectScheduledBackupsResult[] = [];
+  let nextProjectIndex = 0;
+
+  // Each worker takes the next project off the registry, so results keep the
+  // registry order however the runs interleave.
+  const runNextProjects = async () => {
+    while (nextProjectIndex < registry.length) {
+      const index = nextProjectIndex;
+      nextProjectIndex += 1;
+      const project = registry[index];
+
+      await waitForJitter(stagger);
+      const startedAt = new Date().toISOString();
+      try {
+        const result = await runProject({
+          ...options,
+          stagger,
+          timeBudget:
+            deadline === null
+              ? { maxDurationMs: Number.POSITIVE_INFINITY, clock }
+              : { maxDurationMs: deadline - clock(), clock },
+          projectId: project.id,
+        });
+        projects[index] = { projectId: project.id, status: "completed", startedAt, result };
+      } catch (error) {
+        projects[index] = {
+          projectId: project.id,
+          status: "failed",
+          startedAt,
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(stagger.concurrency, registry.length) }, () =>
+      runNextProjects(),
+    ),
+  );
+
+  return { checkedAt, projects };
+};
+
+type ManualBackupNowOptions = BackupExecutionOptions &
+  ({ scope: BackupCadence } | { slotName: string }) & {
+    providerHint?: SchedulerProvider;
+  };
+
+const resolveManualSlot = (
+  config: BackupScheduleConfig,
+  options: ManualBackupNowOptions,
+): BackupSlot => {
+  if ("slotName" in options) {
+    const customSlot = config.customSlots.find((slot) => slot.name === options.slotName);
+    if (!customSlot) {
+      throw new BackupSlotNotFoundError(options.slotName);
+    }
+
+    return toCustomSlot(customSlot);
+  }
+
+  if (!config.enabledCadences.includes(options.scope)) {
+    throw new CadenceNotEnabledError(options.scope);
+  }
+
+  return toBuiltInSlot(config, options.scope);
+};
+
+export const runManualBackupNow = async (
+  options: ManualBackupNowOptions,
+): Promise<ManualBackupNowResult> => {
+  const now = options.now ?? new Date();
+  const context = await getBackupContext(options);
+  const slot = resolveManualSlot(context.scheduleConfig, options);
+  const scope = slot.cadence;
+  const slotName = toSlotName(slot);
+
+  const [result] = await withRunLock(
+    {
+      context,
+      provider: resolveSchedulerProvider(options.providerHint),
+      now,
+    },
+    (lockedContext) =>
+      executeSlotsAndPersistState({
+        context: lockedContext,
+        slots: [slot],
+        now,
+      }),
+  );
+  const checkedAt = new Date().toISOString();
+
+  if (!result || result.status !== "executed") {
+    return {
+      scope,
+      ...slotName,
+      status: "failed",
+      checkedAt,
+      code: result?.status === "failed" ? result.code : "BACKUP_FAILED",
+      error:
+        result?.status === "failed"
+          ? result.error
+          : "Backup execution did not produce a result.",
+    };
+  }
+
+  return {
+    scope,
+    ...slotName,
+    status: "executed",
+    executionMode: "lambda_cron",
+    createdEnvironmentId: result.result.createdEnvironmentId,
+    deletedEnvironmentIds: result.result.deletedEnvironmentIds,
+    deletedEnvironmentId: result.result.deletedEnvironmentId,
+    sourceEnvironmentId: result.result.sourceEnvironmentId,
+    completedAt: checkedAt,
+    checkedAt,
+  };
+};
+
+/**
+ * Starts a manual backup without waiting for the fork and records it as a job.
+ * The run lock stays held until a status poll finishes the job or the lease
+ * expires.
+ */
+export const startManualBackup = async (
+  options: ManualBackupNowOptions,
+): Promise<ManualBackupJobStartResult> => {
+  const now = options.now ?? new Date();
+  const context = await getBackupContext(options);
+  const pluginId = context.pluginId;
+  // The job is tracked in the plugin's schedule state.
+  if (!pluginId) {
+    throw new PluginNotInstalledError();
+  }
+
+  const slot = resolveManualSlot(context.scheduleConfig, options);
+  const scope = slot.cadence;
+  const slotName = toSlotName(slot);
+  const lock = await acquireRunLock({
+    context,
+    pluginId,
+    provider: resolveSchedulerProvider(options.providerHint),
+    now,
+  });
+  const scheduleState = toScheduleState(lock.parameters.automaticBackupsSchedule);
+  const releaseLock = () =>
+    releaseRunLock({ context, pluginId, owner: lock.owner }).catch(() => {
+      // An unreleased lease expires on its own.
+    });
+
+  let result: ScopedBackupResult;
+  try {
+    // Under GFS the generations are promoted or pruned once the fork is ready.
+    result = await executeScopedBackup(scope, {
+      apiToken: context.apiToken,
+      client: context.client,
+      now,
+      retention: isGfsTierSlot(context.scheduleConfig, slot)
+        ? Number.POSITIVE_INFINITY
+        : slot.retention,
+      rotationMode: context.scheduleConfig.rotationMode,
+      pinnedEnvironmentIds: scheduleState.pinnedEnvironmentIds,
+      sourceEnvironmentId: slot.sourceEnvironmentId,
+      environmentPrefix: slot.prefix,
+      waitForFork: false,
+    });
+  } catch (error) {
+    await releaseLock();
+    return {
+      scope,
+      ...slotName,
+      status: "failed",
+      code: toBackupFailureCode(error),
+      error: getErrorMessage(error),
+      checkedAt: new Date().toISOString(),
+    };
+  }
+
+  const job: BackupJob = {
+    id: globalThis.crypto.randomUUID(),
+    scope,
+    ...slotName,
+    environmentId: result.createdEnvironmentId,
+    sourceEnvironmentId: result.sourceEnvironmentId,
+    startedAt: now.toISOString(),
+    status: "running",
+    pendingDeletionEnvironmentIds: result.pendingDeletionEnvironmentIds ?? [],
+    ...(result.heldEnvironmentIds ? { heldEnvironmentIds: result.heldEnvironmentIds } : {}),
+    deletedEnvironmentIds: result.deletedEnvironmentIds,
+    lockOwner: lock.owner,
+  };
+
+  try {
+    await persistScheduleState({
+      context,
+      update: (current) => ({
+        ...current,
+        backupJobs: trimBackupJobs([job, ...(current.backupJobs ?? [])]),
+      }),
+    });
+  } catch (error) {
+    await releaseLock();
+    throw error;
+  }
+
+  return {
+    scope,
+    ...slotName,
+    status: "started",
+    job,
+    checkedAt: new Date().toISOString(),
+  };
+};
+
+/**
+ * Keeps the newest `MAX_BACKUP_JOBS` jobs. Running jobs are always kept: their
+ * pending deletions and lease are only released once they finish.
+ */
+const trimBackupJobs = (jobs: BackupJob[]): BackupJob[] => {
+  const runningCount = jobs.filter((job) => job.status === "running").length;
+  const keptFinishedJobs = jobs
+    .filter((job) => job.status !== "running")
+    .slice(0, Math.max(MAX_BACKUP_JOBS - runningCount, 0));
+  return jobs.filter((job) => job.status === "running" || keptFinishedJobs.includes(job));
+};
+
+const findJobSlot = (config: BackupScheduleConfig, job: BackupJob): BackupSlot | null => {
+  if (job.slot) {
+    const customSlot = config.customSlots.find((slot) => slot.name === job.slot);
+    return customSlot ? toCustomSlot(customSlot) : null;
+  }
+
+  return config.enabledCadences.includes(job.scope) ? toBuiltInSlot(config, job.scope) : null;
+};
+
+const withoutSlotKey = <Value>(
+  map: SlotStateMap<Value> | undefined,
+  key: string,
+): SlotStateMap<Value> => {
+  const next = { ...map };
+  delete next[key];
+  return next;
+};
+
+const recordSlotRun = ({
+  scheduleState,
+  config,
+  key,
+  cronExpression,
+  startedAt,
+  completedAt,
+  environmentId,
+}: {
+  scheduleState: AutomaticBackupsScheduleState;
+  config: BackupScheduleConfig;
+  key: string;
+  cronExpression?: string;
+  startedAt: Date;
+  completedAt: string;
+  environmentId: string;
+}): AutomaticBackupsScheduleState => {
+  const cronOccurrence = cronExpression
+    ? getLatestCronOccurrence({
+        cronExpression,
+        anchorLocalDate: config.anchorLocalDate,
+        currentLocalTime: toLocalMinuteKey(startedAt, config.timezone),
+      })
+    : null;
+
+  return {
+    ...scheduleState,
+    lastRunLocalDateByCadence: {
+      ...scheduleState.lastRunLocalDateByCadence,
+      [key]: toScheduleLocalDateKey(startedAt, config),
+    },
+    lastRunLocalHourByCadence: {
+      ...scheduleState.lastRunLocalHourByCadence,
+      [key]: toLocalHourKey(startedAt, config.timezone),
+    },
+    lastRunLocalOccurrenceByCadence: cronOccurrence
+      ? { ...scheduleState.lastRunLocalOccurrenceByCadence, [key]: cronOccurrence }
+      : scheduleState.lastRunLocalOccurrenceByCadence,
+    lastRunAtByCadence: { ...scheduleState.lastRunAtByCadence, [key]: completedAt },
+    lastManagedEnvironmentIdByCadence: {
+      ...scheduleState.lastManagedEnvironmentIdByCadence,
+      [key]: environmentId,
+    },
+    lastExecutionModeByCadence: {
+      ...scheduleState.lastExecutionModeByCadence,
+      [key]: "lambda_cron",
+    },
+    lastErrorByCadence: withoutSlotKey(scheduleState.lastErrorByCadence, key),
+    failedAttemptsByCadence: withoutSlotKey(scheduleState.failedAttemptsByCadence, key),
+    // The run covers the period a trigger left pending, which would fork it again.
+    pendingPeriodByCadence: withoutSlotKey(scheduleState.pendingPeriodByCadence, key),
+  };
+};
+
+const withoutHeldEnvironments = (job: BackupJob): BackupJob => {
+  const next = { ...job };
+  delete next.heldEnvironmentIds;
+  return next;
+};
+
+// A finished job, with the slot state changes to apply to the latest saved state.
+type FinishedBackupJob = {
+  job: BackupJob;
+  recordRun: (scheduleState: AutomaticBackupsScheduleState) => AutomaticBackupsScheduleState;
 };
 
-export const hasScheduledBackupFailures = (
-  result: ScheduledBackupsRunResult,
-): boolean => {
-  return result.results.some((entry) => entry.status === "failed");
+/**
+ * Finishes a job whose environment is ready: prunes the generations it rotated
+ * out and records the slot's run as a synchronous backup would.
+ */
+const completeBackupJob = async ({
+  context,
+  job,
+  environmentIds,
+}: {
+  context: BackupContext;
+  job: BackupJob;
+  environmentIds: Set<string>;
+}): Promise<FinishedBackupJob> => {
+  const config = context.scheduleConfig;
+  const pinnedEnvironmentIds = context.scheduleState.pinnedEnvironmentIds ?? [];
+  const deletedEnvironmentIds = [...job.deletedEnvironmentIds];
+  const destroy = async (environmentId: string) => {
+    try {
+      await context.client.environments.destroy(environmentId);
+    } catch (error) {
+      // Another poll finishing the same job deleted it first.
+      if (getErrorResponse(error)?.status !== 404) {
+        throw error;
+      }
+    }
+  };
+  for (const environmentId of job.heldEnvironmentIds ?? []) {
+    if (environmentIds.has(toHoldingEnvironmentId(environmentId))) {
+      await destroy(toHoldingEnvironmentId(environmentId));
+      deletedEnvironmentIds.push(environmentId);
+    }
+  }
+  // Generations pinned or removed while the fork ran are left alone.
+  for (const environmentId of job.pendingDeletionEnvironmentIds) {
+    if (environmentIds.has(environmentId) && !pinnedEnvironmentIds.includes(environmentId)) {
+      await destroy(environmentId);
+      deletedEnvironmentIds.push(environmentId);
+    }
+  }
+
+  const startedAt = new Date(job.startedAt);
+  const completedAt = new Date().toISOString();
+  const slot = findJobSlot(config, job);
+  const promotions: GfsPromotion[] = [];
+  let retentionError: string | undefined;
+
+  // As in scheduled runs, a failed GFS pass does not fail the finished backup.
+  if (slot && isGfsTierSlot(config, slot)) {
+    try {
+      const gfs = await applyGfsRetention({
+        client: context.client,
+        config,
+        pinnedEnvironmentIds,
+      });
+      for (const environmentIds of Object.values(gfs.deletedEnvironmentIdsByCadence)) {
+        deletedEnvironmentIds.push(...(environmentIds ?? []));
+      }
+      promotions.push(...gfs.promotions);
+    } catch (error) {
+      retentionError = getErrorMessage(error);
+    }
+  }
+
+  return {
+    job: {
+      ...withoutHeldEnvironments(job),
+      status: "completed",
+      completedAt,
+      pendingDeletionEnvironmentIds: [],
+      deletedEnvironmentIds,
+      ...(retentionError ? { retentionError } : {}),
+    },
+    recordRun: (scheduleState) =>
+      promotions.reduce(
+        (state, promotion) =>
+          recordSlotRun({
+            scheduleState: state,
+            config,
+            key: promotion.scope,
+            startedAt,
+            completedAt,
+            environmentId: promotion.toEnvironmentId,
+          }),
+        recordSlotRun({
+          scheduleState,
+          config,
+          key: job.slot ?? job.scope,
+          cronExpression: slot?.cronExpression,
+          startedAt,
+          completedAt,
+          environmentId: job.environmentId,
+        }),
+      ),
+  };
 };
 
-export const runScheduledBackups = async (
-  options: BackupExecutionOptions & { providerHint?: SchedulerProvider } = {},
-): Promise<ScheduledBackupsRunResult> => {
-  const now = options.now ?? new Date();
-  const provider = resolveSchedulerProvider(options.providerHint);
-  const context = await getBackupContext(options);
-  const checkedAt = new Date().toISOString();
+/**
+ * Finishes a job whose fork failed: the generations safe rotation held get their
+ * ID back and the failure counts towards the slot's attempts.
+ */
+const failBackupJob = async ({
+  context,
+  job,
+  error,
+}: {
+  context: BackupContext;
+  job: BackupJob;
+  error: string;
+}): Promise<FinishedBackupJob> => {
+  const key = job.slot ?? job.scope;
+  const slot = findJobSlot(context.scheduleConfig, job);
+  if (job.heldEnvironmentIds?.length) {
+    await restoreHeldBackups({
+      client: context.client,
+      createdEnvironmentId: job.environmentId,
+      heldEnvironmentIds: job.heldEnvironmentIds,
+    });
+  }
+
+  return {
+    job: {
+      ...withoutHeldEnvironments(job),
+      status: "failed",
+      completedAt: new Date().toISOString(),
+      error,
+      pendingDeletionEnvironmentIds: [],
+    },
+    recordRun: (scheduleState) => {
+      const failedAttemptsByCadence = { ...scheduleState.failedAttemptsByCadence };
+      if (slot) {
+        const periodKey = getAttemptPeriodKey({
+          config: context.scheduleConfig,
+          slot,
+          now: new Date(job.startedAt),
+        });
+        const previousAttempts = failedAttemptsByCadence[key];
+        failedAttemptsByCadence[key] = {
+          periodKey,
+          count: previousAttempts?.periodKey === periodKey ? previousAttempts.count + 1 : 1,
+        };
+      }
+
+      return {
+        ...scheduleState,
+        lastErrorByCadence: { ...scheduleState.lastErrorByCadence, [key]: error },
+        failedAttemptsByCadence,
+      };
+    },
+  };
+};
+
+// An environment as listed by the CMA, with its fork status and progress.
+type ListedEnvironment = Awaited<ReturnType<BackupClient["environments"]["list"]>>[number];
+
+/**
+ * Checks the fork of a running job. While it runs, the job's lease is renewed, so
+ * a fork that outlasts it keeps the project locked. Once the environment is ready
+ * or gone, the job is finished, saved with the slot's run and the lease released.
+ * A job another caller finished in the meantime is returned as that caller saved
+ * it, and its run is not recorded twice.
+ */
+const settleBackupJob = async ({
+  context,
+  pluginId,
+  job,
+  environments,
+}: {
+  context: BackupContext;
+  pluginId: string;
+  job: BackupJob;
+  environments: ListedEnvironment[];
+}): Promise<{ result: BackupJobStatusResult; scheduleState: AutomaticBackupsScheduleState }> => {
+  const environment = environments.find(
+    (candidate) => candidate.id === job.environmentId,
+  );
+  if (environment?.meta.status === "creating") {
+    if (job.lockOwner) {
+      await renewRunLock({ context, pluginId, owner: job.lockOwner }).catch(() => {
+        // The next poll tries again.
+      });
+    }
 
-  const dueCadences = getDueCadences({ context, now });
-  if (dueCadences.length === 0) {
     return {
-      scheduler: {
-        provider,
-        cadence: "daily",
+      result: {
+        job,
+        progress: environment.meta.fork_completion_percentage ?? null,
+        checkedAt: new Date().toISOString(),
       },
-      schedule: {
-        timezone: context.scheduleConfig.timezone,
-        enabledCadences: context.scheduleConfig.enabledCadences,
-        anchorLocalDate: context.scheduleConfig.anchorLocalDate,
-      },
-      checkedAt,
-      skipped: true,
-      reason: "NOT_DUE",
-      results: [],
+      scheduleState: context.scheduleState,
     };
   }
 
-  const results = await executeCadencesAndPersistState({
+  const finished =
+    environment?.meta.status === "ready"
+      ? await completeBackupJob({
+          context,
+          job,
+          environmentIds: new Set(environments.map((candidate) => candidate.id)),
+        })
+      : await failBackupJob({
+          context,
+          job,
+          error: environment
+            ? `Forked environment "${job.environmentId}" is being destroyed.`
+            : `Forked environment "${job.environmentId}" no longer exists.`,
+        });
+
+  const saved = await persistScheduleState({
     context,
-    cadences: dueCadences,
-    now,
+    update: (current) =>
+      current.backupJobs?.some(
+        (candidate) => candidate.id === job.id && candidate.status !== "running",
+      )
+        ? current
+        : withLegacyCadenceFields(
+            {
+              ...finished.recordRun(current),
+              backupJobs: (current.backupJobs ?? []).map((candidate) =>
+                candidate.id === job.id ? finished.job : candidate,
+              ),
+            },
+            new Date(job.startedAt),
+          ),
   });
 
+  if (job.lockOwner) {
+    await releaseRunLock({ context, pluginId, owner: job.lockOwner }).catch(() => {
+      // An unreleased lease expires on its own.
+    });
+  }
+
   return {
-    scheduler: {
-      provider,
-      cadence: "daily",
+    result: {
+      job: saved.backupJobs?.find((candidate) => candidate.id === job.id) ?? finished.job,
+      progress: null,
+      checkedAt: new Date().toISOString(),
     },
-    schedule: {
-      timezone: context.scheduleConfig.timezone,
-      enabledCadences: context.scheduleConfig.enabledCadences,
-      anchorLocalDate: context.scheduleConfig.anchorLocalDate,
-    },
-    checkedAt,
-    skipped: false,
-    results,
+    scheduleState: saved,
   };
 };
 
-type ManualBackupNowOptions = BackupExecutionOptions & {
-  scope: BackupCadence;
-  providerHint?: SchedulerProvider;
+/**
+ * Settles the running jobs left by async manual backups, so a job whose page was
+ * closed before its fork finished does not keep its pending deletions and lease
+ * forever. A job that cannot be checked stays running for the next trigger.
+ */
+const reconcileBackupJobs = async (context: BackupContext): Promise<BackupContext> => {
+  const pluginId = context.pluginId;
+  const runningJobs = (context.scheduleState.backupJobs ?? []).filter(
+    (job) => job.status === "running",
+  );
+  if (!pluginId || runningJobs.length === 0) {
+    return context;
+  }
+
+  let scheduleState = context.scheduleState;
+  try {
+    const environments = await context.client.environments.list();
+    for (const job of runningJobs) {
+      const settled = await settleBackupJob({
+        context: { ...context, scheduleState },
+        pluginId,
+        job,
+        environments,
+      }).catch(() => null);
+      scheduleState = settled?.scheduleState ?? scheduleState;
+    }
+  } catch {
+    // Left for the next trigger.
+  }
+
+  return { ...context, scheduleState };
 };
 
-export const runManualBackupNow = async (
-  options: ManualBackupNowOptions,
-): Promise<ManualBackupNowResult> => {
-  const now = options.now ?? new Date();
+type BackupJobStatusOptions = BackupExecutionOptions & {
+  jobId: string;
+};
+
+/**
+ * Polls a job started by `startManualBackup`. While the fork runs the job is
+ * returned as is; the first poll that sees the environment ready or gone
+ * finishes the job. Scheduled runs settle the jobs nobody polls.
+ */
+export const getBackupJobStatus = async (
+  options: BackupJobStatusOptions,
+): Promise<BackupJobStatusResult> => {
   const context = await getBackupContext(options);
-  const { scope } = options;
+  const pluginId = context.pluginId;
+  const job = context.scheduleState.backupJobs?.find(
+    (candidate) => candidate.id === options.jobId,
+  );
+  if (!pluginId || !job) {
+    throw new BackupJobNotFoundError(options.jobId);
+  }
 
-  if (!context.scheduleConfig.enabledCadences.includes(scope)) {
-    throw new CadenceNotEnabledError(scope);
+  if (job.status !== "running") {
+    return { job, progress: null, checkedAt: new Date().toISOString() };
   }
 
-  const [result] = await executeCadencesAndPersistState({
+  const { result } = await settleBackupJob({
     context,
-    cadences: [scope],
-    now,
+    pluginId,
+    job,
+    environments: await context.client.environments.list(),
   });
-  const checkedAt = new Date().toISOString();
+  return result;
+};
 
-  if (!result || result.status === "failed") {
-    return {
-      scope,
-      status: "failed",
-      checkedAt,
-      error:
-        result?.status === "failed"
-          ? result.error
-          : "Backup execution did not produce a result.",
-    };
-  }
+const toBackupGeneration = (environment: BackupEnvironment): BackupGeneration => ({
+  environmentId: environment.id,
+  createdAt: environment.meta.created_at,
+});
+
+const getBackupGenerationsForPrefix = (
+  environments: BackupEnvironment[],
+  prefix: string,
+  pinnedEnvironmentIds: string[] = [],
+): BackupGeneration[] =>
+  sortBackupsNewestFirst(
+    environments.filter(
+      (environment) =>
+        isGenerationOfPrefix(environment, prefix) &&
+        !pinnedEnvironmentIds.includes(environment.id),
+    ),
+  ).map(toBackupGeneration);
 
-  return {
-    scope,
-    status: "executed",
-    executionMode: "lambda_cron",
-    createdEnvironmentId: result.result.createdEnvironmentId,
-    deletedEnvironmentId: result.result.deletedEnvironmentId,
-    completedAt: checkedAt,
-    checkedAt,
-  };
-};
+export const getBackupGenerationsForScope = (
+  environments: BackupEnvironment[],
+  scope: BackupCadence,
+  pinnedEnvironmentIds: string[] = [],
+): BackupGeneration[] =>
+  getBackupGenerationsForPrefix(environments, getEnvironmentPrefix(scope), pinnedEnvironmentIds);
+
+export const getPinnedBackups = (
+  environments: BackupEnvironment[],
+  pinnedEnvironmentIds: string[],
+): BackupGeneration[] =>
+  sortBackupsNewestFirst(
+    environments.filter(
+      (environment) =>
+        !environment.meta.primary && pinnedEnvironmentIds.includes(environment.id),
+    ),
+  ).map(toBackupGeneration);
 
 export const getLatestBackupCreatedAtForScope = (
-  environments: Array<{
-    id: string;
-    meta: {
-      primary: boolean;
-      created_at: string;
-    };
-  }>,
+  environments: BackupEnvironment[],
   scope: BackupCadence,
 ): string | null => {
-  const prefix = getEnvironmentPrefix(scope);
-
-  const matching = environments
-    .filter(
-      (environment) =>
-        !environment.meta.primary && environment.id.startsWith(`${prefix}-`),
-    )
-    .slice()
-    .sort(
-      (left, right) =>
-        new Date(right.meta.created_at).getTime() -
-        new Date(left.meta.created_at).getTime(),
-    );
-
-  return matching[0]?.meta.created_at ?? null;
+  return getBackupGenerationsForScope(environments, scope)[0]?.createdAt ?? null;
 };
 
 type BackupStatusOptions = BackupExecutionOptions & {
   providerHint?: SchedulerProvider;
 };
 
+type ScheduledOccurrence = {
+  localTime: string;
+  at: string;
+};
+
+const toScheduledOccurrence = (
+  localTime: string,
+  timezone: string,
+): ScheduledOccurrence | null => {
+  const at = toUtcDateFromLocalDateTime({
+    localDate: localTime.slice(0, 10),
+    hour: Number(localTime.slice(11, 13)),
+    minute: Number(localTime.slice(14, 16)),
+    timezone,
+  });
+  return at ? { localTime, at: at.toISOString() } : null;
+};
+
+/**
+ * Lists the next `count` times a slot is due, as local `YYYY-MM-DDTHH:MM` wall
+ * clock times and UTC instants, stopping after `horizonEndLocalDate`. A slot that
+ * is due right now starts with its current occurrence.
+ */
+const getUpcomingOccurrences = ({
+  config,
+  scheduleState,
+  slot,
+  now,
+  count,
+  horizonEndLocalDate,
+}: {
+  config: BackupScheduleConfig;
+  scheduleState: AutomaticBackupsScheduleState;
+  slot: BackupSlot;
+  now: Date;
+  count: number;
+  horizonEndLocalDate?: string;
+}): ScheduledOccurrence[] => {
+  const localTimes: string[] = [];
+  const withinHorizon = (localTime: string) =>
+    !horizonEndLocalDate ||
+    compareDateKeys(localTime.slice(0, 10), horizonEndLocalDate) <= 0;
+
+  const { cadence, key } = slot;
+  if (cadence === "cron") {
+    if (!slot.cronExpression) {
+      return [];
+    }
+
+    const cronOptions = {
+      cronExpression: slot.cronExpression,
+      anchorLocalDate: config.anchorLocalDate,
+    };
+    const currentLocalTime = toLocalMinuteKey(now, config.timezone);
+    let next = isCronCadenceDueNow({
+      ...cronOptions,
+      currentLocalTime,
+      lastRunLocalOccurrence: scheduleState.lastRunLocalOccurrenceByCadence?.[key],
+    })
+      ? getLatestCronOccurrence({ ...cronOptions, currentLocalTime })
+      : getNextCronOccurrence({ ...cronOptions, currentLocalTime });
+    while (next && localTimes.length < count && withinHorizon(next)) {
+      localTimes.push(next);
+      next = getNextCronOccurrence({ ...cronOptions, currentLocalTime: next });
+    }
+  } else if (SUB_DAILY_CADENCES.includes(cadence)) {
+    let currentLocalHour = toLocalHourKey(now, config.timezone);
+    let lastRunLocalHour = scheduleState.lastRunLocalHourByCadence?.[key];
+    while (localTimes.length < count) {
+      const next = getNextDueLocalHour({
+        cadence,
+        everyNHours: config.everyNHours,
+        anchorLocalDate: config.anchorLocalDate,
+        currentLocalHour,
+        lastRunLocalHour,
+      });
+      if (!withinHorizon(next)) {
+        break;
+      }
+      localTimes.push(`${next}:00`);
+      currentLocalHour = next;
+      lastRunLocalHour = next;
+    }
+  } else {
+    let currentLocalDate = toScheduleLocalDateKey(now, config);
+    let lastRunLocalDate = getLastRunLocalDateForSlot({
+      scheduleState,
+      slotKey: key,
+      now,
+      timezone: config.timezone,
+    });
+    while (localTimes.length < count) {
+      const next = getNextDueLocalDate({
+        cadence,
+        anchorLocalDate: config.anchorLocalDate,
+        currentLocalDate,
+        lastRunLocalDate,
+        dayRule: slot.dayRule,
+      });
+      if (!withinHorizon(next)) {
+        break;
+      }
+      localTimes.push(`${next}T${config.runAtLocalTime}`);
+      currentLocalDate = next;
+      lastRunLocalDate = next;
+    }
+  }
+
+  return localTimes.flatMap(
+    (localTime) => toScheduledOccurrence(localTime, config.timezone) ?? [],
+  );
+};
+
 export const getBackupStatus = async (
   options: BackupStatusOptions = {},
 ): Promise<BackupStatusResult> => {
@@ -1193,50 +4904,369 @@ export const getBackupStatus = async (
   const provider = resolveSchedulerProvider(options.providerHint);
   const context = await getBackupContext(options);
   const environments = await context.client.environments.list();
-  const currentLocalDate = toLocalDateKey(now, context.scheduleConfig.timezone);
-
-  const slots = BACKUP_CADENCES.reduce((accumulator, cadence) => {
-    const enabled = context.scheduleConfig.enabledCadences.includes(cadence);
-    const lastRunLocalDate = getLastRunLocalDateForCadence({
-      scheduleState: context.scheduleState,
-      cadence,
-      now,
-      timezone: context.scheduleConfig.timezone,
-    });
-    const nextDueDate = enabled
-      ? getNextDueLocalDate({
-          cadence,
-          anchorLocalDate: context.scheduleConfig.anchorLocalDate,
-          currentLocalDate,
-          lastRunLocalDate,
+  const environmentQuota = await getEnvironmentQuota(context.client, environments);
+  const pinnedEnvironmentIds = context.scheduleState.pinnedEnvironmentIds ?? [];
+  const primaryEnvironmentId =
+    environments.find((environment) => environment.meta.primary)?.id ?? null;
+
+  const forkingSlotKeys = getForkingSlots(context.scheduleConfig).map((slot) => slot.key);
+  const triggerCadence = resolveTriggerCadence(provider);
+  const toStatusSlot = (slot: BackupSlot): BackupStatusSlot => {
+    const [nextOccurrence] = forkingSlotKeys.includes(slot.key)
+      ? getUpcomingOccurrences({
+          config: context.scheduleConfig,
+          scheduleState: context.scheduleState,
+          slot,
+          now,
+          count: 1,
         })
-      : null;
-
-    const nextDueAt = nextDueDate
-      ? toUtcDateFromLocalDateKey(nextDueDate)?.toISOString() ?? null
-      : null;
+      : [];
+    const generations = getBackupGenerationsForPrefix(
+      environments,
+      slot.prefix,
+      pinnedEnvironmentIds,
+    );
 
-    accumulator[cadence] = {
-      scope: cadence,
+    return {
+      scope: slot.cadence,
+      ...(slot.custom ? { name: slot.key } : {}),
       executionMode: "lambda_cron",
-      lastBackupAt: getLatestBackupCreatedAtForScope(environments, cadence),
-      nextBackupAt: nextDueAt,
+      sourceEnvironmentId: slot.sourceEnvironmentId ?? primaryEnvironmentId,
+      lastBackupAt: generations[0]?.createdAt ?? null,
+      // A slot already due starts on the next trigger.
+      nextBackupAt: nextOccurrence
+        ? toNextTriggerAt(
+            new Date(Math.max(Date.parse(nextOccurrence.at), now.getTime())),
+            triggerCadence,
+          ).toISOString()
+        : null,
+      retention: slot.retention,
+      generations,
     };
+  };
 
+  const slots = BACKUP_CADENCES.reduce((accumulator, cadence) => {
+    accumulator[cadence] = toStatusSlot(toBuiltInSlot(context.scheduleConfig, cadence));
     return accumulator;
   }, {} as Record<BackupCadence, BackupStatusSlot>);
 
+  const scheduler = toSchedulerSummary(provider);
   return {
     scheduler: {
-      provider,
-      cadence: "daily",
+      ...scheduler,
+      unservedSlots:
+        scheduler.cadence === "daily"
+          ? getForkingSlots(context.scheduleConfig)
+              .filter(
+                (slot) => SUB_DAILY_CADENCES.includes(slot.cadence) || slot.cadence === "cron",
+              )
+              .map((slot) => slot.key)
+          : [],
     },
+    retentionPolicy: context.scheduleConfig.retentionPolicy,
+    environmentQuota,
+    pinnedBackups: getPinnedBackups(environments, pinnedEnvironmentIds),
     slots: {
+      hourly: slots.hourly,
+      every_n_hours: slots.every_n_hours,
       daily: slots.daily,
       weekly: slots.weekly,
       biweekly: slots.biweekly,
       monthly: slots.monthly,
+      quarterly: slots.quarterly,
+      yearly: slots.yearly,
+      cron: slots.cron,
+    },
+    customSlots: context.scheduleConfig.customSlots.map((slot) =>
+      toStatusSlot(toCustomSlot(slot)),
+    ),
+    checkedAt: new Date().toISOString(),
+  };
+};
+
+export type SchedulePreviewOccurrence = {
+  localTime: string;
+  at: string;
+  blackedOut: boolean;
+};
+
+export type SchedulePreviewResult = {
+  timezone: string;
+  anchorLocalDate: string;
+  runAtLocalTime: string;
+  horizonEndLocalDate: string;
+  cadences: Partial<Record<BackupCadence, SchedulePreviewOccurrence[]>>;
+  customSlots: Record<string, SchedulePreviewOccurrence[]>;
+  checkedAt: string;
+};
+
+type SchedulePreviewOptions = BackupExecutionOptions & {
+  count?: number;
+  horizonDays?: number;
+  // Unsaved `backupSchedule` to preview instead of the stored one.
+  schedule?: unknown;
+};
+
+export const DEFAULT_PREVIEW_COUNT = 10;
+export const MAX_PREVIEW_COUNT = 100;
+export const DEFAULT_PREVIEW_HORIZON_DAYS = 365;
+export const MAX_PREVIEW_HORIZON_DAYS = 366 * 2;
+
+export const getSchedulePreview = async (
+  options: SchedulePreviewOptions = {},
+): Promise<SchedulePreviewResult> => {
+  const now = options.now ?? new Date();
+  const context = await getBackupContext(options);
+  const config =
+    typeof options.schedule === "undefined"
+      ? context.scheduleConfig
+      : normalizeBackupScheduleConfig({
+          value: options.schedule,
+          timezoneFallback: context.scheduleConfig.timezone,
+          now,
+        }).config;
+  const count = options.count ?? DEFAULT_PREVIEW_COUNT;
+  const horizonEndLocalDate = addDaysToDateKey(
+    toLocalDateKey(now, config.timezone),
+    options.horizonDays ?? DEFAULT_PREVIEW_HORIZON_DAYS,
+  );
+
+  const previewSlot = (slot: BackupSlot): SchedulePreviewOccurrence[] =>
+    getUpcomingOccurrences({
+      config,
+      scheduleState: context.scheduleState,
+      slot,
+      now,
+      count,
+      horizonEndLocalDate,
+    }).map((occurrence) => ({
+      ...occurrence,
+      blackedOut: isLocalDateBlackedOut({
+        ...config,
+        localDate: toScheduleLocalDateKey(new Date(occurrence.at), config),
+      }),
+    }));
+
+  const cadences: Partial<Record<BackupCadence, SchedulePreviewOccurrence[]>> = {};
+  // Higher GFS tiers are filled by promotion and never fork on their own.
+  const forkingSlotKeys = getForkingSlots(config).map((slot) => slot.key);
+  for (const cadence of config.enabledCadences) {
+    cadences[cadence] = forkingSlotKeys.includes(cadence)
+      ? previewSlot(toBuiltInSlot(config, cadence))
+      : [];
+  }
+
+  const customSlots: Record<string, SchedulePreviewOccurrence[]> = {};
+  for (const slot of config.customSlots) {
+    customSlots[slot.name] = previewSlot(toCustomSlot(slot));
+  }
+
+  return {
+    timezone: config.timezone,
+    anchorLocalDate: config.anchorLocalDate,
+    runAtLocalTime: config.runAtLocalTime,
+    horizonEndLocalDate,
+    cadences,
+    customSlots,
+    checkedAt: new Date().toISOString(),
+  };
+};
+
+export type BackupCalendarEvent = {
+  kind: "scheduled" | "completed";
+  scope: BackupCadence;
+  // Only set for custom slots.
+  slot?: string;
+  environmentId: string;
+  at: string;
+  // Existing backups a scheduled run is expected to rotate out.
+  replacesEnvironmentIds: string[];
+};
+
+export type BackupCalendarResult = {
+  // The DatoCMS site ID, or the registry project ID when the site cannot be read.
+  projectId: string;
+  timezone: string;
+  events: BackupCalendarEvent[];
+  checkedAt: string;
+};
+
+type BackupCalendarOptions = BackupExecutionOptions & {
+  horizonDays?: number;
+};
+
+export const DEFAULT_CALENDAR_HORIZON_DAYS = 90;
+const DEFAULT_CALENDAR_PROJECT_ID = "default";
+
+/**
+ * Mirrors the pruning in `executeScopedBackup`: the first run trims the cadence
+ * down to `retention - 1` older backups and every following run drops one more.
+ */
+const getRotatedOutGenerations = (
+  generations: BackupGeneration[],
+  retention: number,
+  runIndex: number,
+): BackupGeneration[] => {
+  const start = Math.max(retention - runIndex - 1, 0);
+  const end = runIndex === 0 ? generations.length : Math.max(retention - runIndex, 0);
+  return generations.slice(start, end);
+};
+
+/**
+ * Lists completed backups (existing environments plus the last recorded run of
+ * each cadence) and the scheduled runs within the horizon, oldest first.
+ * Blacked-out occurrences are left out because the job will not run them.
+ */
+export const getBackupCalendar = async (
+  options: BackupCalendarOptions = {},
+): Promise<BackupCalendarResult> => {
+  const now = options.now ?? new Date();
+  const context = await getBackupContext(options);
+  const config = context.scheduleConfig;
+  const environments = await context.client.environments.list();
+  const pinnedEnvironmentIds = context.scheduleState.pinnedEnvironmentIds ?? [];
+  const horizonEndLocalDate = addDaysToDateKey(
+    toLocalDateKey(now, config.timezone),
+    options.horizonDays ?? DEFAULT_CALENDAR_HORIZON_DAYS,
+  );
+  const events: BackupCalendarEvent[] = [];
+
+  const allSlots = [
+    ...BACKUP_CADENCES.map((cadence) => toBuiltInSlot(config, cadence)),
+    ...config.customSlots.map(toCustomSlot),
+  ];
+  for (const slot of allSlots) {
+    const generations = getBackupGenerationsForPrefix(environments, slot.prefix);
+    for (const generation of generations) {
+      events.push({
+        kind: "completed",
+        scope: slot.cadence,
+        ...toSlotName(slot),
+        environmentId: generation.environmentId,
+        at: generation.createdAt,
+        replacesEnvironmentIds: [],
+      });
+    }
+
+    // The environment of the last run may since have been rotated out or renamed.
+    const lastRunAt = context.scheduleState.lastRunAtByCadence?.[slot.key];
+    const lastEnvironmentId =
+      context.scheduleState.lastManagedEnvironmentIdByCadence?.[slot.key];
+    if (
+      lastRunAt &&
+      lastEnvironmentId &&
+      !generations.some((generation) => generation.environmentId === lastEnvironmentId)
+    ) {
+      events.push({
+        kind: "completed",
+        scope: slot.cadence,
+        ...toSlotName(slot),
+        environmentId: lastEnvironmentId,
+        at: lastRunAt,
+        replacesEnvironmentIds: [],
+      });
+    }
+  }
+
+  for (const slot of getForkingSlots(config)) {
+    const { cadence } = slot;
+    const rotatingGenerations = getBackupGenerationsForPrefix(
+      environments,
+      slot.prefix,
+      pinnedEnvironmentIds,
+    );
+    const occurrences = getUpcomingOccurrences({
+      config,
+      scheduleState: context.scheduleState,
+      slot,
+      now,
+      count: MAX_PREVIEW_COUNT,
+      horizonEndLocalDate,
+    }).filter(
+      (occurrence) =>
+        !isLocalDateBlackedOut({
+          ...config,
+          localDate: toScheduleLocalDateKey(new Date(occurrence.at), config),
+        }),
+    );
+
+    for (const [runIndex, occurrence] of occurrences.entries()) {
+      events.push({
+        kind: "scheduled",
+        scope: cadence,
+        ...toSlotName(slot),
+        environmentId: `${slot.prefix}-${getEnvironmentSuffix(cadence, new Date(occurrence.at))}`,
+        at: occurrence.at,
+        replacesEnvironmentIds: isGfsTierSlot(config, slot)
+            ? []
+            : getRotatedOutGenerations(rotatingGenerations, slot.retention, runIndex).map(
+                (generation) => generation.environmentId,
+              ),
+      });
+    }
+  }
+
+  events.sort((left, right) => Date.parse(left.at) - Date.parse(right.at));
+
+  const siteId = await getProjectSiteId(context.client);
+  return {
+    projectId: siteId ?? options.projectId ?? DEFAULT_CALENDAR_PROJECT_ID,
+    timezone: config.timezone,
+    events,
+    checkedAt: new Date().toISOString(),
+  };
+};
+
+export type BackupPinResult = {
+  environmentId: string;
+  pinned: boolean;
+  pinnedEnvironmentIds: string[];
+  checkedAt: string;
+};
+
+type BackupPinOptions = BackupExecutionOptions & {
+  environmentId: string;
+  pinned: boolean;
+};
+
+export const setBackupPinned = async (
+  options: BackupPinOptions,
+): Promise<BackupPinResult> => {
+  const context = await getBackupContext(options);
+  const { environmentId, pinned } = options;
+
+  if (!context.pluginId) {
+    throw new PluginNotInstalledError();
+  }
+
+  if (pinned) {
+    const environments = await context.client.environments.list();
+    const exists = environments.some(
+      (environment) => environment.id === environmentId && !environment.meta.primary,
+    );
+    if (!exists) {
+      throw new BackupEnvironmentNotFoundError(environmentId);
+    }
+  }
+
+  // Only the pins change; a run saving its progress meanwhile keeps its slot state.
+  const saved = await persistScheduleState({
+    context,
+    update: (current) => {
+      const currentPins = current.pinnedEnvironmentIds ?? [];
+      return {
+        ...current,
+        pinnedEnvironmentIds: pinned
+          ? [...new Set([...currentPins, environmentId])]
+          : currentPins.filter((candidate) => candidate !== environmentId),
+      };
     },
+  });
+
+  return {
+    environmentId,
+    pinned,
+    pinnedEnvironmentIds: saved.pinnedEnvironmentIds ?? [],
     checkedAt: new Date().toISOString(),
   };
 };
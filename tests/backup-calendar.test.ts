@@ -0,0 +1,141 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { createBackupCalendarHandler } from "../api/datocms/backup-calendar";
+import { invokeVercelStyleHandler } from "../utils/platformAdapters";
+
+process.env.DATOCMS_BACKUPS_SHARED_SECRET = "test-shared-secret";
+process.env.DATOCMS_BACKUPS_CALENDAR_TOKEN = "test-calendar-token";
+
+const createCalendarLoader = (onCall?: (options: { horizonDays?: number }) => void) =>
+  async (options: { horizonDays?: number }) => {
+    onCall?.(options);
+    return {
+      projectId: "site-1",
+      timezone: "UTC",
+      events: [
+        {
+          kind: "completed" as const,
+          scope: "daily" as const,
+          environmentId: "backup-plugin-daily-2026-02-26",
+          at: "2026-02-26T00:05:00.000Z",
+          replacesEnvironmentIds: [],
+        },
+        {
+          kind: "scheduled" as const,
+          scope: "every_n_hours" as const,
+          environmentId: "backup-plugin-every-n-hours-2026-02-28-06",
+          at: "2026-02-28T06:00:00.000Z",
+          replacesEnvironmentIds: ["backup-plugin-every-n-hours-2026-02-20-06"],
+        },
+      ],
+      checkedAt: "2026-02-27T12:00:00.000Z",
+    };
+  };
+
+test("backup-calendar accepts the calendar token query parameter and returns an iCalendar feed", async () => {
+  let receivedHorizonDays: number | undefined;
+  const handler = createBackupCalendarHandler(
+    createCalendarLoader((options) => {
+      receivedHorizonDays = options.horizonDays;
+    }),
+  );
+
+  const response = await invokeVercelStyleHandler(handler, {
+    method: "GET",
+    body: undefined,
+    query: { token: "test-calendar-token", days: "30" },
+  });
+
+  assert.equal(response.statusCode, 200);
+  assert.equal(response.headers["Content-Type"], "text/calendar; charset=utf-8");
+  assert.equal(receivedHorizonDays, 30);
+
+  const lines = response.body.split("\r\n");
+  assert.equal(lines[0], "BEGIN:VCALENDAR");
+  assert.ok(
+    lines.includes("UID:completed-site-1-backup-plugin-daily-2026-02-26@datocms-backups"),
+  );
+  assert.ok(lines.includes("DTSTART:20260226T000500Z"));
+  assert.ok(lines.includes("SUMMARY:Daily backup"));
+  assert.ok(lines.includes("SUMMARY:Scheduled every n hours backup"));
+  assert.ok(lines.includes("DTSTAMP:20260227T120000Z"));
+  assert.ok(
+    response.body
+      .replace(/\r\n /g, "")
+      .includes(
+        "DESCRIPTION:Environment: backup-plugin-every-n-hours-2026-02-28-06\\nRotates out: backup-plugin-every-n-hours-2026-02-20-06",
+      ),
+  );
+  assert.ok(lines.every((line) => line.length <= 75));
+  assert.equal(lines.at(-2), "END:VCALENDAR");
+});
+
+test("backup-calendar also accepts the auth header", async () => {
+  const handler = createBackupCalendarHandler(createCalendarLoader());
+
+  const response = await invokeVercelStyleHandler(handler, {
+    method: "GET",
+    body: undefined,
+    headers: { "x-datocms-backups-auth": "test-shared-secret" },
+  });
+
+  assert.equal(response.statusCode, 200);
+});
+
+test("backup-calendar does not accept the shared secret in the URL", async () => {
+  const handler = createBackupCalendarHandler(async () => {
+    throw new Error("should not be called");
+  });
+
+  const response = await invokeVercelStyleHandler(handler, {
+    method: "GET",
+    body: undefined,
+    query: { token: "test-shared-secret" },
+  });
+
+  assert.equal(response.statusCode, 401);
+  assert.equal(JSON.parse(response.body).error.code, "UNAUTHORIZED");
+});
+
+test("backup-calendar prefers the bound calendar token over the environment", async () => {
+  const handler = createBackupCalendarHandler(createCalendarLoader());
+
+  const response = await invokeVercelStyleHandler(handler, {
+    method: "GET",
+    body: undefined,
+    query: { token: "bound-calendar-token" },
+    internalBackupsCalendarToken: "bound-calendar-token",
+  });
+
+  assert.equal(response.statusCode, 200);
+});
+
+test("backup-calendar rejects a wrong token", async () => {
+  const handler = createBackupCalendarHandler(async () => {
+    throw new Error("should not be called");
+  });
+
+  const response = await invokeVercelStyleHandler(handler, {
+    method: "GET",
+    body: undefined,
+    query: { token: "wrong-secret" },
+  });
+
+  assert.equal(response.statusCode, 401);
+  assert.equal(JSON.parse(response.body).error.code, "UNAUTHORIZED");
+});
+
+test("backup-calendar validates the days query parameter", async () => {
+  const handler = createBackupCalendarHandler(async () => {
+    throw new Error("should not be called");
+  });
+
+  const response = await invokeVercelStyleHandler(handler, {
+    method: "GET",
+    body: undefined,
+    query: { token: "test-calendar-token", days: "0" },
+  });
+
+  assert.equal(response.statusCode, 400);
+  assert.equal(JSON.parse(response.body).error.code, "INVALID_CALENDAR_HORIZON");
+});
@@ -0,0 +1,130 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { createBackupJobStatusHandler } from "../api/datocms/backup-job-status";
+import { BackupJobNotFoundError } from "../services/backupService";
+import { invokeVercelStyleHandler } from "../utils/platformAdapters";
+import {
+  BACKUPS_BACKUP_JOB_STATUS_EVENT_TYPE,
+  BACKUPS_MPI_BACKUP_JOB_STATUS_REQUEST_MESSAGE,
+  BACKUPS_MPI_BACKUP_JOB_STATUS_RESPONSE_MESSAGE,
+  BACKUPS_MPI_VERSION,
+  BACKUPS_PLUGIN_NAME,
+} from "../utils/healthContract";
+
+process.env.DATOCMS_BACKUPS_SHARED_SECRET = "test-shared-secret";
+
+const withAuthHeaders = (sharedSecret = "test-shared-secret") => ({
+  "x-datocms-backups-auth": sharedSecret,
+});
+
+const createValidRequestBody = () => ({
+  event_type: BACKUPS_BACKUP_JOB_STATUS_EVENT_TYPE,
+  mpi: {
+    message: BACKUPS_MPI_BACKUP_JOB_STATUS_REQUEST_MESSAGE,
+    version: BACKUPS_MPI_VERSION,
+  },
+  plugin: {
+    name: BACKUPS_PLUGIN_NAME,
+    environment: "main",
+  },
+  job: {
+    id: "job-1",
+  },
+});
+
+test("backup-job-status returns the job and its fork progress", async () => {
+  let receivedJobId: string | undefined;
+  const handler = createBackupJobStatusHandler(async (options) => {
+    receivedJobId = options.jobId;
+    return {
+      job: {
+        id: options.jobId,
+        scope: "daily",
+        environmentId: "backup-plugin-daily-2026-02-27",
+        sourceEnvironmentId: "main",
+        startedAt: "2026-02-27T12:00:00.000Z",
+        status: "running",
+        pendingDeletionEnvironmentIds: ["backup-plugin-daily-2026-02-26"],
+        deletedEnvironmentIds: [],
+        lockOwner: "owner-1",
+      },
+      progress: 40,
+      checkedAt: "2026-02-27T12:01:00.000Z",
+    };
+  });
+
+  const response = await invokeVercelStyleHandler(handler, {
+    method: "POST",
+    body: createValidRequestBody(),
+    headers: withAuthHeaders(),
+  });
+
+  assert.equal(response.statusCode, 200);
+  const payload = JSON.parse(response.body);
+  assert.deepEqual(payload.mpi, {
+    message: BACKUPS_MPI_BACKUP_JOB_STATUS_RESPONSE_MESSAGE,
+    version: BACKUPS_MPI_VERSION,
+  });
+  assert.deepEqual(payload.job, {
+    id: "job-1",
+    scope: "daily",
+    environmentId: "backup-plugin-daily-2026-02-27",
+    sourceEnvironmentId: "main",
+    startedAt: "2026-02-27T12:00:00.000Z",
+    status: "running",
+    progress: 40,
+    deletedEnvironmentIds: [],
+    completedAt: null,
+    error: null,
+    retentionError: null,
+  });
+  assert.equal(receivedJobId, "job-1");
+});
+
+test("backup-job-status validates the job ID", async () => {
+  const handler = createBackupJobStatusHandler(async () => {
+    throw new Error("should not be called");
+  });
+
+  const response = await invokeVercelStyleHandler(handler, {
+    method: "POST",
+    body: { ...createValidRequestBody(), job: { id: " " } },
+    headers: withAuthHeaders(),
+  });
+
+  assert.equal(response.statusCode, 400);
+  const payload = JSON.parse(response.body);
+  assert.equal(payload.error.code, "INVALID_JOB_ID");
+});
+
+test("backup-job-status returns 404 for unknown jobs", async () => {
+  const handler = createBackupJobStatusHandler(async (options) => {
+    throw new BackupJobNotFoundError(options.jobId);
+  });
+
+  const response = await invokeVercelStyleHandler(handler, {
+    method: "POST",
+    body: createValidRequestBody(),
+    headers: withAuthHeaders(),
+  });
+
+  assert.equal(response.statusCode, 404);
+  const payload = JSON.parse(response.body);
+  assert.equal(payload.error.code, "BACKUP_JOB_NOT_FOUND");
+  assert.deepEqual(payload.error.details, { jobId: "job-1" });
+});
+
+test("backup-job-status rejects missing auth header", async () => {
+  const handler = createBackupJobStatusHandler(async () => {
+    throw new Error("should not be called");
+  });
+
+  const response = await invokeVercelStyleHandler(handler, {
+    method: "POST",
+    body: createValidRequestBody(),
+  });
+
+  assert.equal(response.statusCode, 401);
+  const payload = JSON.parse(response.body);
+  assert.equal(payload.error.code, "UNAUTHORIZED");
+});
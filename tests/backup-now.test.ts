@@ -1,7 +1,11 @@
 import assert from "node:assert/strict";
 import test from "node:test";
 import { createBackupNowHandler } from "../api/datocms/backup-now";
-import { CadenceNotEnabledError } from "../services/backupService";
+import {
+  BackupAlreadyRunningError,
+  BackupSlotNotFoundError,
+  CadenceNotEnabledError,
+} from "../services/backupService";
 import { invokeVercelStyleHandler } from "../utils/platformAdapters";
 import {
   BACKUPS_BACKUP_NOW_EVENT_TYPE,
@@ -40,7 +44,9 @@ test("backup-now returns deterministic payload for valid request", async () => {
     status: "executed",
     executionMode: "lambda_cron",
     createdEnvironmentId: "backup-plugin-daily-2026-02-27",
-    deletedEnvironmentId: null,
+    deletedEnvironmentIds: ["backup-plugin-daily-2026-02-20"],
+    deletedEnvironmentId: "backup-plugin-daily-2026-02-20",
+    sourceEnvironmentId: "main",
     completedAt: "2026-02-27T12:00:00.000Z",
     checkedAt: "2026-02-27T12:00:00.000Z",
   }));
@@ -63,6 +69,9 @@ test("backup-now returns deterministic payload for valid request", async () => {
   assert.equal(payload.backup.scope, "daily");
   assert.equal(payload.backup.executionMode, "lambda_cron");
   assert.equal(payload.backup.createdEnvironmentId, "backup-plugin-daily-2026-02-27");
+  assert.deepEqual(payload.backup.deletedEnvironmentIds, ["backup-plugin-daily-2026-02-20"]);
+  assert.equal(payload.backup.deletedEnvironmentId, "backup-plugin-daily-2026-02-20");
+  assert.equal(payload.backup.sourceEnvironmentId, "main");
 });
 
 test("backup-now rejects unsupported methods", async () => {
@@ -91,7 +100,7 @@ test("backup-now validates slot scope", async () => {
     body: {
       ...createValidRequestBody(),
       slot: {
-        scope: "yearly",
+        scope: "fortnightly",
       },
     },
     headers: withAuthHeaders(),
@@ -129,6 +138,7 @@ test("backup-now returns 500 when backup execution fails", async () => {
   const handler = createBackupNowHandler(async () => ({
     scope: "daily",
     status: "failed",
+    code: "BACKUP_FAILED",
     error: "fork failed",
     checkedAt: "2026-02-27T12:00:00.000Z",
   }));
@@ -145,6 +155,184 @@ test("backup-now returns 500 when backup execution fails", async () => {
   assert.equal(payload.error.code, "BACKUP_NOW_FAILED");
 });
 
+test("backup-now returns 409 when the environment quota is exhausted", async () => {
+  const handler = createBackupNowHandler(async () => ({
+    scope: "daily",
+    status: "failed",
+    code: "ENVIRONMENT_QUOTA_EXCEEDED",
+    error: "Not enough sandbox environment quota to fork a new backup (5/5 in use).",
+    checkedAt: "2026-02-27T12:00:00.000Z",
+  }));
+
+  const response = await invokeVercelStyleHandler(handler, {
+    method: "POST",
+    body: createValidRequestBody(),
+    headers: withAuthHeaders(),
+  });
+
+  assert.equal(response.statusCode, 409);
+  const payload = JSON.parse(response.body);
+  assert.equal(payload.ok, false);
+  assert.equal(payload.error.code, "ENVIRONMENT_QUOTA_EXCEEDED");
+});
+
+test("backup-now returns 409 when the configured source environment is missing", async () => {
+  const handler = createBackupNowHandler(async () => ({
+    scope: "daily",
+    status: "failed",
+    code: "SOURCE_ENVIRONMENT_NOT_FOUND",
+    error: 'Source environment "staging" does not exist.',
+    checkedAt: "2026-02-27T12:00:00.000Z",
+  }));
+
+  const response = await invokeVercelStyleHandler(handler, {
+    method: "POST",
+    body: createValidRequestBody(),
+    headers: withAuthHeaders(),
+  });
+
+  assert.equal(response.statusCode, 409);
+  assert.equal(JSON.parse(response.body).error.code, "SOURCE_ENVIRONMENT_NOT_FOUND");
+});
+
+test("backup-now runs a custom slot when the request names one", async () => {
+  let receivedOptions: unknown;
+  const handler = createBackupNowHandler(async (options) => {
+    receivedOptions = options;
+    return {
+      scope: "weekly",
+      slot: "pre-release",
+      status: "executed",
+      executionMode: "lambda_cron",
+      createdEnvironmentId: "release-2026-02-27",
+      deletedEnvironmentIds: [],
+      deletedEnvironmentId: null,
+      sourceEnvironmentId: "main",
+      completedAt: "2026-02-27T12:00:00.000Z",
+      checkedAt: "2026-02-27T12:00:00.000Z",
+    };
+  });
+
+  const response = await invokeVercelStyleHandler(handler, {
+    method: "POST",
+    body: { ...createValidRequestBody(), slot: { name: "pre-release" } },
+    headers: withAuthHeaders(),
+  });
+
+  assert.equal(response.statusCode, 200);
+  assert.deepEqual(receivedOptions, {
+    slotName: "pre-release",
+    providerHint: undefined,
+    apiToken: undefined,
+    projectId: undefined,
+    projectRegistry: undefined,
+  });
+  const payload = JSON.parse(response.body);
+  assert.equal(payload.backup.scope, "weekly");
+  assert.equal(payload.backup.slot, "pre-release");
+});
+
+test("backup-now returns 404 when the named slot is not defined", async () => {
+  const handler = createBackupNowHandler(async () => {
+    throw new BackupSlotNotFoundError("missing");
+  });
+
+  const response = await invokeVercelStyleHandler(handler, {
+    method: "POST",
+    body: { ...createValidRequestBody(), slot: { name: "missing" } },
+    headers: withAuthHeaders(),
+  });
+
+  assert.equal(response.statusCode, 404);
+  const payload = JSON.parse(response.body);
+  assert.equal(payload.error.code, "SLOT_NOT_FOUND");
+  assert.deepEqual(payload.error.details, { slot: "missing" });
+});
+
+test("backup-now returns 409 while another backup run holds the lock", async () => {
+  const handler = createBackupNowHandler(async () => {
+    throw new BackupAlreadyRunningError({
+      owner: "other-run",
+      provider: "vercel",
+      acquiredAt: "2026-02-27T12:00:00.000Z",
+      expiresAt: "2026-02-27T12:15:00.000Z",
+    });
+  });
+
+  const response = await invokeVercelStyleHandler(handler, {
+    method: "POST",
+    body: createValidRequestBody(),
+    headers: withAuthHeaders(),
+  });
+
+  assert.equal(response.statusCode, 409);
+  const payload = JSON.parse(response.body);
+  assert.equal(payload.error.code, "BACKUP_ALREADY_RUNNING");
+  assert.deepEqual(payload.error.details, {
+    provider: "vercel",
+    acquiredAt: "2026-02-27T12:00:00.000Z",
+    expiresAt: "2026-02-27T12:15:00.000Z",
+  });
+});
+
+test("backup-now starts a job and answers 202 when the request is async", async () => {
+  const handler = createBackupNowHandler(
+    async () => {
+      throw new Error("should not be called");
+    },
+    async () => ({
+      scope: "daily",
+      status: "started",
+      job: {
+        id: "job-1",
+        scope: "daily",
+        environmentId: "backup-plugin-daily-2026-02-27",
+        sourceEnvironmentId: "main",
+        startedAt: "2026-02-27T12:00:00.000Z",
+        status: "running",
+        pendingDeletionEnvironmentIds: [],
+        deletedEnvironmentIds: [],
+        lockOwner: "owner-1",
+      },
+      checkedAt: "2026-02-27T12:00:01.000Z",
+    }),
+  );
+
+  const response = await invokeVercelStyleHandler(handler, {
+    method: "POST",
+    body: { ...createValidRequestBody(), async: true },
+    headers: withAuthHeaders(),
+  });
+
+  assert.equal(response.statusCode, 202);
+  const payload = JSON.parse(response.body);
+  assert.deepEqual(payload.job, {
+    id: "job-1",
+    scope: "daily",
+    environmentId: "backup-plugin-daily-2026-02-27",
+    sourceEnvironmentId: "main",
+    startedAt: "2026-02-27T12:00:00.000Z",
+    status: "running",
+  });
+  assert.equal(payload.backup, undefined);
+});
+
+test("backup-now validates the async flag", async () => {
+  const handler = createBackupNowHandler(async () => {
+    throw new Error("should not be called");
+  });
+
+  const response = await invokeVercelStyleHandler(handler, {
+    method: "POST",
+    body: { ...createValidRequestBody(), async: "yes" },
+    headers: withAuthHeaders(),
+  });
+
+  assert.equal(response.statusCode, 400);
+  const payload = JSON.parse(response.body);
+  assert.equal(payload.error.code, "INVALID_ASYNC_FLAG");
+});
+
 test("backup-now rejects missing auth header", async () => {
   const handler = createBackupNowHandler(async () => {
     throw new Error("should not be called");
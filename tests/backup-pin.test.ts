@@ -0,0 +1,117 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { createBackupPinHandler } from "../api/datocms/backup-pin";
+import { BackupEnvironmentNotFoundError } from "../services/backupService";
+import { invokeVercelStyleHandler } from "../utils/platformAdapters";
+import {
+  BACKUPS_BACKUP_PIN_EVENT_TYPE,
+  BACKUPS_MPI_BACKUP_PIN_REQUEST_MESSAGE,
+  BACKUPS_MPI_BACKUP_PIN_RESPONSE_MESSAGE,
+  BACKUPS_MPI_VERSION,
+  BACKUPS_PLUGIN_NAME,
+} from "../utils/healthContract";
+
+process.env.DATOCMS_BACKUPS_SHARED_SECRET = "test-shared-secret";
+
+const withAuthHeaders = (sharedSecret = "test-shared-secret") => ({
+  "x-datocms-backups-auth": sharedSecret,
+});
+
+const createValidRequestBody = () => ({
+  event_type: BACKUPS_BACKUP_PIN_EVENT_TYPE,
+  mpi: {
+    message: BACKUPS_MPI_BACKUP_PIN_REQUEST_MESSAGE,
+    version: BACKUPS_MPI_VERSION,
+  },
+  plugin: {
+    name: BACKUPS_PLUGIN_NAME,
+    environment: "main",
+  },
+  pin: {
+    environmentId: "backup-plugin-daily-2026-02-27",
+    pinned: true,
+  },
+});
+
+test("backup-pin forwards the pin request and returns the pin list", async () => {
+  let receivedOptions: { environmentId: string; pinned: boolean } | undefined;
+  const handler = createBackupPinHandler(async (options) => {
+    receivedOptions = options;
+    return {
+      environmentId: options.environmentId,
+      pinned: options.pinned,
+      pinnedEnvironmentIds: [options.environmentId],
+      checkedAt: "2026-02-27T12:00:00.000Z",
+    };
+  });
+
+  const response = await invokeVercelStyleHandler(handler, {
+    method: "POST",
+    body: createValidRequestBody(),
+    headers: withAuthHeaders(),
+  });
+
+  assert.equal(response.statusCode, 200);
+  const payload = JSON.parse(response.body);
+  assert.equal(payload.ok, true);
+  assert.deepEqual(payload.mpi, {
+    message: BACKUPS_MPI_BACKUP_PIN_RESPONSE_MESSAGE,
+    version: BACKUPS_MPI_VERSION,
+  });
+  assert.deepEqual(payload.pin.pinnedEnvironmentIds, ["backup-plugin-daily-2026-02-27"]);
+  assert.equal(receivedOptions?.environmentId, "backup-plugin-daily-2026-02-27");
+  assert.equal(receivedOptions?.pinned, true);
+});
+
+test("backup-pin validates the pinned flag", async () => {
+  const handler = createBackupPinHandler(async () => {
+    throw new Error("should not be called");
+  });
+
+  const response = await invokeVercelStyleHandler(handler, {
+    method: "POST",
+    body: {
+      ...createValidRequestBody(),
+      pin: {
+        environmentId: "backup-plugin-daily-2026-02-27",
+        pinned: "yes",
+      },
+    },
+    headers: withAuthHeaders(),
+  });
+
+  assert.equal(response.statusCode, 400);
+  const payload = JSON.parse(response.body);
+  assert.equal(payload.error.code, "INVALID_PIN_STATE");
+});
+
+test("backup-pin returns 404 for unknown environments", async () => {
+  const handler = createBackupPinHandler(async (options) => {
+    throw new BackupEnvironmentNotFoundError(options.environmentId);
+  });
+
+  const response = await invokeVercelStyleHandler(handler, {
+    method: "POST",
+    body: createValidRequestBody(),
+    headers: withAuthHeaders(),
+  });
+
+  assert.equal(response.statusCode, 404);
+  const payload = JSON.parse(response.body);
+  assert.equal(payload.error.code, "ENVIRONMENT_NOT_FOUND");
+});
+
+test("backup-pin rejects missing auth header", async () => {
+  const handler = createBackupPinHandler(async () => {
+    throw new Error("should not be called");
+  });
+
+  const response = await invokeVercelStyleHandler(handler, {
+    method: "POST",
+    body: createValidRequestBody(),
+  });
+
+  assert.equal(response.statusCode, 401);
+  const payload = JSON.parse(response.body);
+  assert.equal(payload.error.code, "UNAUTHORIZED");
+});
@@ -0,0 +1,2698 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import {
+  BackupAlreadyRunningError,
+  getBackupCalendar,
+  getBackupJobStatus,
+  getBackupStatus,
+  getSchedulePreview,
+  hasScheduledBackupFailures,
+  ProjectNotFoundError,
+  runManualBackupNow,
+  runScheduledBackups,
+  runScheduledBackupsForProjects,
+  setBackupPinned,
+  startManualBackup,
+  type BackupClient,
+} from "../services/backupService";
+import { BACKUPS_PLUGIN_NAME } from "../utils/healthContract";
+
+type FakeEnvironment = {
+  id: string;
+  meta: {
+    primary: boolean;
+    created_at: string;
+    status?: "creating" | "ready" | "destroying";
+    fork_completion_percentage?: number;
+  };
+};
+
+const createFakeClient = ({
+  environments = [],
+  parameters = {},
+  sandboxLimit = null,
+}: {
+  environments?: FakeEnvironment[];
+  parameters?: Record<string, unknown>;
+  sandboxLimit?: number | null;
+} = {}) => {
+  const state = {
+    environments: [
+      {
+        id: "main",
+        meta: { primary: true, created_at: "2025-01-01T00:00:00.000Z" },
+      },
+      ...environments,
+    ],
+    parameters,
+    calls: [] as string[],
+  };
+  let clock = Date.parse("2026-03-01T00:00:00.000Z");
+
+  const client = {
+    plugins: {
+      list: async () => [
+        {
+          id: "plugin-1",
+          name: "Automatic Environment Backups",
+          package_name: BACKUPS_PLUGIN_NAME,
+          parameters: state.parameters,
+        },
+      ],
+      update: async (_pluginId: string, body: { parameters: Record<string, unknown> }) => {
+        state.parameters = body.parameters;
+      },
+    },
+    site: {
+      find: async () => ({ timezone: "UTC" }),
+    },
+    subscriptionLimits: {
+      find: async () => ({
+        code: "sandbox_environments",
+        limit: sandboxLimit,
+        usage: state.environments.filter((environment) => !environment.meta.primary)
+          .length,
+      }),
+    },
+    environments: {
+      list: async () =>
+        state.environments.map((environment) => ({
+          ...environment,
+          meta: { status: "ready", ...environment.meta },
+        })),
+      fork: async (
+        sourceId: string,
+        body: { id: string },
+        queryParams?: { fast?: boolean; immediate_return?: boolean },
+      ) => {
+        state.calls.push(`fork:${sourceId}:${body.id}${queryParams?.fast ? ":fast" : ""}`);
+        clock += 1000;
+        state.environments.push({
+          id: body.id,
+          meta: {
+            primary: false,
+            created_at: new Date(clock).toISOString(),
+            ...(queryParams?.immediate_return
+              ? { status: "creating" as const, fork_completion_percentage: 0 }
+              : {}),
+          },
+        });
+      },
+      find: async (environmentId: string) => {
+        const environment = state.environments.find(
+          (candidate) => candidate.id === environmentId,
+        );
+        if (!environment) {
+          throw new Error(`Environment ${environmentId} not found`);
+        }
+        return { ...environment, meta: { ...environment.meta, status: "ready" } };
+      },
+      rename: async (environmentId: string, body: { id: string }) => {
+        state.calls.push(`rename:${environmentId}:${body.id}`);
+        state.environments = state.environments.map((environment) =>
+          environment.id === environmentId ? { ...environment, id: body.id } : environment,
+        );
+      },
+      destroy: async (environmentId: string) => {
+        state.calls.push(`destroy:${environmentId}`);
+        state.environments = state.environments.filter(
+          (environment) => environment.id !== environmentId,
+        );
+      },
+    },
+  };
+
+  return { client: client as unknown as BackupClient, state };
+};
+
+const createBackup = (id: string, createdAt: string): FakeEnvironment => ({
+  id,
+  meta: { primary: false, created_at: createdAt },
+});
+
+const createSchedule = (overrides: Record<string, unknown> = {}) => ({
+  version: 1,
+  enabledCadences: ["daily"],
+  timezone: "UTC",
+  anchorLocalDate: "2026-02-01",
+  updatedAt: "2026-02-01T00:00:00.000Z",
+  ...overrides,
+});
+
+test("scheduled run keeps the configured number of generations and prunes the oldest after forking", async () => {
+  const { client, state } = createFakeClient({
+    environments: [
+      createBackup("backup-plugin-daily-2026-02-24", "2026-02-24T02:05:00.000Z"),
+      createBackup("backup-plugin-daily-2026-02-25", "2026-02-25T02:05:00.000Z"),
+      createBackup("backup-plugin-daily-2026-02-26", "2026-02-26T02:05:00.000Z"),
+    ],
+    parameters: {
+      backupSchedule: createSchedule({ retentionByCadence: { daily: 3 } }),
+    },
+  });
+
+  const result = await runScheduledBackups({
+    apiToken: "token",
+    client,
+    now: new Date("2026-02-27T02:05:00.000Z"),
+  });
+
+  assert.equal(result.results[0]?.status, "executed");
+  assert.deepEqual(state.calls, [
+    "fork:main:backup-plugin-daily-2026-02-27",
+    "destroy:backup-plugin-daily-2026-02-24",
+  ]);
+  if (result.results[0]?.status === "executed") {
+    assert.deepEqual(result.results[0].result.deletedEnvironmentIds, [
+      "backup-plugin-daily-2026-02-24",
+    ]);
+  }
+});
+
+test("standard rotation only replaces the same-day backup before forking when the environment quota cannot be read", async () => {
+  const { client, state } = createFakeClient({
+    environments: [
+      createBackup("backup-plugin-daily-2026-02-26", "2026-02-26T02:05:00.000Z"),
+      createBackup("backup-plugin-daily-2026-02-27", "2026-02-27T02:05:00.000Z"),
+    ],
+    parameters: { backupSchedule: createSchedule() },
+  });
+  client.subscriptionLimits.find = (async () => {
+    throw new Error("forbidden");
+  }) as unknown as BackupClient["subscriptionLimits"]["find"];
+
+  const result = await runScheduledBackups({
+    apiToken: "token",
+    client,
+    now: new Date("2026-02-27T02:05:00.000Z"),
+  });
+
+  // Older generations are only pruned once the fork succeeded.
+  assert.deepEqual(state.calls, [
+    "destroy:backup-plugin-daily-2026-02-27",
+    "fork:main:backup-plugin-daily-2026-02-27",
+    "destroy:backup-plugin-daily-2026-02-26",
+  ]);
+  assert.equal(result.results[0]?.status, "executed");
+  if (result.results[0]?.status === "executed") {
+    assert.deepEqual(result.results[0].result.deletedEnvironmentIds, [
+      "backup-plugin-daily-2026-02-27",
+      "backup-plugin-daily-2026-02-26",
+    ]);
+  }
+});
+
+test("a failed fork keeps the older generations when the environment quota cannot be read", async () => {
+  const { client, state } = createFakeClient({
+    environments: [
+      createBackup("backup-plugin-daily-2026-02-26", "2026-02-26T02:05:00.000Z"),
+    ],
+    parameters: { backupSchedule: createSchedule() },
+  });
+  client.subscriptionLimits.find = (async () => {
+    throw new Error("forbidden");
+  }) as unknown as BackupClient["subscriptionLimits"]["find"];
+  client.environments.fork = (async () => {
+    throw new Error("fork failed");
+  }) as unknown as BackupClient["environments"]["fork"];
+
+  const result = await runScheduledBackups({
+    apiToken: "token",
+    client,
+    now: new Date("2026-02-27T02:05:00.000Z"),
+  });
+
+  assert.equal(result.results[0]?.status, "failed");
+  assert.deepEqual(state.calls, []);
+  assert.deepEqual(
+    state.environments.map((environment) => environment.id),
+    ["main", "backup-plugin-daily-2026-02-26"],
+  );
+});
+
+test("failed fork leaves every existing generation in place", async () => {
+  const { client, state } = createFakeClient({
+    environments: [
+      createBackup("backup-plugin-daily-2026-02-26", "2026-02-26T02:05:00.000Z"),
+    ],
+    parameters: { backupSchedule: createSchedule() },
+  });
+  client.environments.fork = (async () => {
+    throw new Error("fork failed");
+  }) as unknown as BackupClient["environments"]["fork"];
+
+  const result = await runScheduledBackups({
+    apiToken: "token",
+    client,
+    now: new Date("2026-02-27T02:05:00.000Z"),
+  });
+
+  assert.equal(result.results[0]?.status, "failed");
+  assert.deepEqual(
+    state.environments.map((environment) => environment.id),
+    ["main", "backup-plugin-daily-2026-02-26"],
+  );
+});
+
+test("same-day manual backup replaces the generation carrying today's ID", async () => {
+  const { client, state } = createFakeClient({
+    environments: [
+      createBackup("backup-plugin-daily-2026-02-26", "2026-02-26T02:05:00.000Z"),
+      createBackup("backup-plugin-daily-2026-02-27", "2026-02-27T02:05:00.000Z"),
+    ],
+    parameters: {
+      backupSchedule: createSchedule({ retentionByCadence: { daily: 2 } }),
+    },
+  });
+
+  const result = await runManualBackupNow({
+    scope: "daily",
+    apiToken: "token",
+    client,
+    now: new Date("2026-02-27T15:00:00.000Z"),
+  });
+
+  assert.equal(result.status, "executed");
+  assert.deepEqual(state.calls, [
+    "destroy:backup-plugin-daily-2026-02-27",
+    "fork:main:backup-plugin-daily-2026-02-27",
+  ]);
+  assert.deepEqual(
+    state.environments.map((environment) => environment.id),
+    ["main", "backup-plugin-daily-2026-02-26", "backup-plugin-daily-2026-02-27"],
+  );
+});
+
+test("backup status lists every retained generation newest first", async () => {
+  const { client } = createFakeClient({
+    environments: [
+      createBackup("backup-plugin-weekly-2026-02-12", "2026-02-12T02:05:00.000Z"),
+      createBackup("backup-plugin-weekly-2026-02-19", "2026-02-19T02:05:00.000Z"),
+    ],
+    parameters: {
+      backupSchedule: createSchedule({
+        enabledCadences: ["daily", "weekly"],
+        retentionByCadence: { weekly: 4, monthly: 0 },
+      }),
+    },
+  });
+
+  const status = await getBackupStatus({
+    apiToken: "token",
+    client,
+    now: new Date("2026-02-20T10:00:00.000Z"),
+  });
+
+  assert.equal(status.slots.weekly.retention, 4);
+  assert.equal(status.slots.monthly.retention, 1);
+  assert.equal(status.slots.weekly.lastBackupAt, "2026-02-19T02:05:00.000Z");
+  assert.deepEqual(
+    status.slots.weekly.generations.map((generation) => generation.environmentId),
+    ["backup-plugin-weekly-2026-02-19", "backup-plugin-weekly-2026-02-12"],
+  );
+});
+
+test("safe rotation restores the held backup when the fork fails", async () => {
+  const { client, state } = createFakeClient({
+    environments: [
+      createBackup("backup-plugin-daily-2026-02-27", "2026-02-27T02:05:00.000Z"),
+    ],
+    parameters: {
+      backupSchedule: createSchedule({ rotationMode: "safe" }),
+    },
+  });
+  client.environments.fork = (async () => {
+    throw new Error("fork failed");
+  }) as unknown as BackupClient["environments"]["fork"];
+
+  const result = await runManualBackupNow({
+    scope: "daily",
+    apiToken: "token",
+    client,
+    now: new Date("2026-02-27T15:00:00.000Z"),
+  });
+
+  assert.equal(result.status, "failed");
+  assert.deepEqual(state.calls, [
+    "rename:backup-plugin-daily-2026-02-27:rotating-backup-plugin-daily-2026-02-27",
+    "rename:rotating-backup-plugin-daily-2026-02-27:backup-plugin-daily-2026-02-27",
+  ]);
+  assert.deepEqual(
+    state.environments.map((environment) => environment.id),
+    ["main", "backup-plugin-daily-2026-02-27"],
+  );
+});
+
+test("safe rotation restores the held backup and reports the fork error when the rollback cannot delete the fork", async () => {
+  const { client, state } = createFakeClient({
+    environments: [
+      createBackup("backup-plugin-daily-2026-02-27", "2026-02-27T02:05:00.000Z"),
+    ],
+    parameters: {
+      backupSchedule: createSchedule({ rotationMode: "safe" }),
+    },
+  });
+  client.environments.fork = (async (_sourceId: string, body: { id: string }) => {
+    state.environments.push(createBackup(body.id, "2026-02-27T15:00:00.000Z"));
+    throw new Error("fork failed");
+  }) as unknown as BackupClient["environments"]["fork"];
+  client.environments.destroy = (async () => {
+    throw new Error("destroy failed");
+  }) as unknown as BackupClient["environments"]["destroy"];
+
+  const result = await runManualBackupNow({
+    scope: "daily",
+    apiToken: "token",
+    client,
+    now: new Date("2026-02-27T15:00:00.000Z"),
+  });
+
+  assert.equal(result.status, "failed");
+  assert.equal(result.status === "failed" ? result.error : undefined, "fork failed");
+  assert.deepEqual(state.calls, [
+    "rename:backup-plugin-daily-2026-02-27:rotating-backup-plugin-daily-2026-02-27",
+    "rename:rotating-backup-plugin-daily-2026-02-27:backup-plugin-daily-2026-02-27",
+  ]);
+  assert.ok(
+    state.environments.some(
+      (environment) => environment.id === "backup-plugin-daily-2026-02-27",
+    ),
+  );
+  assert.ok(
+    !state.environments.some((environment) => environment.id.startsWith("rotating-")),
+  );
+});
+
+test("leftover holding environments are never counted or pruned as generations", async () => {
+  const { client, state } = createFakeClient({
+    environments: [
+      createBackup("backup-plugin-daily-2026-02-25-rotating", "2026-02-25T02:05:00.000Z"),
+      createBackup("rotating-backup-plugin-daily-2026-02-26", "2026-02-26T02:05:00.000Z"),
+      createBackup("backup-plugin-daily-2026-02-26", "2026-02-26T02:05:00.000Z"),
+    ],
+    parameters: {
+      backupSchedule: createSchedule({ retentionByCadence: { daily: 2 } }),
+    },
+  });
+
+  await runScheduledBackups({
+    apiToken: "token",
+    client,
+    now: new Date("2026-02-27T02:05:00.000Z"),
+  });
+
+  assert.deepEqual(state.calls, ["fork:main:backup-plugin-daily-2026-02-27"]);
+});
+
+test("safe rotation forks before deleting when the plan has headroom", async () => {
+  const { client, state } = createFakeClient({
+    environments: [
+      createBackup("backup-plugin-daily-2026-02-26", "2026-02-26T02:05:00.000Z"),
+    ],
+    parameters: {
+      backupSchedule: createSchedule({ rotationMode: "safe" }),
+    },
+    sandboxLimit: 2,
+  });
+
+  await runScheduledBackups({
+    apiToken: "token",
+    client,
+    now: new Date("2026-02-27T02:05:00.000Z"),
+  });
+
+  assert.deepEqual(state.calls, [
+    "fork:main:backup-plugin-daily-2026-02-27",
+    "destroy:backup-plugin-daily-2026-02-26",
+  ]);
+});
+
+test("safe rotation deletes first when the overlap would exceed the environment quota", async () => {
+  const { client, state } = createFakeClient({
+    environments: [
+      createBackup("backup-plugin-daily-2026-02-26", "2026-02-26T02:05:00.000Z"),
+    ],
+    parameters: {
+      backupSchedule: createSchedule({ rotationMode: "safe" }),
+    },
+    sandboxLimit: 1,
+  });
+
+  await runScheduledBackups({
+    apiToken: "token",
+    client,
+    now: new Date("2026-02-27T02:05:00.000Z"),
+  });
+
+  assert.deepEqual(state.calls, [
+    "destroy:backup-plugin-daily-2026-02-26",
+    "fork:main:backup-plugin-daily-2026-02-27",
+  ]);
+});
+
+test("cadence fails with a dedicated code when the fork cannot fit in the environment quota", async () => {
+  const { client, state } = createFakeClient({
+    environments: [
+      createBackup("backup-plugin-weekly-2026-02-20", "2026-02-20T02:05:00.000Z"),
+    ],
+    parameters: { backupSchedule: createSchedule() },
+    sandboxLimit: 1,
+  });
+
+  const result = await runScheduledBackups({
+    apiToken: "token",
+    client,
+    now: new Date("2026-02-27T02:05:00.000Z"),
+  });
+
+  assert.equal(result.results[0]?.status, "failed");
+  if (result.results[0]?.status === "failed") {
+    assert.equal(result.results[0].code, "ENVIRONMENT_QUOTA_EXCEEDED");
+  }
+  assert.deepEqual(state.calls, []);
+});
+
+test("backup status surfaces the environment quota headroom", async () => {
+  const { client } = createFakeClient({
+    environments: [
+      createBackup("backup-plugin-daily-2026-02-26", "2026-02-26T02:05:00.000Z"),
+    ],
+    parameters: { backupSchedule: createSchedule() },
+    sandboxLimit: 3,
+  });
+
+  const status = await getBackupStatus({
+    apiToken: "token",
+    client,
+    now: new Date("2026-02-27T10:00:00.000Z"),
+  });
+
+  assert.deepEqual(status.environmentQuota, { limit: 3, usage: 1, headroom: 2 });
+});
+
+test("status reports the provider's trigger cadence and the slots a daily trigger cannot serve", async () => {
+  const { client } = createFakeClient({
+    parameters: {
+      backupSchedule: createSchedule({
+        enabledCadences: ["hourly", "daily", "cron"],
+        cronExpression: "0 */6 * * *",
+      }),
+    },
+  });
+  const now = new Date("2026-02-27T10:00:00.000Z");
+
+  const vercel = await getBackupStatus({ apiToken: "token", client, now, providerHint: "vercel" });
+  assert.deepEqual(vercel.scheduler, {
+    provider: "vercel",
+    cadence: "daily",
+    unservedSlots: ["hourly", "cron"],
+  });
+
+  const netlify = await getBackupStatus({
+    apiToken: "token",
+    client,
+    now,
+    providerHint: "netlify",
+  });
+  assert.deepEqual(netlify.scheduler, {
+    provider: "netlify",
+    cadence: "hourly",
+    unservedSlots: [],
+  });
+
+  process.env.DATOCMS_BACKUP_TRIGGER_CADENCE = "hourly";
+  try {
+    const hourlyVercel = await getBackupStatus({
+      apiToken: "token",
+      client,
+      now,
+      providerHint: "vercel",
+    });
+    assert.equal(hourlyVercel.scheduler.cadence, "hourly");
+  } finally {
+    delete process.env.DATOCMS_BACKUP_TRIGGER_CADENCE;
+  }
+});
+
+test("pinned backups are skipped by rotation and listed separately in status", async () => {
+  const { client, state } = createFakeClient({
+    environments: [
+      createBackup("backup-plugin-daily-2026-02-20", "2026-02-20T02:05:00.000Z"),
+      createBackup("backup-plugin-daily-2026-02-26", "2026-02-26T02:05:00.000Z"),
+    ],
+    parameters: { backupSchedule: createSchedule() },
+  });
+
+  const pin = await setBackupPinned({
+    apiToken: "token",
+    client,
+    environmentId: "backup-plugin-daily-2026-02-20",
+    pinned: true,
+  });
+  assert.deepEqual(pin.pinnedEnvironmentIds, ["backup-plugin-daily-2026-02-20"]);
+
+  await runScheduledBackups({
+    apiToken: "token",
+    client,
+    now: new Date("2026-02-27T02:05:00.000Z"),
+  });
+
+  assert.deepEqual(state.calls, [
+    "fork:main:backup-plugin-daily-2026-02-27",
+    "destroy:backup-plugin-daily-2026-02-26",
+  ]);
+
+  const status = await getBackupStatus({
+    apiToken: "token",
+    client,
+    now: new Date("2026-02-27T10:00:00.000Z"),
+  });
+  assert.deepEqual(
+    status.pinnedBackups.map((backup) => backup.environmentId),
+    ["backup-plugin-daily-2026-02-20"],
+  );
+  assert.deepEqual(
+    status.slots.daily.generations.map((generation) => generation.environmentId),
+    ["backup-plugin-daily-2026-02-27"],
+  );
+});
+
+test("pinning an unknown environment is rejected", async () => {
+  const { client } = createFakeClient({
+    parameters: { backupSchedule: createSchedule() },
+  });
+
+  await assert.rejects(
+    setBackupPinned({
+      apiToken: "token",
+      client,
+      environmentId: "backup-plugin-daily-2020-01-01",
+      pinned: true,
+    }),
+    { name: "BackupEnvironmentNotFoundError" },
+  );
+});
+
+test("gfs retention promotes an overflowing daily generation into the weekly tier", async () => {
+  const { client, state } = createFakeClient({
+    environments: [
+      createBackup("backup-plugin-weekly-2026-02-17", "2026-02-17T02:05:00.000Z"),
+      createBackup("backup-plugin-daily-2026-02-24", "2026-02-24T02:05:00.000Z"),
+      createBackup("backup-plugin-daily-2026-02-25", "2026-02-25T02:05:00.000Z"),
+    ],
+    parameters: {
+      backupSchedule: createSchedule({
+        enabledCadences: ["daily", "weekly"],
+        anchorLocalDate: "2026-02-02",
+        retentionPolicy: "gfs",
+        retentionByCadence: { daily: 2, weekly: 2 },
+      }),
+    },
+  });
+
+  const result = await runScheduledBackups({
+    apiToken: "token",
+    client,
+    now: new Date("2026-02-26T02:05:00.000Z"),
+  });
+
+  assert.deepEqual(state.calls, [
+    "fork:main:backup-plugin-daily-2026-02-26",
+    "rename:backup-plugin-daily-2026-02-24:backup-plugin-weekly-2026-02-24",
+  ]);
+  assert.deepEqual(
+    result.results.map((entry) => entry.scope),
+    ["daily", "weekly"],
+  );
+  const weekly = result.results[1];
+  assert.equal(weekly?.status, "executed");
+  if (weekly?.status === "executed") {
+    assert.equal(weekly.result.createdEnvironmentId, "backup-plugin-weekly-2026-02-24");
+    assert.equal(weekly.result.derivedFromEnvironmentId, "backup-plugin-daily-2026-02-24");
+  }
+});
+
+test("a failed gfs pass is reported without failing the slot that forked", async () => {
+  const { client, state } = createFakeClient({
+    environments: [
+      createBackup("backup-plugin-daily-2026-02-24", "2026-02-24T02:05:00.000Z"),
+      createBackup("backup-plugin-daily-2026-02-25", "2026-02-25T02:05:00.000Z"),
+    ],
+    parameters: {
+      backupSchedule: createSchedule({
+        enabledCadences: ["daily", "weekly"],
+        anchorLocalDate: "2026-02-02",
+        retentionPolicy: "gfs",
+        retentionByCadence: { daily: 2, weekly: 2 },
+      }),
+    },
+  });
+  client.environments.rename = (async () => {
+    throw new Error("rename failed");
+  }) as unknown as BackupClient["environments"]["rename"];
+
+  const result = await runScheduledBackups({
+    apiToken: "token",
+    client,
+    now: new Date("2026-02-26T02:05:00.000Z"),
+  });
+
+  assert.equal(result.results.length, 1);
+  const daily = result.results[0];
+  assert.equal(daily?.status, "executed");
+  if (daily?.status === "executed") {
+    assert.equal(daily.result.createdEnvironmentId, "backup-plugin-daily-2026-02-26");
+    assert.equal(daily.retentionError, "rename failed");
+  }
+  const saved = state.parameters.automaticBackupsSchedule as {
+    lastErrorByCadence?: Record<string, string>;
+    failedAttemptsByCadence?: Record<string, unknown>;
+    lastManagedEnvironmentIdByCadence?: Record<string, string>;
+  };
+  assert.equal(saved.lastErrorByCadence?.daily, undefined);
+  assert.equal(saved.failedAttemptsByCadence?.daily, undefined);
+  assert.equal(
+    saved.lastManagedEnvironmentIdByCadence?.daily,
+    "backup-plugin-daily-2026-02-26",
+  );
+});
+
+test("the run's snapshot is kept out of gfs pruning until every slot derived from it ran", async () => {
+  const { client, state } = createFakeClient({
+    environments: [
+      // Stamped after the new fork (clock skew), so it sorts as the newest daily.
+      createBackup("backup-plugin-daily-2026-02-25", "2026-03-01T12:00:00.000Z"),
+    ],
+    parameters: {
+      backupSchedule: createSchedule({
+        enabledCadences: ["daily", "weekly"],
+        anchorLocalDate: "2026-02-02",
+        retentionPolicy: "gfs",
+        retentionByCadence: { daily: 1, weekly: 2 },
+        customSlots: [{ name: "pre-release", cadence: "daily", prefix: "release" }],
+      }),
+    },
+  });
+
+  const result = await runScheduledBackups({
+    apiToken: "token",
+    client,
+    now: new Date("2026-02-26T02:05:00.000Z"),
+  });
+
+  assert.deepEqual(
+    result.results.map((entry) => entry.status),
+    ["executed", "executed"],
+  );
+  assert.deepEqual(state.calls, [
+    "fork:main:backup-plugin-daily-2026-02-26",
+    "fork:backup-plugin-daily-2026-02-26:release-2026-02-26:fast",
+  ]);
+});
+
+test("gfs retention forks once on coinciding days and drops generations whose period is covered", async () => {
+  const { client, state } = createFakeClient({
+    environments: [
+      createBackup("backup-plugin-weekly-2026-02-23", "2026-02-23T02:05:00.000Z"),
+      createBackup("backup-plugin-daily-2026-02-28", "2026-02-28T02:05:00.000Z"),
+      createBackup("backup-plugin-daily-2026-03-01", "2026-03-01T02:05:00.000Z"),
+    ],
+    parameters: {
+      backupSchedule: createSchedule({
+        enabledCadences: ["daily", "weekly", "monthly"],
+        anchorLocalDate: "2026-02-02",
+        retentionPolicy: "gfs",
+        retentionByCadence: { daily: 2, weekly: 4, monthly: 12 },
+      }),
+    },
+  });
+
+  const result = await runScheduledBackups({
+    apiToken: "token",
+    client,
+    now: new Date("2026-03-02T02:05:00.000Z"),
+  });
+
+  assert.deepEqual(state.calls, [
+    "fork:main:backup-plugin-daily-2026-03-02",
+    "destroy:backup-plugin-daily-2026-02-28",
+  ]);
+  assert.deepEqual(
+    result.results.map((entry) => entry.scope),
+    ["daily"],
+  );
+});
+
+test("a pinned backup does not cover the gfs period it falls in", async () => {
+  const { client, state } = createFakeClient({
+    environments: [
+      createBackup("backup-plugin-weekly-2026-02-23", "2026-02-23T02:05:00.000Z"),
+      createBackup("backup-plugin-daily-2026-02-28", "2026-02-28T02:05:00.000Z"),
+      createBackup("backup-plugin-daily-2026-03-01", "2026-03-01T02:05:00.000Z"),
+    ],
+    parameters: {
+      backupSchedule: createSchedule({
+        enabledCadences: ["daily", "weekly"],
+        anchorLocalDate: "2026-02-02",
+        retentionPolicy: "gfs",
+        retentionByCadence: { daily: 2, weekly: 4 },
+      }),
+      automaticBackupsSchedule: {
+        pinnedEnvironmentIds: ["backup-plugin-weekly-2026-02-23"],
+      },
+    },
+  });
+
+  await runScheduledBackups({
+    apiToken: "token",
+    client,
+    now: new Date("2026-03-02T02:05:00.000Z"),
+  });
+
+  assert.deepEqual(state.calls, [
+    "fork:main:backup-plugin-daily-2026-03-02",
+    "rename:backup-plugin-daily-2026-02-28:backup-plugin-weekly-2026-02-28",
+  ]);
+});
+
+test("a cron cadence is kept out of the gfs tiers and rotates on its own retention", async () => {
+  const { client, state } = createFakeClient({
+    environments: [
+      createBackup("backup-plugin-weekly-2026-02-17", "2026-02-17T02:05:00.000Z"),
+      createBackup("backup-plugin-daily-2026-02-24", "2026-02-24T02:05:00.000Z"),
+      createBackup("backup-plugin-daily-2026-02-25", "2026-02-25T02:05:00.000Z"),
+      createBackup("backup-plugin-cron-2026-02-25-02", "2026-02-25T02:05:00.000Z"),
+    ],
+    parameters: {
+      backupSchedule: createSchedule({
+        enabledCadences: ["daily", "weekly", "cron"],
+        cronExpression: "0 2 * * *",
+        anchorLocalDate: "2026-02-02",
+        retentionPolicy: "gfs",
+        retentionByCadence: { daily: 2, weekly: 1, cron: 1 },
+      }),
+    },
+  });
+
+  const result = await runScheduledBackups({
+    apiToken: "token",
+    client,
+    now: new Date("2026-02-26T02:05:00.000Z"),
+  });
+
+  // The weekly tier is the last one: its overflow is deleted, never promoted into cron.
+  assert.deepEqual(state.calls, [
+    "fork:main:backup-plugin-daily-2026-02-26",
+    "rename:backup-plugin-daily-2026-02-24:backup-plugin-weekly-2026-02-24",
+    "destroy:backup-plugin-weekly-2026-02-17",
+    "fork:backup-plugin-daily-2026-02-26:backup-plugin-cron-2026-02-26-02:fast",
+    "destroy:backup-plugin-cron-2026-02-25-02",
+  ]);
+  assert.deepEqual(
+    result.results.map((entry) => [entry.scope, entry.status]),
+    [
+      ["daily", "executed"],
+      ["weekly", "executed"],
+      ["cron", "executed"],
+    ],
+  );
+});
+
+test("cadences due on the same day are derived from a single snapshot of the primary", async () => {
+  const { client, state } = createFakeClient({
+    parameters: {
+      backupSchedule: createSchedule({
+        enabledCadences: ["daily", "weekly", "monthly"],
+        anchorLocalDate: "2026-02-02",
+      }),
+    },
+  });
+
+  const result = await runScheduledBackups({
+    apiToken: "token",
+    client,
+    now: new Date("2026-03-02T02:05:00.000Z"),
+  });
+
+  assert.deepEqual(state.calls, [
+    "fork:main:backup-plugin-daily-2026-03-02",
+    "fork:backup-plugin-daily-2026-03-02:backup-plugin-weekly-2026-03-02:fast",
+    "fork:backup-plugin-daily-2026-03-02:backup-plugin-monthly-2026-03-02:fast",
+  ]);
+  assert.deepEqual(
+    result.results.map((entry) =>
+      entry.status === "executed" ? entry.result.derivedFromEnvironmentId ?? null : null,
+    ),
+    [null, "backup-plugin-daily-2026-03-02", "backup-plugin-daily-2026-03-02"],
+  );
+});
+
+test("hourly cadence forks once per local hour while daily runs once per local day", async () => {
+  const { client, state } = createFakeClient({
+    parameters: {
+      backupSchedule: createSchedule({ enabledCadences: ["hourly", "daily"] }),
+    },
+  });
+
+  await runScheduledBackups({
+    apiToken: "token",
+    client,
+    now: new Date("2026-02-27T09:05:00.000Z"),
+  });
+  const sameHour = await runScheduledBackups({
+    apiToken: "token",
+    client,
+    now: new Date("2026-02-27T09:40:00.000Z"),
+  });
+  const nextHour = await runScheduledBackups({
+    apiToken: "token",
+    client,
+    now: new Date("2026-02-27T10:05:00.000Z"),
+  });
+
+  assert.equal(sameHour.skipped, true);
+  assert.deepEqual(
+    nextHour.results.map((entry) => entry.scope),
+    ["hourly"],
+  );
+  assert.deepEqual(
+    state.calls.filter((call) => call.startsWith("fork:")),
+    [
+      "fork:main:backup-plugin-hourly-2026-02-27-09",
+      "fork:backup-plugin-hourly-2026-02-27-09:backup-plugin-daily-2026-02-27:fast",
+      "fork:main:backup-plugin-hourly-2026-02-27-10",
+    ],
+  );
+});
+
+test("backup status reports the next every-n-hours slot as a real instant", async () => {
+  const { client } = createFakeClient({
+    parameters: {
+      backupSchedule: createSchedule({
+        enabledCadences: ["every_n_hours"],
+        everyNHours: 6,
+      }),
+      automaticBackupsSchedule: {
+        lastRunLocalHourByCadence: { every_n_hours: "2026-02-27T06" },
+      },
+    },
+  });
+
+  const status = await getBackupStatus({
+    apiToken: "token",
+    client,
+    now: new Date("2026-02-27T08:05:00.000Z"),
+  });
+
+  assert.equal(status.slots.every_n_hours.nextBackupAt, "2026-02-27T12:05:00.000Z");
+  assert.equal(status.slots.hourly.nextBackupAt, null);
+});
+
+test("daily cadence waits for the configured local time and picks up a slot the trigger missed", async () => {
+  const { client, state } = createFakeClient({
+    parameters: {
+      backupSchedule: createSchedule({ runAtLocalTime: "23:30" }),
+      automaticBackupsSchedule: {
+        lastRunLocalDateByCadence: { daily: "2026-02-26" },
+      },
+    },
+  });
+
+  const beforeRunAt = await runScheduledBackups({
+    apiToken: "token",
+    client,
+    now: new Date("2026-02-27T23:05:00.000Z"),
+  });
+  const afterMidnight = await runScheduledBackups({
+    apiToken: "token",
+    client,
+    now: new Date("2026-02-28T00:05:00.000Z"),
+  });
+
+  assert.equal(beforeRunAt.skipped, true);
+  assert.equal(afterMidnight.results[0]?.status, "executed");
+  assert.equal(
+    (state.parameters.automaticBackupsSchedule as {
+      lastRunLocalDateByCadence: Record<string, string>;
+    }).lastRunLocalDateByCadence.daily,
+    "2026-02-27",
+  );
+});
+
+test("backup status reports the first trigger after the configured local time across DST", async () => {
+  const { client } = createFakeClient({
+    parameters: {
+      backupSchedule: createSchedule({
+        timezone: "America/Los_Angeles",
+        runAtLocalTime: "02:30",
+      }),
+      automaticBackupsSchedule: {
+        lastRunLocalDateByCadence: { daily: "2026-03-07" },
+      },
+    },
+  });
+
+  const beforeDst = await getBackupStatus({
+    apiToken: "token",
+    client,
+    now: new Date("2026-03-07T12:00:00.000Z"),
+  });
+  assert.equal(beforeDst.slots.daily.nextBackupAt, "2026-03-08T11:05:00.000Z");
+
+  // A daily trigger only picks the slot up at its next 02:05 UTC run.
+  const dailyTrigger = await getBackupStatus({
+    apiToken: "token",
+    client,
+    providerHint: "vercel",
+    now: new Date("2026-03-07T12:00:00.000Z"),
+  });
+  assert.equal(dailyTrigger.slots.daily.nextBackupAt, "2026-03-09T02:05:00.000Z");
+
+  const { client: summerClient } = createFakeClient({
+    parameters: {
+      backupSchedule: createSchedule({
+        timezone: "America/Los_Angeles",
+        runAtLocalTime: "02:30",
+      }),
+      automaticBackupsSchedule: {
+        lastRunLocalDateByCadence: { daily: "2026-06-01" },
+      },
+    },
+  });
+  const summer = await getBackupStatus({
+    apiToken: "token",
+    client: summerClient,
+    now: new Date("2026-06-01T18:00:00.000Z"),
+  });
+  assert.equal(summer.slots.daily.nextBackupAt, "2026-06-02T10:05:00.000Z");
+});
+
+test("cron cadence forks under its own prefix at each occurrence", async () => {
+  const { client, state } = createFakeClient({
+    parameters: {
+      backupSchedule: createSchedule({
+        enabledCadences: ["cron"],
+        cronExpression: "0 */12 * * *",
+      }),
+      automaticBackupsSchedule: {
+        lastRunLocalOccurrenceByCadence: { cron: "2026-02-27T00:00" },
+      },
+    },
+  });
+
+  const beforeOccurrence = await runScheduledBackups({
+    apiToken: "token",
+    client,
+    now: new Date("2026-02-27T11:05:00.000Z"),
+  });
+  const atOccurrence = await runScheduledBackups({
+    apiToken: "token",
+    client,
+    now: new Date("2026-02-27T12:05:00.000Z"),
+  });
+  const status = await getBackupStatus({
+    apiToken: "token",
+    client,
+    now: new Date("2026-02-27T12:10:00.000Z"),
+  });
+
+  assert.equal(beforeOccurrence.skipped, true);
+  assert.equal(atOccurrence.results[0]?.status, "executed");
+  assert.deepEqual(
+    state.calls.filter((call) => call.startsWith("fork:")),
+    ["fork:main:backup-plugin-cron-2026-02-27-12"],
+  );
+  assert.equal(status.slots.cron.nextBackupAt, "2026-02-28T00:05:00.000Z");
+});
+
+test("due cadences inside a blackout window are reported as skipped without forking", async () => {
+  const { client, state } = createFakeClient({
+    parameters: {
+      backupSchedule: createSchedule({
+        enabledCadences: ["daily", "weekly"],
+        anchorLocalDate: "2026-02-20",
+        blackoutWindows: [{ startLocalDate: "2026-02-26", endLocalDate: "2026-02-28" }],
+      }),
+    },
+  });
+
+  const result = await runScheduledBackups({
+    apiToken: "token",
+    client,
+    now: new Date("2026-02-27T02:05:00.000Z"),
+  });
+
+  assert.equal(result.skipped, true);
+  assert.equal(result.reason, "BLACKOUT");
+  assert.deepEqual(result.results, [
+    { scope: "daily", status: "skipped", reason: "BLACKOUT" },
+    { scope: "weekly", status: "skipped", reason: "BLACKOUT" },
+  ]);
+  assert.deepEqual(state.calls, []);
+});
+
+test("recurring blackout weekdays hold back scheduled runs but not manual backups", async () => {
+  const { client, state } = createFakeClient({
+    parameters: {
+      // 2026-02-28 is a Saturday.
+      backupSchedule: createSchedule({ blackoutWeekdays: [0, 6] }),
+    },
+  });
+
+  const scheduled = await runScheduledBackups({
+    apiToken: "token",
+    client,
+    now: new Date("2026-02-28T02:05:00.000Z"),
+  });
+  const manual = await runManualBackupNow({
+    apiToken: "token",
+    client,
+    scope: "daily",
+    now: new Date("2026-02-28T02:10:00.000Z"),
+  });
+
+  assert.equal(scheduled.reason, "BLACKOUT");
+  assert.equal(manual.status, "executed");
+  assert.deepEqual(state.calls, ["fork:main:backup-plugin-daily-2026-02-28"]);
+});
+
+test("a late run after midnight is checked against the blackouts of the date it backs up", async () => {
+  const { client, state } = createFakeClient({
+    parameters: {
+      // 2026-02-28 is a Saturday; the run after midnight still backs up that date.
+      backupSchedule: createSchedule({ runAtLocalTime: "23:30", blackoutWeekdays: [6] }),
+    },
+  });
+
+  const scheduled = await runScheduledBackups({
+    apiToken: "token",
+    client,
+    now: new Date("2026-03-01T00:05:00.000Z"),
+  });
+  const preview = await getSchedulePreview({
+    apiToken: "token",
+    client,
+    now: new Date("2026-02-28T12:00:00.000Z"),
+    count: 3,
+  });
+
+  assert.equal(scheduled.reason, "BLACKOUT");
+  assert.deepEqual(state.calls, []);
+  assert.deepEqual(
+    preview.cadences.daily?.map((occurrence) => [occurrence.localTime, occurrence.blackedOut]),
+    [
+      ["2026-02-27T23:30", false],
+      ["2026-02-28T23:30", true],
+      ["2026-03-01T23:30", false],
+    ],
+  );
+});
+
+test("a missed weekly occurrence inside the catch-up window runs now and is marked as catch-up", async () => {
+  const { client, state } = createFakeClient({
+    parameters: {
+      backupSchedule: createSchedule({
+        enabledCadences: ["weekly"],
+        anchorLocalDate: "2026-02-05",
+        catchUpWindowDaysByCadence: { weekly: 3 },
+      }),
+      automaticBackupsSchedule: {
+        lastRunLocalDateByCadence: { weekly: "2026-02-19" },
+      },
+    },
+  });
+
+  const result = await runScheduledBackups({
+    apiToken: "token",
+    client,
+    now: new Date("2026-02-28T02:05:00.000Z"),
+  });
+  const again = await runScheduledBackups({
+    apiToken: "token",
+    client,
+    now: new Date("2026-02-28T03:05:00.000Z"),
+  });
+
+  assert.equal(result.results[0]?.status, "executed");
+  assert.equal(result.results[0]?.trigger, "catch_up");
+  assert.equal(again.skipped, true);
+  assert.deepEqual(state.calls, ["fork:main:backup-plugin-weekly-2026-02-28"]);
+});
+
+test("a custom slot catches up a missed occurrence within its own window", async () => {
+  const { client, state } = createFakeClient({
+    parameters: {
+      backupSchedule: createSchedule({
+        anchorLocalDate: "2026-02-05",
+        customSlots: [
+          { name: "offsite", cadence: "weekly", catchUpWindowDays: 3 },
+          { name: "archive", cadence: "weekly" },
+        ],
+      }),
+      automaticBackupsSchedule: {
+        lastRunLocalDateByCadence: {
+          daily: "2026-02-28",
+          offsite: "2026-02-19",
+          archive: "2026-02-19",
+        },
+      },
+    },
+  });
+
+  const result = await runScheduledBackups({
+    apiToken: "token",
+    client,
+    now: new Date("2026-02-28T02:05:00.000Z"),
+  });
+
+  assert.deepEqual(
+    result.results.map((entry) => [entry.slot, entry.status]),
+    [["offsite", "executed"]],
+  );
+  assert.equal(result.results[0]?.status === "executed" && result.results[0].trigger, "catch_up");
+  assert.deepEqual(state.calls, ["fork:main:backup-plugin-offsite-2026-02-28"]);
+});
+
+test("a missed occurrence older than the catch-up window waits for the next interval", async () => {
+  const { client, state } = createFakeClient({
+    parameters: {
+      backupSchedule: createSchedule({
+        enabledCadences: ["weekly"],
+        anchorLocalDate: "2026-02-05",
+        catchUpWindowDaysByCadence: { weekly: 1 },
+      }),
+      automaticBackupsSchedule: {
+        lastRunLocalDateByCadence: { weekly: "2026-02-19" },
+      },
+    },
+  });
+
+  const result = await runScheduledBackups({
+    apiToken: "token",
+    client,
+    now: new Date("2026-02-28T02:05:00.000Z"),
+  });
+
+  assert.equal(result.reason, "NOT_DUE");
+  assert.deepEqual(state.calls, []);
+});
+
+test("a later trigger on the same day retries only the failed cadence until its attempts run out", async () => {
+  const { client, state } = createFakeClient({
+    parameters: {
+      backupSchedule: createSchedule({
+        enabledCadences: ["daily", "weekly"],
+        anchorLocalDate: "2026-02-20",
+        maxAttempts: 2,
+      }),
+    },
+  });
+  const fork = client.environments.fork;
+  client.environments.fork = (async (...args: Parameters<typeof fork>) => {
+    if (args[1].id.startsWith("backup-plugin-weekly-")) {
+      state.calls.push(`fork-failed:${args[1].id}`);
+      throw new Error("fork failed");
+    }
+    return fork(...args);
+  }) as typeof fork;
+
+  const runAt = (iso: string) =>
+    runScheduledBackups({ apiToken: "token", client, now: new Date(iso) });
+
+  const first = await runAt("2026-02-27T02:05:00.000Z");
+  const second = await runAt("2026-02-27T03:05:00.000Z");
+  const third = await runAt("2026-02-27T04:05:00.000Z");
+
+  assert.deepEqual(
+    first.results.map((entry) => `${entry.scope}:${entry.status}`),
+    ["daily:executed", "weekly:failed"],
+  );
+  assert.deepEqual(
+    second.results.map((entry) => `${entry.scope}:${entry.status}`),
+    ["weekly:failed"],
+  );
+  assert.equal(third.skipped, true);
+  assert.equal(third.reason, "RETRY_LIMIT_REACHED");
+  assert.deepEqual(state.calls, [
+    "fork:main:backup-plugin-daily-2026-02-27",
+    "fork-failed:backup-plugin-weekly-2026-02-27",
+    "fork-failed:backup-plugin-weekly-2026-02-27",
+  ]);
+});
+
+test("schedule preview iterates upcoming dates for an unsaved schedule and flags blackouts", async () => {
+  const { client, state } = createFakeClient({
+    parameters: { backupSchedule: createSchedule() },
+  });
+
+  const preview = await getSchedulePreview({
+    apiToken: "token",
+    client,
+    now: new Date("2026-02-27T12:00:00.000Z"),
+    count: 3,
+    horizonDays: 40,
+    schedule: createSchedule({
+      enabledCadences: ["daily", "monthly"],
+      timezone: "Europe/Rome",
+      anchorLocalDate: "2026-01-31",
+      runAtLocalTime: "03:00",
+      blackoutWeekdays: [0],
+    }),
+  });
+
+  assert.deepEqual(preview.cadences.daily, [
+    { localTime: "2026-02-27T03:00", at: "2026-02-27T02:00:00.000Z", blackedOut: false },
+    { localTime: "2026-02-28T03:00", at: "2026-02-28T02:00:00.000Z", blackedOut: false },
+    { localTime: "2026-03-01T03:00", at: "2026-03-01T02:00:00.000Z", blackedOut: true },
+  ]);
+  assert.deepEqual(
+    preview.cadences.monthly?.map((occurrence) => occurrence.localTime),
+    ["2026-02-28T03:00", "2026-03-31T03:00"],
+  );
+  assert.equal(
+    (state.parameters.backupSchedule as { timezone: string }).timezone,
+    "UTC",
+  );
+});
+
+test("backup calendar lists completed backups and upcoming runs with the backups they rotate out", async () => {
+  const { client } = createFakeClient({
+    environments: [
+      createBackup("backup-plugin-daily-2026-02-24", "2026-02-24T00:05:00.000Z"),
+      createBackup("backup-plugin-daily-2026-02-25", "2026-02-25T00:05:00.000Z"),
+    ],
+    parameters: {
+      backupSchedule: createSchedule({ retentionByCadence: { daily: 3 } }),
+      automaticBackupsSchedule: {
+        lastRunLocalDateByCadence: { daily: "2026-02-26" },
+        lastRunAtByCadence: { daily: "2026-02-26T00:05:00.000Z" },
+        lastManagedEnvironmentIdByCadence: { daily: "backup-plugin-daily-2026-02-26" },
+      },
+    },
+  });
+
+  const calendar = await getBackupCalendar({
+    apiToken: "token",
+    client,
+    now: new Date("2026-02-27T12:00:00.000Z"),
+    horizonDays: 3,
+  });
+
+  assert.deepEqual(
+    calendar.events.map((event) => [
+      event.kind,
+      event.environmentId,
+      event.at,
+      event.replacesEnvironmentIds,
+    ]),
+    [
+      ["completed", "backup-plugin-daily-2026-02-24", "2026-02-24T00:05:00.000Z", []],
+      ["completed", "backup-plugin-daily-2026-02-25", "2026-02-25T00:05:00.000Z", []],
+      ["completed", "backup-plugin-daily-2026-02-26", "2026-02-26T00:05:00.000Z", []],
+      ["scheduled", "backup-plugin-daily-2026-02-27", "2026-02-27T00:00:00.000Z", []],
+      [
+        "scheduled",
+        "backup-plugin-daily-2026-02-28",
+        "2026-02-28T00:00:00.000Z",
+        ["backup-plugin-daily-2026-02-24"],
+      ],
+      [
+        "scheduled",
+        "backup-plugin-daily-2026-03-01",
+        "2026-03-01T00:00:00.000Z",
+        ["backup-plugin-daily-2026-02-25"],
+      ],
+      ["scheduled", "backup-plugin-daily-2026-03-02", "2026-03-02T00:00:00.000Z", []],
+    ],
+  );
+});
+
+test("cadences with a source environment fork it and only share snapshots with the same source", async () => {
+  const { client, state } = createFakeClient({
+    environments: [createBackup("staging", "2025-06-01T00:00:00.000Z")],
+    parameters: {
+      backupSchedule: createSchedule({
+        enabledCadences: ["daily", "weekly", "monthly"],
+        anchorLocalDate: "2026-02-02",
+        sourceEnvironmentIdByCadence: { weekly: "staging", monthly: "staging" },
+      }),
+    },
+  });
+
+  const result = await runScheduledBackups({
+    apiToken: "token",
+    client,
+    now: new Date("2026-03-02T02:05:00.000Z"),
+  });
+
+  assert.deepEqual(state.calls, [
+    "fork:main:backup-plugin-daily-2026-03-02",
+    "fork:staging:backup-plugin-weekly-2026-03-02",
+    "fork:backup-plugin-weekly-2026-03-02:backup-plugin-monthly-2026-03-02:fast",
+  ]);
+  assert.deepEqual(
+    result.results.map((entry) =>
+      entry.status === "executed" ? entry.result.sourceEnvironmentId : null,
+    ),
+    ["main", "staging", "staging"],
+  );
+
+  const status = await getBackupStatus({
+    apiToken: "token",
+    client,
+    now: new Date("2026-03-02T03:00:00.000Z"),
+  });
+  assert.equal(status.slots.daily.sourceEnvironmentId, "main");
+  assert.equal(status.slots.weekly.sourceEnvironmentId, "staging");
+});
+
+test("a cadence whose source environment no longer exists fails without forking", async () => {
+  const { client, state } = createFakeClient({
+    parameters: {
+      backupSchedule: createSchedule({
+        sourceEnvironmentIdByCadence: { daily: "staging" },
+      }),
+    },
+  });
+
+  const result = await runScheduledBackups({
+    apiToken: "token",
+    client,
+    now: new Date("2026-02-27T02:05:00.000Z"),
+  });
+
+  assert.deepEqual(state.calls, []);
+  assert.deepEqual(
+    result.results.map((entry) => ({ ...entry, startedAt: undefined })),
+    [
+      {
+        scope: "daily",
+        status: "failed",
+        startedAt: undefined,
+        code: "SOURCE_ENVIRONMENT_NOT_FOUND",
+        error: 'Source environment "staging" does not exist.',
+      },
+    ],
+  );
+});
+
+test("custom slots fork under their own prefix, source and retention and report in status", async () => {
+  const { client, state } = createFakeClient({
+    environments: [
+      createBackup("staging", "2025-06-01T00:00:00.000Z"),
+      createBackup("backup-plugin-content-freeze-2026-03-01", "2026-03-01T00:00:00.000Z"),
+    ],
+    parameters: {
+      backupSchedule: createSchedule({
+        customSlots: [
+          {
+            name: "content-freeze",
+            cadence: "daily",
+            sourceEnvironmentId: "staging",
+            retention: 1,
+          },
+          { name: "daily-extra", cadence: "daily" },
+        ],
+      }),
+    },
+  });
+
+  const result = await runScheduledBackups({
+    apiToken: "token",
+    client,
+    now: new Date("2026-03-02T02:05:00.000Z"),
+  });
+
+  assert.deepEqual(state.calls, [
+    "fork:main:backup-plugin-daily-2026-03-02",
+    "fork:staging:backup-plugin-content-freeze-2026-03-02",
+    "destroy:backup-plugin-content-freeze-2026-03-01",
+  ]);
+  assert.deepEqual(result.schedule.customSlots, ["content-freeze"]);
+  assert.deepEqual(
+    result.results.map((entry) => [entry.scope, entry.slot ?? null, entry.status]),
+    [
+      ["daily", null, "executed"],
+      ["daily", "content-freeze", "executed"],
+    ],
+  );
+
+  const status = await getBackupStatus({
+    apiToken: "token",
+    client,
+    now: new Date("2026-03-02T03:00:00.000Z"),
+  });
+  assert.equal(status.customSlots.length, 1);
+  assert.equal(status.customSlots[0].name, "content-freeze");
+  assert.equal(status.customSlots[0].sourceEnvironmentId, "staging");
+  assert.equal(status.customSlots[0].retention, 1);
+  assert.deepEqual(
+    status.customSlots[0].generations.map((generation) => generation.environmentId),
+    ["backup-plugin-content-freeze-2026-03-02"],
+  );
+});
+
+test("manual backups run a custom slot by name and reject unknown slots", async () => {
+  const { client, state } = createFakeClient({
+    parameters: {
+      backupSchedule: createSchedule({
+        enabledCadences: [],
+        customSlots: [{ name: "pre-release", cadence: "weekly", prefix: "release" }],
+      }),
+    },
+  });
+
+  const result = await runManualBackupNow({
+    apiToken: "token",
+    client,
+    slotName: "pre-release",
+    now: new Date("2026-03-02T10:00:00.000Z"),
+  });
+
+  assert.equal(result.status, "executed");
+  assert.equal(result.slot, "pre-release");
+  assert.deepEqual(state.calls, ["fork:main:release-2026-03-02"]);
+
+  await assert.rejects(
+    runManualBackupNow({
+      apiToken: "token",
+      client,
+      slotName: "missing",
+      now: new Date("2026-03-02T10:00:00.000Z"),
+    }),
+    { name: "BackupSlotNotFoundError" },
+  );
+});
+
+test("scheduled run backs up every registered project and isolates a failing one", async () => {
+  const marketing = createFakeClient({
+    parameters: { backupSchedule: createSchedule() },
+  });
+  const docs = createFakeClient({
+    parameters: { backupSchedule: createSchedule() },
+  });
+  const brokenClient = {
+    ...docs.client,
+    plugins: {
+      list: async () => {
+        throw new Error("Invalid API token");
+      },
+    },
+  } as unknown as BackupClient;
+
+  const clientByProjectId: Record<string, BackupClient> = {
+    marketing: marketing.client,
+    broken: brokenClient,
+    docs: docs.client,
+  };
+
+  const result = await runScheduledBackupsForProjects(
+    {
+      projectRegistry: JSON.stringify({
+        marketing: "token-marketing",
+        broken: "token-broken",
+        docs: "token-docs",
+      }),
+      now: new Date("2026-02-27T02:05:00.000Z"),
+    },
+    (options) =>
+      runScheduledBackups({ ...options, client: clientByProjectId[options.projectId ?? ""] }),
+  );
+
+  assert.ok("projects" in result);
+  assert.deepEqual(
+    result.projects.map((project) => [project.projectId, project.status]),
+    [
+      ["marketing", "completed"],
+      ["broken", "failed"],
+      ["docs", "completed"],
+    ],
+  );
+  assert.equal(
+    result.projects[1].status === "failed" ? result.projects[1].error : null,
+    "Invalid API token",
+  );
+  assert.deepEqual(marketing.state.calls, ["fork:main:backup-plugin-daily-2026-02-27"]);
+  assert.deepEqual(docs.state.calls, ["fork:main:backup-plugin-daily-2026-02-27"]);
+  assert.equal(hasScheduledBackupFailures(result), true);
+});
+
+test("requests naming a project outside the registry are rejected", async () => {
+  const { client } = createFakeClient({
+    parameters: { backupSchedule: createSchedule() },
+  });
+
+  await assert.rejects(
+    getBackupStatus({
+      client,
+      projectId: "unknown",
+      projectRegistry: JSON.stringify({ marketing: "token-marketing" }),
+    }),
+    (error: unknown) =>
+      error instanceof ProjectNotFoundError && error.projectId === "unknown",
+  );
+});
+
+test("staggered runs wait a random jitter before each cadence and report when it started", async () => {
+  const { client, state } = createFakeClient({
+    parameters: {
+      backupSchedule: createSchedule({ enabledCadences: ["daily", "weekly"] }),
+    },
+  });
+  const delays: number[] = [];
+
+  const result = await runScheduledBackups({
+    apiToken: "token",
+    client,
+    now: new Date("2026-03-01T02:05:00.000Z"),
+    stagger: {
+      maxJitterMs: 10_000,
+      random: () => 0.25,
+      sleep: async (ms) => {
+        delays.push(ms);
+        state.calls.push(`sleep:${ms}`);
+      },
+    },
+  });
+
+  assert.deepEqual(state.calls, [
+    "sleep:2500",
+    "fork:main:backup-plugin-daily-2026-03-01",
+    "sleep:2500",
+    "fork:backup-plugin-daily-2026-03-01:backup-plugin-weekly-2026-03-01:fast",
+  ]);
+  assert.deepEqual(delays, [2500, 2500]);
+  for (const entry of result.results) {
+    assert.equal(entry.status, "executed");
+    assert.ok(entry.status === "executed" && !Number.isNaN(Date.parse(entry.startedAt)));
+  }
+});
+
+test("registered projects run at most the configured number at a time", async () => {
+  const registry = { alpha: "token-a", beta: "token-b", gamma: "token-c" };
+  let running = 0;
+  let maxRunning = 0;
+  const clientByProjectId: Record<string, BackupClient> = Object.fromEntries(
+    Object.keys(registry).map((projectId) => {
+      const { client } = createFakeClient({
+        parameters: { backupSchedule: createSchedule() },
+      });
+      const trackedClient = {
+        ...client,
+        plugins: {
+          ...client.plugins,
+          list: async () => {
+            running += 1;
+            maxRunning = Math.max(maxRunning, running);
+            await new Promise((resolve) => setTimeout(resolve, 5));
+            running -= 1;
+            return client.plugins.list();
+          },
+        },
+      } as unknown as BackupClient;
+      return [projectId, trackedClient];
+    }),
+  );
+
+  const result = await runScheduledBackupsForProjects(
+    {
+      projectRegistry: JSON.stringify(registry),
+      now: new Date("2026-02-27T02:05:00.000Z"),
+      stagger: { concurrency: 2 },
+    },
+    (options) =>
+      runScheduledBackups({ ...options, client: clientByProjectId[options.projectId ?? ""] }),
+  );
+
+  assert.equal(maxRunning, 2);
+  assert.ok("projects" in result);
+  assert.deepEqual(
+    result.projects.map((project) => [project.projectId, project.status]),
+    [
+      ["alpha", "completed"],
+      ["beta", "completed"],
+      ["gamma", "completed"],
+    ],
+  );
+});
+
+test("a held run lock rejects overlapping backups and an expired one is taken over", async () => {
+  const lock = {
+    owner: "other-run",
+    provider: "netlify",
+    acquiredAt: "2026-02-27T09:55:00.000Z",
+    expiresAt: "2026-02-27T10:10:00.000Z",
+  };
+  const { client, state } = createFakeClient({
+    parameters: {
+      backupSchedule: createSchedule(),
+      automaticBackupsLock: lock,
+    },
+  });
+
+  await assert.rejects(
+    runManualBackupNow({
+      apiToken: "token",
+      client,
+      scope: "daily",
+      now: new Date("2026-02-27T10:00:00.000Z"),
+    }),
+    (error: unknown) =>
+      error instanceof BackupAlreadyRunningError && error.lock.owner === "other-run",
+  );
+  assert.deepEqual(state.calls, []);
+
+  const result = await runManualBackupNow({
+    apiToken: "token",
+    client,
+    scope: "daily",
+    now: new Date("2026-02-27T10:30:00.000Z"),
+  });
+
+  assert.equal(result.status, "executed");
+  assert.deepEqual(state.calls, ["fork:main:backup-plugin-daily-2026-02-27"]);
+  assert.equal("automaticBackupsLock" in state.parameters, false);
+  assert.ok("automaticBackupsSchedule" in state.parameters);
+});
+
+test("a scheduled trigger that finds the run lock held is skipped instead of failing", async () => {
+  const { client, state } = createFakeClient({
+    parameters: {
+      backupSchedule: createSchedule(),
+      automaticBackupsLock: {
+        owner: "other-run",
+        provider: "cloudflare",
+        acquiredAt: "2026-02-27T02:05:00.000Z",
+        expiresAt: "2026-02-27T02:20:00.000Z",
+      },
+    },
+  });
+
+  const result = await runScheduledBackups({
+    apiToken: "token",
+    client,
+    now: new Date("2026-02-27T02:06:00.000Z"),
+  });
+
+  assert.equal(result.skipped, true);
+  assert.equal(result.reason, "ALREADY_RUNNING");
+  assert.deepEqual(result.results, [
+    { scope: "daily", status: "skipped", reason: "ALREADY_RUNNING" },
+  ]);
+  assert.equal(hasScheduledBackupFailures(result), false);
+  assert.deepEqual(state.calls, []);
+});
+
+test("slots due while the run lock is held stay pending for the next trigger", async () => {
+  const { client, state } = createFakeClient({
+    parameters: {
+      backupSchedule: createSchedule({ enabledCadences: ["weekly"] }),
+      automaticBackupsLock: {
+        owner: "other-run",
+        provider: "vercel",
+        acquiredAt: "2026-02-22T02:05:00.000Z",
+        expiresAt: "2026-02-22T02:20:00.000Z",
+      },
+    },
+  });
+
+  const skipped = await runScheduledBackups({
+    apiToken: "token",
+    client,
+    now: new Date("2026-02-22T02:06:00.000Z"),
+  });
+
+  assert.equal(skipped.reason, "ALREADY_RUNNING");
+  assert.deepEqual(
+    (state.parameters.automaticBackupsSchedule as Record<string, unknown>)
+      .pendingPeriodByCadence,
+    { weekly: "2026-02-22" },
+  );
+
+  // The weekly slot has no catch-up window, but the next daily trigger still runs it.
+  const resumed = await runScheduledBackups({
+    apiToken: "token",
+    client,
+    now: new Date("2026-02-23T02:05:00.000Z"),
+  });
+
+  assert.deepEqual(
+    resumed.results.map((entry) => [entry.scope, entry.status]),
+    [["weekly", "executed"]],
+  );
+  assert.deepEqual(
+    (state.parameters.automaticBackupsSchedule as Record<string, unknown>)
+      .pendingPeriodByCadence,
+    {},
+  );
+});
+
+test("a run keeps the pending slots another trigger recorded while it held the lock", async () => {
+  const { client, state } = createFakeClient({
+    parameters: {
+      backupSchedule: createSchedule(),
+    },
+  });
+
+  await runScheduledBackups({
+    apiToken: "token",
+    client: withForkHook(client, () => {
+      state.parameters.automaticBackupsSchedule = {
+        ...(state.parameters.automaticBackupsSchedule as Record<string, unknown>),
+        pendingPeriodByCadence: { daily: "2026-02-27", weekly: "2026-02-27" },
+      };
+    }),
+    now: new Date("2026-02-27T02:05:00.000Z"),
+  });
+
+  assert.deepEqual(
+    (state.parameters.automaticBackupsSchedule as Record<string, unknown>)
+      .pendingPeriodByCadence,
+    { weekly: "2026-02-27" },
+  );
+});
+
+test("scheduled runs with nothing due leave the plugin parameters untouched", async () => {
+  const { client } = createFakeClient({
+    parameters: {
+      backupSchedule: createSchedule(),
+      automaticBackupsSchedule: {
+        lastRunLocalDateByCadence: { daily: "2026-02-27" },
+      },
+    },
+  });
+  let updates = 0;
+  const countingClient = {
+    ...client,
+    plugins: {
+      ...client.plugins,
+      update: async (...args: Parameters<typeof client.plugins.update>) => {
+        updates += 1;
+        return client.plugins.update(...args);
+      },
+    },
+  } as unknown as BackupClient;
+
+  const result = await runScheduledBackups({
+    apiToken: "token",
+    client: countingClient,
+    now: new Date("2026-02-27T12:05:00.000Z"),
+  });
+
+  assert.equal(result.reason, "NOT_DUE");
+  assert.equal(updates, 0);
+});
+
+test("settings saved from the plugin UI during a long fork survive the state write", async () => {
+  const { client, state } = createFakeClient({
+    parameters: {
+      backupSchedule: createSchedule(),
+      notificationEmail: "old@example.com",
+    },
+  });
+  const slowForkClient = {
+    ...client,
+    environments: {
+      ...client.environments,
+      fork: async (...args: Parameters<typeof client.environments.fork>) => {
+        // The UI saves while the fork is still running.
+        state.parameters = { ...state.parameters, notificationEmail: "ops@example.com" };
+        return client.environments.fork(...args);
+      },
+    },
+  } as unknown as BackupClient;
+
+  await runScheduledBackups({
+    apiToken: "token",
+    client: slowForkClient,
+    now: new Date("2026-02-27T02:05:00.000Z"),
+  });
+
+  assert.equal(state.parameters.notificationEmail, "ops@example.com");
+  assert.deepEqual(
+    (state.parameters.automaticBackupsSchedule as Record<string, unknown>)
+      .lastRunLocalDateByCadence,
+    { daily: "2026-02-27" },
+  );
+});
+
+test("state overwritten by a stale UI save right after it was written is merged again", async () => {
+  const { client, state } = createFakeClient({
+    parameters: {
+      backupSchedule: createSchedule(),
+    },
+  });
+  const staleUiParameters = { ...state.parameters, notificationEmail: "ops@example.com" };
+  let stateWrites = 0;
+  const racingClient = {
+    ...client,
+    plugins: {
+      ...client.plugins,
+      update: async (pluginId: string, body: { parameters: Record<string, unknown> }) => {
+        await client.plugins.update(pluginId, body);
+        if ("automaticBackupsSchedule" in body.parameters) {
+          stateWrites += 1;
+          if (stateWrites === 1) {
+            // The UI form was opened before the run and saves its copy now.
+            await client.plugins.update(pluginId, { parameters: staleUiParameters });
+          }
+        }
+      },
+    },
+  } as unknown as BackupClient;
+
+  await runScheduledBackups({
+    apiToken: "token",
+    client: racingClient,
+    now: new Date("2026-02-27T02:05:00.000Z"),
+  });
+
+  assert.equal(stateWrites > 1, true);
+  assert.equal(state.parameters.notificationEmail, "ops@example.com");
+  assert.deepEqual(
+    (state.parameters.automaticBackupsSchedule as Record<string, unknown>)
+      .lastRunLocalDateByCadence,
+    { daily: "2026-02-27" },
+  );
+});
+
+const createApiError = (status: number, headers: Record<string, string> = {}) =>
+  Object.assign(new Error(`${status} from the CMA`), {
+    response: { status, statusText: "", headers },
+  });
+
+const withFailingForks = (client: BackupClient, errors: Error[]) =>
+  ({
+    ...client,
+    environments: {
+      ...client.environments,
+      fork: async (...args: Parameters<typeof client.environments.fork>) => {
+        const error = errors.shift();
+        if (error) {
+          throw error;
+        }
+        return client.environments.fork(...args);
+      },
+    },
+  }) as unknown as BackupClient;
+
+test("transient CMA errors are retried, honoring Retry-After", async () => {
+  const { client, state } = createFakeClient({
+    parameters: { backupSchedule: createSchedule() },
+  });
+  const delays: number[] = [];
+
+  const result = await runScheduledBackups({
+    apiToken: "token",
+    client: withFailingForks(client, [createApiError(429, { "Retry-After": "2" })]),
+    now: new Date("2026-02-27T02:05:00.000Z"),
+    retry: {
+      sleep: async (ms) => {
+        delays.push(ms);
+      },
+    },
+  });
+
+  assert.deepEqual(delays, [2000]);
+  assert.deepEqual(state.calls, ["fork:main:backup-plugin-daily-2026-02-27"]);
+  assert.equal(result.results[0].status, "executed");
+});
+
+test("a cadence whose CMA call keeps failing reports how many attempts it made", async () => {
+  const { client, state } = createFakeClient({
+    parameters: { backupSchedule: createSchedule() },
+  });
+  const delays: number[] = [];
+
+  const result = await runScheduledBackups({
+    apiToken: "token",
+    client: withFailingForks(client, [
+      createApiError(429),
+      createApiError(429),
+      createApiError(429),
+    ]),
+    now: new Date("2026-02-27T02:05:00.000Z"),
+    retry: {
+      maxAttempts: 3,
+      baseDelayMs: 100,
+      random: () => 0.5,
+      sleep: async (ms) => {
+        delays.push(ms);
+      },
+    },
+  });
+
+  assert.deepEqual(delays, [50, 100]);
+  assert.deepEqual(state.calls, []);
+  const [entry] = result.results;
+  assert.equal(entry.status, "failed");
+  assert.equal(entry.status === "failed" ? entry.requestAttempts : null, 3);
+  assert.equal(entry.status === "failed" ? entry.error : null, "429 from the CMA");
+});
+
+test("a fork that failed with a 5xx or timed out is not retried", async () => {
+  for (const error of [
+    createApiError(503),
+    Object.assign(new Error("The request timed out"), { name: "TimeoutError" }),
+  ]) {
+    const { client, state } = createFakeClient({
+      parameters: { backupSchedule: createSchedule() },
+    });
+    const delays: number[] = [];
+
+    const result = await runScheduledBackups({
+      apiToken: "token",
+      client: withFailingForks(client, [error]),
+      now: new Date("2026-02-27T02:05:00.000Z"),
+      retry: {
+        sleep: async (ms) => {
+          delays.push(ms);
+        },
+      },
+    });
+
+    // The CMA may have started the fork: repeating it could fork twice.
+    assert.deepEqual(delays, []);
+    assert.deepEqual(state.calls, []);
+    const [entry] = result.results;
+    assert.equal(entry.status === "failed" ? entry.requestAttempts : null, 1);
+  }
+});
+
+test("reads and deletions are retried after a 5xx, and a repeated deletion may find the environment gone", async () => {
+  const { client, state } = createFakeClient({
+    environments: [
+      createBackup("backup-plugin-daily-2026-02-25", "2026-02-25T02:05:00.000Z"),
+      createBackup("backup-plugin-daily-2026-02-26", "2026-02-26T02:05:00.000Z"),
+    ],
+    parameters: {
+      backupSchedule: createSchedule({ retentionByCadence: { daily: 2 } }),
+    },
+  });
+  let failedList = false;
+  let failedDestroy = false;
+  const flakyClient = {
+    ...client,
+    environments: {
+      ...client.environments,
+      list: async () => {
+        if (!failedList) {
+          failedList = true;
+          throw createApiError(502);
+        }
+        return client.environments.list();
+      },
+      destroy: async (environmentId: string) => {
+        if (!state.environments.some((environment) => environment.id === environmentId)) {
+          throw createApiError(404);
+        }
+        await client.environments.destroy(environmentId);
+        if (!failedDestroy) {
+          // Deleted, but the response never made it back.
+          failedDestroy = true;
+          throw createApiError(504);
+        }
+      },
+    },
+  } as unknown as BackupClient;
+  const delays: number[] = [];
+
+  const result = await runScheduledBackups({
+    apiToken: "token",
+    client: flakyClient,
+    now: new Date("2026-02-27T02:05:00.000Z"),
+    retry: {
+      baseDelayMs: 100,
+      random: () => 1,
+      sleep: async (ms) => {
+        delays.push(ms);
+      },
+    },
+  });
+
+  assert.deepEqual(delays, [100, 100]);
+  assert.equal(result.results[0]?.status, "executed");
+  assert.deepEqual(state.calls, [
+    "fork:main:backup-plugin-daily-2026-02-27",
+    "destroy:backup-plugin-daily-2026-02-25",
+  ]);
+});
+
+test("client errors other than 429 fail on the first attempt", async () => {
+  const { client } = createFakeClient({
+    parameters: { backupSchedule: createSchedule() },
+  });
+  const delays: number[] = [];
+
+  const result = await runScheduledBackups({
+    apiToken: "token",
+    client: withFailingForks(client, [createApiError(422)]),
+    now: new Date("2026-02-27T02:05:00.000Z"),
+    retry: {
+      sleep: async (ms) => {
+        delays.push(ms);
+      },
+    },
+  });
+
+  assert.deepEqual(delays, []);
+  const [entry] = result.results;
+  assert.equal(entry.status === "failed" ? entry.requestAttempts : null, 1);
+});
+
+test("an async manual backup starts the fork, holds the lock and finishes on the first ready poll", async () => {
+  const { client, state } = createFakeClient({
+    environments: [
+      createBackup("backup-plugin-daily-2026-02-26", "2026-02-26T02:05:00.000Z"),
+      createBackup("backup-plugin-daily-2026-02-27", "2026-02-27T02:05:00.000Z"),
+    ],
+    parameters: {
+      backupSchedule: createSchedule({ retentionByCadence: { daily: 2 } }),
+    },
+  });
+  const now = new Date("2026-02-28T10:00:00.000Z");
+
+  const started = await startManualBackup({ scope: "daily", client, now, apiToken: "token" });
+  assert.ok(started.status === "started");
+  assert.equal(started.job.environmentId, "backup-plugin-daily-2026-02-28");
+  assert.deepEqual(started.job.pendingDeletionEnvironmentIds, [
+    "backup-plugin-daily-2026-02-26",
+  ]);
+  assert.deepEqual(state.calls, ["fork:main:backup-plugin-daily-2026-02-28"]);
+  assert.equal("automaticBackupsLock" in state.parameters, true);
+  await assert.rejects(
+    runManualBackupNow({ scope: "daily", client, now, apiToken: "token" }),
+    BackupAlreadyRunningError,
+  );
+
+  const forked = state.environments.find(
+    (environment) => environment.id === "backup-plugin-daily-2026-02-28",
+  );
+  assert.ok(forked);
+  forked.meta.fork_completion_percentage = 40;
+  const running = await getBackupJobStatus({
+    jobId: started.job.id,
+    client,
+    apiToken: "token",
+  });
+  assert.equal(running.job.status, "running");
+  assert.equal(running.progress, 40);
+
+  forked.meta.status = "ready";
+  const completed = await getBackupJobStatus({
+    jobId: started.job.id,
+    client,
+    apiToken: "token",
+  });
+  assert.equal(completed.job.status, "completed");
+  assert.deepEqual(completed.job.deletedEnvironmentIds, ["backup-plugin-daily-2026-02-26"]);
+  assert.deepEqual(
+    state.environments.map((environment) => environment.id),
+    ["main", "backup-plugin-daily-2026-02-27", "backup-plugin-daily-2026-02-28"],
+  );
+  assert.equal("automaticBackupsLock" in state.parameters, false);
+
+  const scheduleState = state.parameters.automaticBackupsSchedule as Record<
+    string,
+    Record<string, unknown>
+  >;
+  assert.equal(
+    scheduleState.lastManagedEnvironmentIdByCadence.daily,
+    "backup-plugin-daily-2026-02-28",
+  );
+  assert.equal(scheduleState.lastRunLocalDateByCadence.daily, "2026-02-28");
+
+  const polledAgain = await getBackupJobStatus({
+    jobId: started.job.id,
+    client,
+    apiToken: "token",
+  });
+  assert.equal(polledAgain.job.status, "completed");
+  assert.equal(state.calls.filter((call) => call.startsWith("destroy:")).length, 1);
+});
+
+test("an async backup whose environment disappears fails and keeps the older generations", async () => {
+  const { client, state } = createFakeClient({
+    environments: [
+      createBackup("backup-plugin-daily-2026-02-27", "2026-02-27T02:05:00.000Z"),
+    ],
+    parameters: {
+      backupSchedule: createSchedule(),
+    },
+  });
+  const now = new Date("2026-02-28T10:00:00.000Z");
+
+  const started = await startManualBackup({ scope: "daily", client, now, apiToken: "token" });
+  assert.ok(started.status === "started");
+  assert.deepEqual(started.job.pendingDeletionEnvironmentIds, [
+    "backup-plugin-daily-2026-02-27",
+  ]);
+  state.environments = state.environments.filter(
+    (environment) => environment.id !== "backup-plugin-daily-2026-02-28",
+  );
+
+  const failed = await getBackupJobStatus({
+    jobId: started.job.id,
+    client,
+    apiToken: "token",
+  });
+  assert.equal(failed.job.status, "failed");
+  assert.match(failed.job.error ?? "", /no longer exists/);
+  assert.deepEqual(
+    state.environments.map((environment) => environment.id),
+    ["main", "backup-plugin-daily-2026-02-27"],
+  );
+  assert.equal("automaticBackupsLock" in state.parameters, false);
+});
+
+const startReadyBackupJob = async () => {
+  const fake = createFakeClient({
+    environments: [
+      createBackup("backup-plugin-daily-2026-02-26", "2026-02-26T02:05:00.000Z"),
+      createBackup("backup-plugin-daily-2026-02-27", "2026-02-27T02:05:00.000Z"),
+    ],
+    parameters: {
+      backupSchedule: createSchedule({ retentionByCadence: { daily: 2 } }),
+    },
+  });
+  const started = await startManualBackup({
+    scope: "daily",
+    client: fake.client,
+    now: new Date("2026-02-28T10:00:00.000Z"),
+    apiToken: "token",
+  });
+  assert.ok(started.status === "started");
+  const forked = fake.state.environments.find(
+    (environment) => environment.id === "backup-plugin-daily-2026-02-28",
+  );
+  assert.ok(forked);
+  forked.meta.status = "ready";
+
+  return { ...fake, job: started.job };
+};
+
+const getSavedBackupJobs = (parameters: Record<string, unknown>) =>
+  (parameters.automaticBackupsSchedule as { backupJobs: Array<{ status: string }> })
+    .backupJobs;
+
+test("a scheduled run finishes an async job nobody polled before working out the due slots", async () => {
+  const { client, state } = await startReadyBackupJob();
+
+  const result = await runScheduledBackups({
+    apiToken: "token",
+    client,
+    now: new Date("2026-02-28T11:05:00.000Z"),
+  });
+
+  // The job recorded today's daily run, so the trigger has nothing left to fork.
+  assert.equal(result.skipped, true);
+  assert.deepEqual(state.calls, [
+    "fork:main:backup-plugin-daily-2026-02-28",
+    "destroy:backup-plugin-daily-2026-02-26",
+  ]);
+  assert.deepEqual(
+    getSavedBackupJobs(state.parameters).map((job) => job.status),
+    ["completed"],
+  );
+  assert.equal("automaticBackupsLock" in state.parameters, false);
+});
+
+test("a finished async job clears the pending entry a trigger left for its slot", async () => {
+  const { client, state } = createFakeClient({
+    parameters: {
+      backupSchedule: createSchedule(),
+      automaticBackupsSchedule: {
+        pendingPeriodByCadence: { daily: "2026-02-28" },
+      },
+    },
+  });
+  const started = await startManualBackup({
+    scope: "daily",
+    client,
+    now: new Date("2026-02-28T10:00:00.000Z"),
+    apiToken: "token",
+  });
+  assert.ok(started.status === "started");
+  const forked = state.environments.find(
+    (environment) => environment.id === started.job.environmentId,
+  );
+  assert.ok(forked);
+  forked.meta.status = "ready";
+
+  await getBackupJobStatus({ jobId: started.job.id, client, apiToken: "token" });
+  const result = await runScheduledBackups({
+    apiToken: "token",
+    client,
+    now: new Date("2026-02-28T11:05:00.000Z"),
+  });
+
+  assert.equal(result.skipped, true);
+  assert.deepEqual(state.calls, ["fork:main:backup-plugin-daily-2026-02-28"]);
+  assert.deepEqual(
+    (state.parameters.automaticBackupsSchedule as Record<string, unknown>)
+      .pendingPeriodByCadence,
+    {},
+  );
+});
+
+test("polls renew the lease of a job whose fork is still running", async () => {
+  const { client, state, job } = await startReadyBackupJob();
+  const forked = state.environments.find(
+    (environment) => environment.id === job.environmentId,
+  );
+  assert.ok(forked);
+  forked.meta.status = "creating";
+  assert.equal(
+    (state.parameters.automaticBackupsLock as { expiresAt: string }).expiresAt,
+    "2026-02-28T10:15:00.000Z",
+  );
+
+  const running = await getBackupJobStatus({ jobId: job.id, client, apiToken: "token" });
+
+  assert.equal(running.job.status, "running");
+  const lock = state.parameters.automaticBackupsLock as { owner: string; expiresAt: string };
+  assert.equal(lock.owner, job.lockOwner);
+  assert.ok(Date.parse(lock.expiresAt) > Date.now());
+});
+
+test("overlapping polls finish a job once", async () => {
+  const { client, state, job } = await startReadyBackupJob();
+  let destroyAttempts = 0;
+  const strictClient = {
+    ...client,
+    environments: {
+      ...client.environments,
+      destroy: async (environmentId: string) => {
+        destroyAttempts += 1;
+        if (!state.environments.some((environment) => environment.id === environmentId)) {
+          throw createApiError(404);
+        }
+        return client.environments.destroy(environmentId);
+      },
+    },
+  } as unknown as BackupClient;
+
+  const polls = await Promise.all([
+    getBackupJobStatus({ jobId: job.id, client: strictClient, apiToken: "token" }),
+    getBackupJobStatus({ jobId: job.id, client: strictClient, apiToken: "token" }),
+  ]);
+
+  assert.equal(destroyAttempts, 2);
+  assert.deepEqual(
+    polls.map((poll) => poll.job.status),
+    ["completed", "completed"],
+  );
+  assert.deepEqual(
+    getSavedBackupJobs(state.parameters).map((saved) => saved.status),
+    ["completed"],
+  );
+  assert.equal("automaticBackupsLock" in state.parameters, false);
+});
+
+test("async safe rotation holds the same-day backup until the job's fork is ready", async () => {
+  const { client, state } = createFakeClient({
+    environments: [
+      createBackup("backup-plugin-daily-2026-02-28", "2026-02-28T02:05:00.000Z"),
+    ],
+    parameters: {
+      backupSchedule: createSchedule({ rotationMode: "safe" }),
+    },
+  });
+
+  const started = await startManualBackup({
+    scope: "daily",
+    client,
+    now: new Date("2026-02-28T10:00:00.000Z"),
+    apiToken: "token",
+  });
+
+  assert.ok(started.status === "started");
+  assert.deepEqual(started.job.heldEnvironmentIds, ["backup-plugin-daily-2026-02-28"]);
+  assert.deepEqual(state.calls, [
+    "rename:backup-plugin-daily-2026-02-28:rotating-backup-plugin-daily-2026-02-28",
+    "fork:main:backup-plugin-daily-2026-02-28",
+  ]);
+  const forked = state.environments.find(
+    (environment) =>
+      environment.id === "backup-plugin-daily-2026-02-28" &&
+      environment.meta.status === "creating",
+  );
+  assert.ok(forked);
+  forked.meta.status = "ready";
+
+  const finished = await getBackupJobStatus({
+    jobId: started.job.id,
+    client,
+    apiToken: "token",
+  });
+
+  assert.equal(finished.job.status, "completed");
+  assert.deepEqual(finished.job.deletedEnvironmentIds, ["backup-plugin-daily-2026-02-28"]);
+  assert.equal(state.calls.at(-1), "destroy:rotating-backup-plugin-daily-2026-02-28");
+});
+
+test("async safe rotation gives the held backup its id back when the job's fork fails", async () => {
+  const { client, state } = createFakeClient({
+    environments: [
+      createBackup("backup-plugin-daily-2026-02-28", "2026-02-28T02:05:00.000Z"),
+    ],
+    parameters: {
+      backupSchedule: createSchedule({ rotationMode: "safe" }),
+    },
+  });
+  const started = await startManualBackup({
+    scope: "daily",
+    client,
+    now: new Date("2026-02-28T10:00:00.000Z"),
+    apiToken: "token",
+  });
+  assert.ok(started.status === "started");
+  state.environments = state.environments.filter(
+    (environment) => environment.meta.status !== "creating",
+  );
+
+  const finished = await getBackupJobStatus({
+    jobId: started.job.id,
+    client,
+    apiToken: "token",
+  });
+
+  assert.equal(finished.job.status, "failed");
+  assert.equal(
+    state.calls.at(-1),
+    "rename:rotating-backup-plugin-daily-2026-02-28:backup-plugin-daily-2026-02-28",
+  );
+  assert.deepEqual(
+    state.environments.map((environment) => environment.id),
+    ["main", "backup-plugin-daily-2026-02-28"],
+  );
+});
+
+test("a trigger waits within its time budget for a manual backup that is still forking", async () => {
+  const { client, state } = createFakeClient({
+    parameters: {
+      backupSchedule: createSchedule({
+        enabledCadences: ["daily", "cron"],
+        cronExpression: "0 10 * * *",
+      }),
+    },
+  });
+  const started = await startManualBackup({
+    scope: "daily",
+    client,
+    now: new Date("2026-02-28T10:00:00.000Z"),
+    apiToken: "token",
+  });
+  assert.ok(started.status === "started");
+  let elapsedMs = 0;
+
+  const result = await runScheduledBackups({
+    apiToken: "token",
+    client,
+    now: new Date("2026-02-28T10:05:00.000Z"),
+    stagger: {
+      sleep: async (ms) => {
+        elapsedMs += ms;
+        const forked = state.environments.find(
+          (environment) => environment.id === started.job.environmentId,
+        );
+        assert.ok(forked);
+        forked.meta.status = "ready";
+      },
+    },
+    timeBudget: { maxDurationMs: 5 * 60 * 1000, clock: () => elapsedMs },
+  });
+
+  assert.equal(elapsedMs, 15 * 1000);
+  assert.equal(result.skipped, false);
+  // The job recorded the daily run, so only the cron slot is left to fork.
+  assert.deepEqual(
+    result.results.map((entry) => [entry.scope, entry.status]),
+    [["cron", "executed"]],
+  );
+  assert.deepEqual(
+    getSavedBackupJobs(state.parameters).map((job) => job.status),
+    ["completed"],
+  );
+});
+
+test("running jobs are never trimmed from the job history", async () => {
+  const finishedJobs = Array.from({ length: 20 }, (_, index) => ({
+    id: `finished-${index}`,
+    scope: "daily",
+    environmentId: `backup-plugin-daily-finished-${index}`,
+    sourceEnvironmentId: "main",
+    startedAt: "2026-02-20T10:00:00.000Z",
+    status: "completed",
+    pendingDeletionEnvironmentIds: [],
+    deletedEnvironmentIds: [],
+  }));
+  const { client, state } = createFakeClient({
+    environments: [
+      {
+        id: "backup-plugin-daily-2026-02-27",
+        meta: { primary: false, created_at: "2026-02-27T10:00:00.000Z", status: "creating" },
+      },
+    ],
+    parameters: {
+      backupSchedule: createSchedule({ retentionByCadence: { daily: 5 } }),
+      automaticBackupsSchedule: {
+        backupJobs: [
+          ...finishedJobs,
+          {
+            id: "oldest-running",
+            scope: "daily",
+            environmentId: "backup-plugin-daily-2026-02-27",
+            sourceEnvironmentId: "main",
+            startedAt: "2026-02-27T10:00:00.000Z",
+            status: "running",
+            pendingDeletionEnvironmentIds: [],
+            deletedEnvironmentIds: [],
+          },
+        ],
+      },
+    },
+  });
+
+  const started = await startManualBackup({
+    scope: "daily",
+    client,
+    now: new Date("2026-02-28T10:00:00.000Z"),
+    apiToken: "token",
+  });
+
+  assert.ok(started.status === "started");
+  const jobs = getSavedBackupJobs(state.parameters) as Array<{ id: string; status: string }>;
+  assert.equal(jobs.length, 20);
+  assert.deepEqual(
+    jobs.filter((job) => job.status === "running").map((job) => job.id),
+    [started.job.id, "oldest-running"],
+  );
+});
+
+const withForkHook = (client: BackupClient, onFork: () => void | Promise<void>) =>
+  ({
+    ...client,
+    environments: {
+      ...client.environments,
+      fork: async (...args: Parameters<typeof client.environments.fork>) => {
+        await onFork();
+        return client.environments.fork(...args);
+      },
+    },
+  }) as unknown as BackupClient;
+
+test("slots that no longer fit the time budget are deferred and resumed by the next trigger", async () => {
+  const { client, state } = createFakeClient({
+    parameters: {
+      backupSchedule: createSchedule({
+        enabledCadences: ["daily", "cron"],
+        cronExpression: "0 10 * * *",
+      }),
+    },
+  });
+  let elapsedMs = 0;
+
+  const deferredRun = await runScheduledBackups({
+    apiToken: "token",
+    client: withForkHook(client, () => {
+      elapsedMs += 50 * 1000;
+    }),
+    now: new Date("2026-02-28T10:05:00.000Z"),
+    timeBudget: { maxDurationMs: 60 * 1000, clock: () => elapsedMs },
+  });
+
+  assert.deepEqual(
+    deferredRun.results.map((entry) => [entry.scope, entry.status]),
+    [
+      ["daily", "executed"],
+      ["cron", "deferred"],
+    ],
+  );
+  assert.equal(hasScheduledBackupFailures(deferredRun), false);
+  const deferredState = state.parameters.automaticBackupsSchedule as Record<
+    string,
+    Record<string, string>
+  >;
+  assert.deepEqual(Object.keys(deferredState.pendingPeriodByCadence), ["cron"]);
+  assert.equal(deferredState.lastRunLocalDateByCadence.daily, "2026-02-28");
+
+  // The cron occurrence is over an hour later, but the deferred slot still runs.
+  const resumedRun = await runScheduledBackups({
+    apiToken: "token",
+    client,
+    now: new Date("2026-02-28T11:05:00.000Z"),
+  });
+
+  assert.deepEqual(
+    resumedRun.results.map((entry) => [entry.scope, entry.status]),
+    [["cron", "executed"]],
+  );
+  const resumedState = state.parameters.automaticBackupsSchedule as Record<
+    string,
+    Record<string, string>
+  >;
+  assert.deepEqual(resumedState.pendingPeriodByCadence, {});
+});
+
+test("each finished slot is saved before the next one starts", async () => {
+  const { client, state } = createFakeClient({
+    parameters: {
+      backupSchedule: createSchedule({
+        enabledCadences: ["daily", "cron"],
+        cronExpression: "0 10 * * *",
+      }),
+    },
+  });
+  const savedBeforeFork: Array<Record<string, unknown> | undefined> = [];
+
+  await runScheduledBackups({
+    apiToken: "token",
+    client: withForkHook(client, () => {
+      const saved = state.parameters.automaticBackupsSchedule as
+        | Record<string, Record<string, unknown>>
+        | undefined;
+      savedBeforeFork.push(
+        saved &&
+          structuredClone({
+            lastRunAt: saved.lastRunAtByCadence,
+            pending: saved.pendingPeriodByCadence,
+          }),
+      );
+    }),
+    now: new Date("2026-02-28T10:05:00.000Z"),
+  });
+
+  assert.equal(savedBeforeFork.length, 2);
+  // Both slots are marked pending before the first fork, so a run stopped by the
+  // platform is resumed by the next trigger.
+  assert.deepEqual(Object.keys(savedBeforeFork[0]?.pending ?? {}), ["daily", "cron"]);
+  assert.deepEqual(Object.keys(savedBeforeFork[1]?.lastRunAt ?? {}), ["daily"]);
+  assert.deepEqual(Object.keys(savedBeforeFork[1]?.pending ?? {}), ["cron"]);
+});
+
+test("the run lock is renewed before every slot after the first", async () => {
+  const { client, state } = createFakeClient({
+    parameters: {
+      backupSchedule: createSchedule({
+        enabledCadences: ["daily", "cron"],
+        cronExpression: "0 10 * * *",
+      }),
+    },
+  });
+  const expiresAtBeforeFork: string[] = [];
+
+  await runScheduledBackups({
+    apiToken: "token",
+    client: withForkHook(client, () => {
+      const lock = state.parameters.automaticBackupsLock as { expiresAt: string };
+      expiresAtBeforeFork.push(lock.expiresAt);
+    }),
+    now: new Date("2026-02-28T10:05:00.000Z"),
+  });
+
+  assert.equal(expiresAtBeforeFork.length, 2);
+  assert.equal(expiresAtBeforeFork[0], "2026-02-28T10:20:00.000Z");
+  assert.ok(Date.parse(expiresAtBeforeFork[1]) > Date.now());
+  assert.equal("automaticBackupsLock" in state.parameters, false);
+});
+
+test("a run whose lease was taken over defers its remaining slots", async () => {
+  const { client, state } = createFakeClient({
+    parameters: {
+      backupSchedule: createSchedule({
+        enabledCadences: ["daily", "cron"],
+        cronExpression: "0 10 * * *",
+      }),
+    },
+  });
+  const otherLock = {
+    owner: "other-run",
+    provider: "netlify",
+    acquiredAt: "2026-02-28T10:25:00.000Z",
+    expiresAt: "2026-02-28T10:40:00.000Z",
+  };
+
+  const result = await runScheduledBackups({
+    apiToken: "token",
+    client: withForkHook(client, () => {
+      // The fork outlives the lease and another run takes it over.
+      state.parameters.automaticBackupsLock = otherLock;
+    }),
+    now: new Date("2026-02-28T10:05:00.000Z"),
+  });
+
+  assert.deepEqual(
+    result.results.map((entry) => [entry.scope, entry.status]),
+    [
+      ["daily", "executed"],
+      ["cron", "deferred"],
+    ],
+  );
+  assert.deepEqual(state.calls, ["fork:main:backup-plugin-daily-2026-02-28"]);
+  assert.deepEqual(state.parameters.automaticBackupsLock, otherLock);
+});
+
+test("a backup pinned while a fork runs stays pinned and is spared by the rest of the run", async () => {
+  const { client, state } = createFakeClient({
+    environments: [
+      createBackup("backup-plugin-weekly-2026-02-23", "2026-02-23T02:05:00.000Z"),
+    ],
+    parameters: {
+      backupSchedule: createSchedule({
+        enabledCadences: ["daily", "weekly"],
+        anchorLocalDate: "2026-02-02",
+      }),
+    },
+  });
+  let pinned = false;
+
+  const result = await runScheduledBackups({
+    apiToken: "token",
+    client: withForkHook(client, async () => {
+      if (pinned) {
+        return;
+      }
+      pinned = true;
+      await setBackupPinned({
+        apiToken: "token",
+        client,
+        environmentId: "backup-plugin-weekly-2026-02-23",
+        pinned: true,
+      });
+    }),
+    now: new Date("2026-03-02T02:05:00.000Z"),
+  });
+
+  assert.deepEqual(
+    result.results.map((entry) => entry.status),
+    ["executed", "executed"],
+  );
+  assert.ok(!state.calls.includes("destroy:backup-plugin-weekly-2026-02-23"));
+  const saved = state.parameters.automaticBackupsSchedule as {
+    pinnedEnvironmentIds?: string[];
+    lastRunAtByCadence?: Record<string, string>;
+  };
+  assert.deepEqual(saved.pinnedEnvironmentIds, ["backup-plugin-weekly-2026-02-23"]);
+  assert.deepEqual(Object.keys(saved.lastRunAtByCadence ?? {}).sort(), ["daily", "weekly"]);
+});
@@ -1,6 +1,12 @@
 import assert from "node:assert/strict";
 import test from "node:test";
 import { createBackupStatusHandler } from "../api/datocms/backup-status";
+import {
+  ProjectNotFoundError,
+  type BackupCadence,
+  type BackupStatusResult,
+  type BackupStatusSlot,
+} from "../services/backupService";
 import { invokeVercelStyleHandler } from "../utils/platformAdapters";
 import {
   BACKUPS_MPI_STATUS_REQUEST_MESSAGE,
@@ -17,6 +23,52 @@ const withAuthHeaders = (sharedSecret = "test-shared-secret") => ({
   "x-datocms-backups-auth": sharedSecret,
 });
 
+const createSlot = (
+  scope: BackupCadence,
+  overrides: Partial<BackupStatusSlot> = {},
+): BackupStatusSlot => ({
+  scope,
+  executionMode: "lambda_cron",
+  sourceEnvironmentId: "main",
+  lastBackupAt: null,
+  nextBackupAt: null,
+  retention: 1,
+  generations: [],
+  ...overrides,
+});
+
+const createStatusResult = ({
+  provider = "vercel",
+  daily = {},
+  weekly = {},
+}: {
+  provider?: BackupStatusResult["scheduler"]["provider"];
+  daily?: Partial<BackupStatusSlot>;
+  weekly?: Partial<BackupStatusSlot>;
+} = {}): BackupStatusResult => ({
+  scheduler: {
+    provider,
+    cadence: "daily",
+    unservedSlots: [],
+  },
+  retentionPolicy: "per_cadence",
+  environmentQuota: { limit: null, usage: 1, headroom: null },
+  pinnedBackups: [],
+  slots: {
+    hourly: createSlot("hourly"),
+    every_n_hours: createSlot("every_n_hours"),
+    daily: createSlot("daily", daily),
+    weekly: createSlot("weekly", weekly),
+    biweekly: createSlot("biweekly"),
+    monthly: createSlot("monthly"),
+    quarterly: createSlot("quarterly"),
+    yearly: createSlot("yearly"),
+    cron: createSlot("cron"),
+  },
+  customSlots: [],
+  checkedAt: "2026-02-27T12:00:00.000Z",
+});
+
 const createValidRequestBody = () => ({
   event_type: BACKUPS_STATUS_EVENT_TYPE,
   mpi: {
@@ -30,27 +82,18 @@ const createValidRequestBody = () => ({
 });
 
 test("backup status returns deterministic payload for valid request", async () => {
-  const handler = createBackupStatusHandler(async () => ({
-    scheduler: {
-      provider: "vercel",
-      cadence: "daily",
-    },
-    slots: {
+  const handler = createBackupStatusHandler(async () =>
+    createStatusResult({
       daily: {
-        scope: "daily",
-        executionMode: "lambda_cron",
         lastBackupAt: "2026-02-27T01:00:00.000Z",
         nextBackupAt: "2026-02-28T02:05:00.000Z",
       },
       weekly: {
-        scope: "weekly",
-        executionMode: "lambda_cron",
         lastBackupAt: "2026-02-25T02:35:00.000Z",
         nextBackupAt: "2026-03-04T02:35:00.000Z",
       },
-    },
-    checkedAt: "2026-02-27T12:00:00.000Z",
-  }));
+    }),
+  );
 
   const response = await invokeVercelStyleHandler(handler, {
     method: "POST",
@@ -69,33 +112,15 @@ test("backup status returns deterministic payload for valid request", async () =
   assert.equal(payload.status, BACKUPS_SERVICE_STATUS);
   assert.equal(payload.scheduler.provider, "vercel");
   assert.equal(payload.slots.daily.executionMode, "lambda_cron");
+  assert.equal(payload.retentionPolicy, "per_cadence");
+  assert.deepEqual(payload.pinnedBackups, []);
 });
 
 test("backup status forwards internal api token hint to service loader", async () => {
   let receivedApiToken: string | undefined;
   const handler = createBackupStatusHandler(async (options) => {
     receivedApiToken = options?.apiToken;
-    return {
-      scheduler: {
-        provider: "cloudflare",
-        cadence: "daily",
-      },
-      slots: {
-        daily: {
-          scope: "daily",
-          executionMode: "lambda_cron",
-          lastBackupAt: null,
-          nextBackupAt: null,
-        },
-        weekly: {
-          scope: "weekly",
-          executionMode: "lambda_cron",
-          lastBackupAt: null,
-          nextBackupAt: null,
-        },
-      },
-      checkedAt: "2026-02-27T12:00:00.000Z",
-    };
+    return createStatusResult({ provider: "cloudflare" });
   });
 
   const response = await invokeVercelStyleHandler(handler, {
@@ -109,6 +134,31 @@ test("backup status forwards internal api token hint to service loader", async (
   assert.equal(receivedApiToken, "cloudflare-bound-token");
 });
 
+test("backup status selects the project named in the plugin payload", async () => {
+  let receivedOptions: { projectId?: string; projectRegistry?: string } | undefined;
+  const handler = createBackupStatusHandler(async (options) => {
+    receivedOptions = options;
+    throw new ProjectNotFoundError("docs");
+  });
+
+  const response = await invokeVercelStyleHandler(handler, {
+    method: "POST",
+    body: {
+      ...createValidRequestBody(),
+      plugin: { name: BACKUPS_PLUGIN_NAME, environment: "main", projectId: "docs" },
+    },
+    headers: withAuthHeaders(),
+    internalDatocmsProjectRegistry: '{"marketing":"token"}',
+  });
+
+  assert.equal(receivedOptions?.projectId, "docs");
+  assert.equal(receivedOptions?.projectRegistry, '{"marketing":"token"}');
+  assert.equal(response.statusCode, 404);
+  const payload = JSON.parse(response.body);
+  assert.equal(payload.error.code, "PROJECT_NOT_FOUND");
+  assert.deepEqual(payload.error.details, { projectId: "docs" });
+});
+
 test("backup status rejects unsupported methods", async () => {
   const handler = createBackupStatusHandler(async () => {
     throw new Error("should not be called");
@@ -3,7 +3,9 @@ import test from "node:test";
 import {
   createCloudflareWorker,
   DAILY_CRON_SCHEDULE,
+  HOURLY_CRON_SCHEDULE,
 } from "../cloudflare/worker";
+import type { ScheduledBackupsRunResult } from "../services/backupService";
 import {
   BACKUPS_BACKUP_NOW_EVENT_TYPE,
   BACKUPS_MPI_BACKUP_NOW_REQUEST_MESSAGE,
@@ -17,14 +19,15 @@ import {
 
 const SHARED_SECRET = "test-shared-secret";
 
-const createScheduledResult = (status: "executed" | "failed" = "executed") => ({
+const createScheduledResult = (status: "executed" | "failed" = "executed"): ScheduledBackupsRunResult => ({
   scheduler: {
-    provider: "cloudflare" as const,
-    cadence: "daily" as const,
+    provider: "cloudflare",
+    cadence: "hourly",
   },
   schedule: {
     timezone: "UTC",
-    enabledCadences: ["daily", "weekly"] as const,
+    enabledCadences: ["daily", "weekly"],
+    customSlots: [],
     anchorLocalDate: "2026-02-27",
   },
   checkedAt: "2026-02-27T12:00:00.000Z",
@@ -33,19 +36,24 @@ const createScheduledResult = (status: "executed" | "failed" = "executed") => ({
     status === "executed"
       ? [
           {
-            scope: "daily" as const,
-            status: "executed" as const,
+            scope: "daily",
+            status: "executed",
+            startedAt: "2026-02-27T12:00:00.000Z",
             result: {
-              scope: "daily" as const,
+              scope: "daily",
               createdEnvironmentId: "backup-plugin-daily-2026-02-27",
+              deletedEnvironmentIds: [],
               deletedEnvironmentId: null,
+              sourceEnvironmentId: "main",
             },
           },
         ]
       : [
           {
-            scope: "daily" as const,
-            status: "failed" as const,
+            scope: "daily",
+            status: "failed",
+            startedAt: "2026-02-27T12:00:00.000Z",
+            code: "BACKUP_FAILED",
             error: "fork failed",
           },
         ],
@@ -123,6 +131,31 @@ test("cloudflare worker triggers scheduled unified job for daily cron", async ()
   assert.deepEqual(calls, ["scheduled"]);
 });
 
+test("cloudflare worker triggers scheduled unified job for hourly cron", async () => {
+  const calls: string[] = [];
+  const waitUntilCalls: Promise<unknown>[] = [];
+
+  const worker = createCloudflareWorker({
+    runScheduled: async () => {
+      calls.push("scheduled");
+      return createScheduledResult("executed");
+    },
+  });
+
+  await worker.scheduled(
+    { cron: HOURLY_CRON_SCHEDULE },
+    { DATOCMS_FULLACCESS_API_TOKEN: "token" },
+    {
+      waitUntil: (promise) => {
+        waitUntilCalls.push(promise);
+      },
+    },
+  );
+
+  await Promise.all(waitUntilCalls);
+  assert.deepEqual(calls, ["scheduled"]);
+});
+
 test("cloudflare worker scheduled hook rejects waitUntil promise on partial failures", async () => {
   const waitUntilCalls: Promise<unknown>[] = [];
 
@@ -0,0 +1,107 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { createSchedulePreviewHandler } from "../api/datocms/schedule-preview";
+import { invokeVercelStyleHandler } from "../utils/platformAdapters";
+import {
+  BACKUPS_MPI_SCHEDULE_PREVIEW_REQUEST_MESSAGE,
+  BACKUPS_MPI_SCHEDULE_PREVIEW_RESPONSE_MESSAGE,
+  BACKUPS_MPI_VERSION,
+  BACKUPS_PLUGIN_NAME,
+  BACKUPS_SCHEDULE_PREVIEW_EVENT_TYPE,
+} from "../utils/healthContract";
+
+process.env.DATOCMS_BACKUPS_SHARED_SECRET = "test-shared-secret";
+
+const withAuthHeaders = (sharedSecret = "test-shared-secret") => ({
+  "x-datocms-backups-auth": sharedSecret,
+});
+
+const createValidRequestBody = () => ({
+  event_type: BACKUPS_SCHEDULE_PREVIEW_EVENT_TYPE,
+  mpi: {
+    message: BACKUPS_MPI_SCHEDULE_PREVIEW_REQUEST_MESSAGE,
+    version: BACKUPS_MPI_VERSION,
+  },
+  plugin: {
+    name: BACKUPS_PLUGIN_NAME,
+    environment: "main",
+  },
+  preview: {
+    count: 2,
+    horizonDays: 30,
+    schedule: { enabledCadences: ["weekly"], timezone: "Europe/Rome" },
+  },
+});
+
+test("schedule-preview forwards the preview options and returns upcoming dates", async () => {
+  let receivedOptions: { count?: number; horizonDays?: number; schedule?: unknown } | undefined;
+  const handler = createSchedulePreviewHandler(async (options) => {
+    receivedOptions = options;
+    return {
+      timezone: "Europe/Rome",
+      anchorLocalDate: "2026-02-26",
+      runAtLocalTime: "00:00",
+      horizonEndLocalDate: "2026-03-28",
+      cadences: {
+        weekly: [
+          { localTime: "2026-03-05T00:00", at: "2026-03-04T23:00:00.000Z", blackedOut: false },
+          { localTime: "2026-03-12T00:00", at: "2026-03-11T23:00:00.000Z", blackedOut: false },
+        ],
+      },
+      customSlots: {},
+      checkedAt: "2026-02-27T12:00:00.000Z",
+    };
+  });
+
+  const response = await invokeVercelStyleHandler(handler, {
+    method: "POST",
+    body: createValidRequestBody(),
+    headers: withAuthHeaders(),
+  });
+
+  assert.equal(response.statusCode, 200);
+  const payload = JSON.parse(response.body);
+  assert.deepEqual(payload.mpi, {
+    message: BACKUPS_MPI_SCHEDULE_PREVIEW_RESPONSE_MESSAGE,
+    version: BACKUPS_MPI_VERSION,
+  });
+  assert.equal(payload.preview.cadences.weekly.length, 2);
+  assert.equal(receivedOptions?.count, 2);
+  assert.equal(receivedOptions?.horizonDays, 30);
+  assert.deepEqual(receivedOptions?.schedule, {
+    enabledCadences: ["weekly"],
+    timezone: "Europe/Rome",
+  });
+});
+
+test("schedule-preview validates the requested count", async () => {
+  const handler = createSchedulePreviewHandler(async () => {
+    throw new Error("should not be called");
+  });
+
+  const response = await invokeVercelStyleHandler(handler, {
+    method: "POST",
+    body: {
+      ...createValidRequestBody(),
+      preview: { count: 0 },
+    },
+    headers: withAuthHeaders(),
+  });
+
+  assert.equal(response.statusCode, 400);
+  assert.equal(JSON.parse(response.body).error.code, "INVALID_PREVIEW_COUNT");
+});
+
+test("schedule-preview requires the shared secret", async () => {
+  const handler = createSchedulePreviewHandler(async () => {
+    throw new Error("should not be called");
+  });
+
+  const response = await invokeVercelStyleHandler(handler, {
+    method: "POST",
+    body: createValidRequestBody(),
+    headers: withAuthHeaders("wrong-secret"),
+  });
+
+  assert.equal(response.statusCode, 401);
+});
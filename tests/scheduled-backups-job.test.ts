@@ -4,18 +4,20 @@ import { createScheduledBackupsHandler } from "../api/jobs/scheduled-backups";
 import { runScheduledBackupsJob } from "../netlify/functions/scheduledBackups";
 import { invokeVercelStyleHandler } from "../utils/platformAdapters";
 import { createCloudflareWorker } from "../cloudflare/worker";
+import type { ScheduledBackupsRunResult } from "../services/backupService";
 
 const SHARED_SECRET = "test-shared-secret";
 process.env.DATOCMS_BACKUPS_SHARED_SECRET = SHARED_SECRET;
 
-const createResult = (status: "executed" | "failed") => ({
+const createResult = (status: "executed" | "failed"): ScheduledBackupsRunResult => ({
   scheduler: {
-    provider: "vercel" as const,
-    cadence: "daily" as const,
+    provider: "vercel",
+    cadence: "hourly",
   },
   schedule: {
     timezone: "UTC",
-    enabledCadences: ["daily", "weekly"] as const,
+    enabledCadences: ["daily", "weekly"],
+    customSlots: [],
     anchorLocalDate: "2026-02-27",
   },
   checkedAt: "2026-02-27T12:00:00.000Z",
@@ -24,19 +26,24 @@ const createResult = (status: "executed" | "failed") => ({
     status === "executed"
       ? [
           {
-            scope: "daily" as const,
-            status: "executed" as const,
+            scope: "daily",
+            status: "executed",
+            startedAt: "2026-02-27T12:00:00.000Z",
             result: {
-              scope: "daily" as const,
+              scope: "daily",
               createdEnvironmentId: "backup-plugin-daily-2026-02-27",
+              deletedEnvironmentIds: [],
               deletedEnvironmentId: null,
+              sourceEnvironmentId: "main",
             },
           },
         ]
       : [
           {
-            scope: "daily" as const,
-            status: "failed" as const,
+            scope: "daily",
+            status: "failed",
+            startedAt: "2026-02-27T12:00:00.000Z",
+            code: "BACKUP_FAILED",
             error: "fork failed",
           },
         ],
@@ -77,6 +84,24 @@ test("scheduled backups API returns 200 when all cadences execute", async () =>
   assert.equal(payload.result.results[0].status, "executed");
 });
 
+test("scheduled backups API reports a run skipped for a held lock as a success", async () => {
+  const handler = createScheduledBackupsHandler(async () => ({
+    ...createResult("executed"),
+    skipped: true,
+    reason: "ALREADY_RUNNING",
+    results: [{ scope: "daily", status: "skipped", reason: "ALREADY_RUNNING" }],
+  }));
+
+  const response = await invokeVercelStyleHandler(handler, {
+    method: "POST",
+    body: {},
+    headers: withAuthHeaders(),
+  });
+
+  assert.equal(response.statusCode, 200);
+  assert.equal(JSON.parse(response.body).result.reason, "ALREADY_RUNNING");
+});
+
 test("netlify scheduled job helper returns 500 on partial failure", async () => {
   const response = await runScheduledBackupsJob(async () => createResult("failed"));
   assert.equal(response.statusCode, 500);
@@ -2,7 +2,11 @@ import assert from "node:assert/strict";
 import test from "node:test";
 import {
   getNextDueDateForCadence,
+  getNextCronOccurrenceForCadence,
+  getNextDueHourForCadence,
   isCadenceDue,
+  isCronCadenceDue,
+  isSubDailyCadenceDue,
   normalizeBackupSchedule,
   toTimezoneLocalDateKey,
 } from "../services/backupService";
@@ -143,3 +147,257 @@ test("timezone local date key tracks project timezone date boundaries", () => {
     "2026-02-26",
   );
 });
+
+test("every-n-hours cadence is due once per slot counted from the anchor's local midnight", () => {
+  const base = {
+    cadence: "every_n_hours" as const,
+    everyNHours: 6,
+    anchorLocalDate: "2026-02-26",
+  };
+
+  assert.equal(
+    isSubDailyCadenceDue({
+      ...base,
+      currentLocalHour: "2026-02-27T07",
+      lastRunLocalHour: "2026-02-27T06",
+    }),
+    false,
+  );
+  assert.equal(
+    isSubDailyCadenceDue({
+      ...base,
+      currentLocalHour: "2026-02-27T12",
+      lastRunLocalHour: "2026-02-27T06",
+    }),
+    true,
+  );
+  assert.equal(
+    getNextDueHourForCadence({
+      ...base,
+      currentLocalHour: "2026-02-27T19",
+      lastRunLocalHour: "2026-02-27T18",
+    }),
+    "2026-02-28T00",
+  );
+});
+
+test("cron cadence is due once per occurrence, including one the trigger reached late", () => {
+  const weekdaysAtNine = {
+    cronExpression: "0 9 * * 1-5",
+    anchorLocalDate: "2026-02-01",
+  };
+
+  assert.equal(
+    isCronCadenceDue({
+      ...weekdaysAtNine,
+      currentLocalTime: "2026-02-27T09:05",
+      lastRunLocalOccurrence: "2026-02-26T09:00",
+    }),
+    true,
+  );
+  assert.equal(
+    isCronCadenceDue({
+      ...weekdaysAtNine,
+      currentLocalTime: "2026-02-28T10:05",
+      lastRunLocalOccurrence: "2026-02-27T09:00",
+    }),
+    false,
+  );
+  assert.equal(
+    getNextCronOccurrenceForCadence({
+      ...weekdaysAtNine,
+      currentLocalTime: "2026-02-27T09:05",
+    }),
+    "2026-03-02T09:00",
+  );
+});
+
+test("cron cadence matches either day-of-month or day-of-week when both are set", () => {
+  assert.equal(
+    getNextCronOccurrenceForCadence({
+      cronExpression: "30 2 1,15 * 0",
+      anchorLocalDate: "2026-02-01",
+      currentLocalTime: "2026-02-02T00:00",
+    }),
+    "2026-02-08T02:30",
+  );
+});
+
+test("schedule normalization drops a cron cadence with an invalid expression and flags migration", () => {
+  const normalized = normalizeBackupSchedule({
+    value: {
+      version: 1,
+      enabledCadences: ["daily", "cron"],
+      timezone: "UTC",
+      anchorLocalDate: "2026-02-01",
+      cronExpression: "0 25 * * *",
+      updatedAt: "2026-02-01T00:00:00.000Z",
+    },
+    timezoneFallback: "UTC",
+    now: new Date("2026-02-27T10:00:00.000Z"),
+  });
+
+  assert.deepEqual(normalized.config.enabledCadences, ["daily"]);
+  assert.equal(normalized.config.cronExpression, undefined);
+  assert.equal(normalized.requiresMigration, true);
+});
+
+test("quarterly cadence repeats every third month from the anchor and clamps the day", () => {
+  assert.equal(
+    isCadenceDue({
+      cadence: "quarterly",
+      anchorLocalDate: "2025-11-30",
+      currentLocalDate: "2026-02-28",
+      lastRunLocalDate: undefined,
+    }),
+    true,
+  );
+  assert.equal(
+    isCadenceDue({
+      cadence: "quarterly",
+      anchorLocalDate: "2025-11-30",
+      currentLocalDate: "2026-03-30",
+      lastRunLocalDate: undefined,
+    }),
+    false,
+  );
+  assert.equal(
+    getNextDueDateForCadence({
+      cadence: "quarterly",
+      anchorLocalDate: "2025-11-30",
+      currentLocalDate: "2026-02-28",
+      lastRunLocalDate: "2026-02-28",
+    }),
+    "2026-05-30",
+  );
+});
+
+test("yearly cadence anchored on a leap day falls back to February 28th", () => {
+  assert.equal(
+    getNextDueDateForCadence({
+      cadence: "yearly",
+      anchorLocalDate: "2024-02-29",
+      currentLocalDate: "2024-03-01",
+      lastRunLocalDate: undefined,
+    }),
+    "2025-02-28",
+  );
+  assert.equal(
+    getNextDueDateForCadence({
+      cadence: "yearly",
+      anchorLocalDate: "2024-02-29",
+      currentLocalDate: "2027-03-01",
+      lastRunLocalDate: undefined,
+    }),
+    "2028-02-29",
+  );
+});
+
+test("weekday rule runs weekly cadence on every listed weekday across the year boundary", () => {
+  const mondaysAndThursdays = {
+    cadence: "weekly" as const,
+    anchorLocalDate: "2025-12-01",
+    dayRule: { kind: "weekdays" as const, weekdays: [1, 4] },
+  };
+
+  assert.equal(
+    isCadenceDue({
+      ...mondaysAndThursdays,
+      currentLocalDate: "2026-01-01",
+      lastRunLocalDate: "2025-12-29",
+    }),
+    true,
+  );
+  assert.equal(
+    getNextDueDateForCadence({
+      ...mondaysAndThursdays,
+      currentLocalDate: "2026-01-01",
+      lastRunLocalDate: "2026-01-01",
+    }),
+    "2026-01-05",
+  );
+});
+
+test("weekday rule on a biweekly cadence skips every other week from the anchor", () => {
+  assert.equal(
+    getNextDueDateForCadence({
+      cadence: "biweekly",
+      anchorLocalDate: "2026-02-02",
+      currentLocalDate: "2026-02-05",
+      lastRunLocalDate: "2026-02-05",
+      dayRule: { kind: "weekdays", weekdays: [1, 4] },
+    }),
+    "2026-02-16",
+  );
+});
+
+test("nth weekday rule finds the first Sunday across month and year boundaries", () => {
+  const firstSunday = {
+    cadence: "monthly" as const,
+    anchorLocalDate: "2025-11-01",
+    dayRule: { kind: "nth_weekday" as const, nth: 1 as const, weekday: 0 },
+  };
+
+  assert.equal(
+    getNextDueDateForCadence({
+      ...firstSunday,
+      currentLocalDate: "2025-12-07",
+      lastRunLocalDate: "2025-12-07",
+    }),
+    "2026-01-04",
+  );
+  assert.equal(
+    isCadenceDue({
+      ...firstSunday,
+      currentLocalDate: "2026-02-01",
+      lastRunLocalDate: undefined,
+    }),
+    true,
+  );
+});
+
+test("last weekday and last day of month rules follow month length and leap years", () => {
+  assert.equal(
+    getNextDueDateForCadence({
+      cadence: "quarterly",
+      anchorLocalDate: "2026-01-15",
+      currentLocalDate: "2026-02-01",
+      lastRunLocalDate: undefined,
+      dayRule: { kind: "nth_weekday", nth: -1, weekday: 5 },
+    }),
+    "2026-04-24",
+  );
+  assert.equal(
+    getNextDueDateForCadence({
+      cadence: "monthly",
+      anchorLocalDate: "2028-01-10",
+      currentLocalDate: "2028-01-31",
+      lastRunLocalDate: "2028-01-31",
+      dayRule: { kind: "last_day_of_month" },
+    }),
+    "2028-02-29",
+  );
+});
+
+test("schedule normalization drops day rules that do not fit their cadence", () => {
+  const normalized = normalizeBackupSchedule({
+    value: {
+      version: 1,
+      enabledCadences: ["weekly", "monthly"],
+      timezone: "UTC",
+      anchorLocalDate: "2026-02-01",
+      dayRuleByCadence: {
+        weekly: { kind: "weekdays", weekdays: [4, 1, 4] },
+        monthly: { kind: "weekdays", weekdays: [1] },
+      },
+      updatedAt: "2026-02-01T00:00:00.000Z",
+    },
+    timezoneFallback: "UTC",
+    now: new Date("2026-02-27T10:00:00.000Z"),
+  });
+
+  assert.deepEqual(normalized.config.dayRuleByCadence, {
+    weekly: { kind: "weekdays", weekdays: [1, 4] },
+  });
+  assert.equal(normalized.requiresMigration, true);
+});
@@ -5,7 +5,9 @@ export type VercelRequest = {
   query?: Record<string, unknown>;
   url?: string;
   internalBackupsSharedSecret?: string;
+  internalBackupsCalendarToken?: string;
   internalDatocmsApiToken?: string;
+  internalDatocmsProjectRegistry?: string;
   [key: string]: any;
 };
 
@@ -13,6 +15,7 @@ export type VercelResponse = {
   setHeader: (name: string, value: string) => void;
   status: (statusCode: number) => VercelResponse;
   json: (jsonBody: any) => VercelResponse;
+  send: (body: string) => VercelResponse;
   end: () => void;
   [key: string]: any;
 };
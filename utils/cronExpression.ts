@@ -0,0 +1,172 @@
+type CronField = {
+  values: Set<number>;
+  restricted: boolean;
+};
+
+export type CronSchedule = {
+  minutes: CronField;
+  hours: CronField;
+  daysOfMonth: CronField;
+  months: CronField;
+  daysOfWeek: CronField;
+};
+
+type FieldBounds = {
+  min: number;
+  max: number;
+};
+
+const FIELD_BOUNDS: FieldBounds[] = [
+  { min: 0, max: 59 },
+  { min: 0, max: 23 },
+  { min: 1, max: 31 },
+  { min: 1, max: 12 },
+  { min: 0, max: 7 },
+];
+
+const INTEGER_PATTERN = /^\d+$/;
+
+const parseInteger = (value: string, bounds: FieldBounds): number | null => {
+  if (!INTEGER_PATTERN.test(value)) {
+    return null;
+  }
+
+  const parsed = Number(value);
+  return parsed >= bounds.min && parsed <= bounds.max ? parsed : null;
+};
+
+const parseField = (value: string, bounds: FieldBounds): CronField | null => {
+  const values = new Set<number>();
+
+  for (const part of value.split(",")) {
+    const [range, rawStep, ...rest] = part.split("/");
+    if (rest.length > 0 || !range) {
+      return null;
+    }
+
+    const step = typeof rawStep === "string" ? parseInteger(rawStep, { min: 1, max: 59 }) : 1;
+    if (step === null) {
+      return null;
+    }
+
+    let start: number | null;
+    let end: number | null;
+    if (range === "*") {
+      start = bounds.min;
+      end = bounds.max;
+    } else if (range.includes("-")) {
+      const [rawStart, rawEnd, ...extra] = range.split("-");
+      start = parseInteger(rawStart ?? "", bounds);
+      end = parseInteger(rawEnd ?? "", bounds);
+      if (extra.length > 0) {
+        return null;
+      }
+    } else {
+      start = parseInteger(range, bounds);
+      end = typeof rawStep === "string" ? bounds.max : start;
+    }
+
+    if (start === null || end === null || start > end) {
+      return null;
+    }
+
+    for (let current = start; current <= end; current += step) {
+      values.add(current);
+    }
+  }
+
+  return { values, restricted: !value.startsWith("*") };
+};
+
+/**
+ * Parses a standard five-field cron expression (minute, hour, day of month, month,
+ * day of week). Supports `*`, lists, ranges and steps with numeric values; day of
+ * week accepts both `0` and `7` for Sunday. Returns `null` for anything else.
+ */
+export const parseCronExpression = (expression: string): CronSchedule | null => {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    return null;
+  }
+
+  const parsed = fields.map((field, index) => parseField(field, FIELD_BOUNDS[index]!));
+  if (parsed.some((field) => field === null)) {
+    return null;
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parsed as CronField[];
+  if (daysOfWeek!.values.has(7)) {
+    daysOfWeek!.values.add(0);
+    daysOfWeek!.values.delete(7);
+  }
+
+  return {
+    minutes: minutes!,
+    hours: hours!,
+    daysOfMonth: daysOfMonth!,
+    months: months!,
+    daysOfWeek: daysOfWeek!,
+  };
+};
+
+export const isValidCronExpression = (expression: unknown): expression is string =>
+  typeof expression === "string" && parseCronExpression(expression) !== null;
+
+/**
+ * Follows cron's day matching: when both day of month and day of week are
+ * restricted, a date matches if either one does.
+ */
+export const cronMatchesDate = (
+  schedule: CronSchedule,
+  date: { month: number; day: number; weekday: number },
+): boolean => {
+  if (!schedule.months.values.has(date.month)) {
+    return false;
+  }
+
+  const dayOfMonthMatches = schedule.daysOfMonth.values.has(date.day);
+  const dayOfWeekMatches = schedule.daysOfWeek.values.has(date.weekday);
+  if (schedule.daysOfMonth.restricted && schedule.daysOfWeek.restricted) {
+    return dayOfMonthMatches || dayOfWeekMatches;
+  }
+
+  return dayOfMonthMatches && dayOfWeekMatches;
+};
+
+/**
+ * Returns the latest `HH:MM` time of day matched by the schedule that is not later
+ * than `bound` (in minutes since midnight), or `null` when there is none.
+ */
+export const getLatestCronTimeOfDay = (
+  schedule: CronSchedule,
+  bound: number,
+): { hour: number; minute: number } | null => {
+  for (let minuteOfDay = Math.min(bound, 1439); minuteOfDay >= 0; minuteOfDay -= 1) {
+    const hour = Math.floor(minuteOfDay / 60);
+    const minute = minuteOfDay % 60;
+    if (schedule.hours.values.has(hour) && schedule.minutes.values.has(minute)) {
+      return { hour, minute };
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Returns the earliest `HH:MM` time of day matched by the schedule that is not
+ * earlier than `bound` (in minutes since midnight), or `null` when there is none.
+ */
+export const getEarliestCronTimeOfDay = (
+  schedule: CronSchedule,
+  bound: number,
+): { hour: number; minute: number } | null => {
+  for (let minuteOfDay = Math.max(bound, 0); minuteOfDay < 1440; minuteOfDay += 1) {
+    const hour = Math.floor(minuteOfDay / 60);
+    const minute = minuteOfDay % 60;
+    if (schedule.hours.values.has(hour) && schedule.minutes.values.has(minute)) {
+      return { hour, minute };
+    }
+  }
+
+  return null;
+};
@@ -1,6 +1,9 @@
 export const PLUGIN_HEALTH_EVENT_TYPE = "plugin_health_ping";
 export const BACKUPS_STATUS_EVENT_TYPE = "backup_status_request";
 export const BACKUPS_BACKUP_NOW_EVENT_TYPE = "backup_now_request";
+export const BACKUPS_BACKUP_PIN_EVENT_TYPE = "backup_pin_request";
+export const BACKUPS_BACKUP_JOB_STATUS_EVENT_TYPE = "backup_job_status_request";
+export const BACKUPS_SCHEDULE_PREVIEW_EVENT_TYPE = "schedule_preview_request";
 export const BACKUPS_MPI_PING_MESSAGE = "DATOCMS_AUTOMATIC_BACKUPS_PLUGIN_PING";
 export const BACKUPS_MPI_PONG_MESSAGE = "DATOCMS_AUTOMATIC_BACKUPS_LAMBDA_PONG";
 export const BACKUPS_MPI_STATUS_REQUEST_MESSAGE =
@@ -11,6 +14,18 @@ export const BACKUPS_MPI_BACKUP_NOW_REQUEST_MESSAGE =
   "DATOCMS_AUTOMATIC_BACKUPS_PLUGIN_BACKUP_NOW";
 export const BACKUPS_MPI_BACKUP_NOW_RESPONSE_MESSAGE =
   "DATOCMS_AUTOMATIC_BACKUPS_LAMBDA_BACKUP_NOW";
+export const BACKUPS_MPI_BACKUP_PIN_REQUEST_MESSAGE =
+  "DATOCMS_AUTOMATIC_BACKUPS_PLUGIN_BACKUP_PIN";
+export const BACKUPS_MPI_BACKUP_PIN_RESPONSE_MESSAGE =
+  "DATOCMS_AUTOMATIC_BACKUPS_LAMBDA_BACKUP_PIN";
+export const BACKUPS_MPI_BACKUP_JOB_STATUS_REQUEST_MESSAGE =
+  "DATOCMS_AUTOMATIC_BACKUPS_PLUGIN_BACKUP_JOB_STATUS";
+export const BACKUPS_MPI_BACKUP_JOB_STATUS_RESPONSE_MESSAGE =
+  "DATOCMS_AUTOMATIC_BACKUPS_LAMBDA_BACKUP_JOB_STATUS";
+export const BACKUPS_MPI_SCHEDULE_PREVIEW_REQUEST_MESSAGE =
+  "DATOCMS_AUTOMATIC_BACKUPS_PLUGIN_SCHEDULE_PREVIEW";
+export const BACKUPS_MPI_SCHEDULE_PREVIEW_RESPONSE_MESSAGE =
+  "DATOCMS_AUTOMATIC_BACKUPS_LAMBDA_SCHEDULE_PREVIEW";
 export const BACKUPS_MPI_VERSION = "2026-02-26";
 export const BACKUPS_PLUGIN_NAME = "datocms-plugin-automatic-environment-backups";
 export const BACKUPS_SERVICE_NAME = "datocms-backups-scheduled-function";
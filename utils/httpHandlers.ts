@@ -1,3 +1,8 @@
+import {
+  InvalidProjectRegistryError,
+  MissingApiTokenError,
+  ProjectNotFoundError,
+} from "../services/backupService";
 import type { VercelRequest, VercelResponse } from "../types/vercel";
 
 export type ValidationError = {
@@ -66,3 +71,82 @@ export const parseJsonObjectBody = (body: unknown): Record<string, unknown> => {
 
   return body as Record<string, unknown>;
 };
+
+export type ProjectRequestOptions = {
+  apiToken?: string;
+  projectId?: string;
+  projectRegistry?: string;
+};
+
+export const validatePluginProjectId = (projectId: unknown): ValidationError | null => {
+  if (
+    typeof projectId !== "undefined" &&
+    (typeof projectId !== "string" || !projectId.trim())
+  ) {
+    return {
+      code: "INVALID_PLUGIN_PROJECT",
+      message: "plugin.projectId must be a non-empty string",
+      details: {
+        received: projectId,
+      },
+    };
+  }
+
+  return null;
+};
+
+/**
+ * Builds the project selection passed to the service: the requested project ID
+ * plus the API token and project registry bound by the platform adapter.
+ */
+export const toProjectRequestOptions = (
+  req: VercelRequest,
+  projectId: unknown,
+): ProjectRequestOptions => ({
+  apiToken:
+    typeof req.internalDatocmsApiToken === "string"
+      ? req.internalDatocmsApiToken
+      : undefined,
+  projectId: typeof projectId === "string" ? projectId.trim() : undefined,
+  projectRegistry:
+    typeof req.internalDatocmsProjectRegistry === "string"
+      ? req.internalDatocmsProjectRegistry
+      : undefined,
+});
+
+/**
+ * Sends the response for project selection errors. Returns `false` for any
+ * other error so the caller can fall through to its own handling.
+ */
+export const sendProjectError = (res: VercelResponse, error: unknown): boolean => {
+  if (error instanceof ProjectNotFoundError) {
+    sendError(res, 404, {
+      code: "PROJECT_NOT_FOUND",
+      message: error.message,
+      details: {
+        projectId: error.projectId,
+      },
+    });
+    return true;
+  }
+
+  if (error instanceof InvalidProjectRegistryError) {
+    sendError(res, 500, {
+      code: "INVALID_PROJECT_REGISTRY",
+      message: error.message,
+      details: {},
+    });
+    return true;
+  }
+
+  if (error instanceof MissingApiTokenError) {
+    sendError(res, 500, {
+      code: "MISSING_API_TOKEN",
+      message: "Missing API token. Configure DATOCMS_FULLACCESS_API_TOKEN.",
+      details: {},
+    });
+    return true;
+  }
+
+  return false;
+};
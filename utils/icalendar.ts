@@ -0,0 +1,76 @@
+export type ICalendarEvent = {
+  uid: string;
+  start: string;
+  durationMinutes: number;
+  summary: string;
+  description?: string;
+};
+
+const MAX_LINE_LENGTH = 75;
+
+const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+const toUtcDateTime = (value: string | Date) =>
+  new Date(value).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+/**
+ * Folds content lines longer than 75 characters, continuing them with a leading
+ * space as RFC 5545 requires.
+ */
+const foldLine = (line: string) => {
+  if (line.length <= MAX_LINE_LENGTH) {
+    return line;
+  }
+
+  const parts = [line.slice(0, MAX_LINE_LENGTH)];
+  for (let index = MAX_LINE_LENGTH; index < line.length; index += MAX_LINE_LENGTH - 1) {
+    parts.push(` ${line.slice(index, index + MAX_LINE_LENGTH - 1)}`);
+  }
+
+  return parts.join("\r\n");
+};
+
+export const renderICalendar = ({
+  name,
+  events,
+  now,
+}: {
+  name: string;
+  events: ICalendarEvent[];
+  now: Date;
+}): string => {
+  const stamp = toUtcDateTime(now);
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//DatoCMS//Automatic Environment Backups//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+  ];
+
+  for (const event of events) {
+    const start = new Date(event.start);
+    const end = new Date(start.getTime() + event.durationMinutes * 60 * 1000);
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${toUtcDateTime(start)}`,
+      `DTEND:${toUtcDateTime(end)}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+    );
+    if (event.description) {
+      lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    }
+    lines.push("END:VEVENT");
+  }
+
+  lines.push("END:VCALENDAR");
+  return `${lines.map(foldLine).join("\r\n")}\r\n`;
+};
@@ -120,7 +120,9 @@ export const invokeVercelStyleHandler = async (
     query?: Record<string, unknown>;
     url?: string;
     internalBackupsSharedSecret?: string;
+    internalBackupsCalendarToken?: string;
     internalDatocmsApiToken?: string;
+    internalDatocmsProjectRegistry?: string;
   },
 ): Promise<CapturedHandlerResponse> => {
   let statusCode = 200;
@@ -144,6 +146,11 @@ export const invokeVercelStyleHandler = async (
       }
       return response;
     },
+    send: (body: string) => {
+      didWriteBody = true;
+      responseBody = body;
+      return response;
+    },
     end: () => {
       return;
     },
@@ -157,7 +164,9 @@ export const invokeVercelStyleHandler = async (
       query: request.query,
       url: request.url,
       internalBackupsSharedSecret: request.internalBackupsSharedSecret,
+      internalBackupsCalendarToken: request.internalBackupsCalendarToken,
       internalDatocmsApiToken: request.internalDatocmsApiToken,
+      internalDatocmsProjectRegistry: request.internalDatocmsProjectRegistry,
     } as VercelRequest,
     response,
   );
@@ -3,6 +3,8 @@ import { getHeaderValue } from "./platformAdapters";
 export const BACKUPS_AUTH_HEADER_NAME = "X-Datocms-Backups-Auth";
 export const BACKUPS_SHARED_SECRET_ENV_VAR = "DATOCMS_BACKUPS_SHARED_SECRET";
 export const DEFAULT_BACKUPS_SHARED_SECRET = "superSecretToken";
+export const BACKUPS_CALENDAR_TOKEN_ENV_VAR = "DATOCMS_BACKUPS_CALENDAR_TOKEN";
+export const BACKUPS_AUTH_QUERY_PARAM = "token";
 
 type AuthHeaderMap = Record<string, unknown> | Headers | undefined;
 
@@ -55,6 +57,24 @@ export const getAuthHeaderValue = (headers: AuthHeaderMap): string | undefined =
   return getHeaderValue(loweredHeaders, BACKUPS_AUTH_HEADER_NAME);
 };
 
+/**
+ * Reads the `token` query parameter, for clients such as calendar apps that can
+ * only subscribe to a plain URL.
+ */
+export const getAuthQueryValue = (
+  query: Record<string, unknown> | URLSearchParams | undefined,
+): string | undefined => {
+  if (!query) {
+    return undefined;
+  }
+
+  if (typeof URLSearchParams !== "undefined" && query instanceof URLSearchParams) {
+    return query.get(BACKUPS_AUTH_QUERY_PARAM) ?? undefined;
+  }
+
+  return toHeaderString((query as Record<string, unknown>)[BACKUPS_AUTH_QUERY_PARAM]);
+};
+
 export const resolveBackupsSharedSecret = (sharedSecret?: string): string | undefined => {
   if (typeof sharedSecret === "string" && sharedSecret.trim()) {
     return sharedSecret.trim();
@@ -72,6 +92,20 @@ export const resolveBackupsSharedSecret = (sharedSecret?: string): string | unde
   return DEFAULT_BACKUPS_SHARED_SECRET;
 };
 
+// No default: without a configured token the calendar only accepts the header.
+export const resolveBackupsCalendarToken = (calendarToken?: string): string | undefined => {
+  if (typeof calendarToken === "string" && calendarToken.trim()) {
+    return calendarToken.trim();
+  }
+
+  if (typeof process === "undefined" || !process.env) {
+    return undefined;
+  }
+
+  const fromEnv = process.env[BACKUPS_CALENDAR_TOKEN_ENV_VAR];
+  return typeof fromEnv === "string" && fromEnv.trim() ? fromEnv.trim() : undefined;
+};
+
 export const validateBackupsSharedSecret = ({
   headers,
   sharedSecret,
@@ -99,8 +133,45 @@ export const validateBackupsSharedSecret = ({
       failure: {
         statusCode: 401,
         code: "UNAUTHORIZED",
-        message:
-          "Missing or invalid X-Datocms-Backups-Auth header.",
+        message: "Missing or invalid X-Datocms-Backups-Auth header.",
+      },
+    };
+  }
+
+  return {
+    ok: true,
+  };
+};
+
+/**
+ * Authenticates the calendar feed with the shared secret header or, for calendar
+ * apps, the read-only calendar token in the `token` query parameter. The shared
+ * secret itself is never accepted in the URL, where it would end up in logs and
+ * calendar subscriptions.
+ */
+export const validateBackupsCalendarToken = ({
+  headers,
+  sharedSecret,
+  calendarToken,
+  query,
+}: {
+  headers: AuthHeaderMap;
+  sharedSecret?: string;
+  calendarToken?: string;
+  query: Record<string, unknown> | URLSearchParams | undefined;
+}): AuthValidationResult => {
+  if (typeof getAuthHeaderValue(headers) === "string") {
+    return validateBackupsSharedSecret({ headers, sharedSecret });
+  }
+
+  const resolvedToken = resolveBackupsCalendarToken(calendarToken);
+  if (!resolvedToken || getAuthQueryValue(query) !== resolvedToken) {
+    return {
+      ok: false,
+      failure: {
+        statusCode: 401,
+        code: "UNAUTHORIZED",
+        message: "Missing or invalid X-Datocms-Backups-Auth header or calendar token.",
       },
     };
   }